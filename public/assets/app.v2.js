@@ -4,8 +4,7 @@
  */
 
 // Fetch game data from JSON with timeout (AbortController)
-async function fetchGameData(game, type) {
-    const url = `/data/${game}.${type}.json`;
+async function fetchJson(url, label) {
     const controller = new AbortController();
     const timeoutId = setTimeout(() => controller.abort(), 5000);
 
@@ -21,7 +20,7 @@ async function fetchGameData(game, type) {
     } catch (error) {
         clearTimeout(timeoutId);
         if (error.name === 'AbortError') {
-            console.warn(`[NextReset] Fetch timeout for ${game}.${type}`);
+            console.warn(`[NextReset] Fetch timeout for ${label}`);
         } else {
             console.error('[NextReset] Error fetching game data:', error);
         }
@@ -29,6 +28,36 @@ async function fetchGameData(game, type) {
     }
 }
 
+// Map pre-ProviderResult field names (lastUpdatedUtc, source.url) onto the current ones
+function normalizeData(data) {
+    if (!data || typeof data !== 'object') return data;
+    return {
+        ...data,
+        fetched_at_utc: data.fetched_at_utc || data.lastUpdatedUtc,
+        source_url: data.source_url || data.source?.url,
+        sourceName: data.sourceName || data.source?.name
+    };
+}
+
+async function fetchGameData(game, type) {
+    return normalizeData(await fetchJson(`/data/${game}.${type}.json`, `${game}.${type}`));
+}
+
+// Load the run manifest (every game's current result in one file)
+// Returns a map of "game.type" -> result, or null if the manifest is unavailable
+async function fetchManifest() {
+    try {
+        const manifest = await fetchJson('/data/index.json', 'index.json');
+        const byKey = new Map();
+        (manifest.providers || []).forEach(entry => {
+            if (entry.result) byKey.set(`${entry.id}.${entry.type}`, normalizeData(entry.result));
+        });
+        return byKey;
+    } catch {
+        return null;
+    }
+}
+
 // Calculate time difference in milliseconds
 function getTimeDifference(targetDate) {
     const now = new Date();
@@ -70,6 +99,88 @@ function formatTimeSince(isoString) {
     return 'just now';
 }
 
+// === REGIONS ===
+
+const REGION_STORAGE_KEY = 'nextreset.region';
+
+// Regions the visitor can pick; a UTC entry is added when nextEventUtc isn't tied to one
+function getRegionOptions(data) {
+    if (!Array.isArray(data.regions) || data.regions.length === 0) return [];
+    const options = data.regions.slice();
+    if (!data.default_region) {
+        options.unshift({ region: '', label: 'UTC', utc: data.nextEventUtc, timezone: 'UTC' });
+    }
+    return options;
+}
+
+function getSelectedRegion(data) {
+    const options = getRegionOptions(data);
+    if (options.length === 0) return null;
+
+    let saved = null;
+    try {
+        saved = localStorage.getItem(`${REGION_STORAGE_KEY}.${data.game}`);
+    } catch (e) { }
+
+    return options.find(o => o.region === saved) ||
+        options.find(o => o.region === (data.default_region || '')) ||
+        options[0];
+}
+
+// Event time for the visitor's region (falls back to nextEventUtc)
+function getEventUtc(data) {
+    const region = getSelectedRegion(data);
+    return region ? region.utc : data.nextEventUtc;
+}
+
+// Render the region picker and a note on the source timezone / precision
+function renderEventTiming(data, onChange) {
+    const timingEl = document.getElementById('event-timing');
+    if (!timingEl) return;
+
+    const options = getRegionOptions(data);
+    const notes = [];
+    if (data.source_timezone && data.source_timezone !== 'UTC') notes.push(`Source time: ${data.source_timezone}`);
+    if (data.precision === 'day') notes.push('Date only, exact time not announced');
+    if (options.length === 0 && notes.length === 0) return;
+
+    timingEl.innerHTML = '';
+
+    if (options.length > 0) {
+        const label = document.createElement('label');
+        label.htmlFor = 'region-select';
+        label.textContent = 'Region ';
+
+        const select = document.createElement('select');
+        select.id = 'region-select';
+        const selected = getSelectedRegion(data);
+        options.forEach(option => {
+            const el = document.createElement('option');
+            el.value = option.region;
+            el.textContent = option.label;
+            el.selected = option.region === selected.region;
+            select.appendChild(el);
+        });
+        select.addEventListener('change', () => {
+            try {
+                localStorage.setItem(`${REGION_STORAGE_KEY}.${data.game}`, select.value);
+            } catch (e) { }
+            if (onChange) onChange();
+        });
+
+        label.appendChild(select);
+        timingEl.appendChild(label);
+    }
+
+    if (notes.length > 0) {
+        const note = document.createElement('span');
+        note.textContent = notes.join(' · ');
+        timingEl.appendChild(note);
+    }
+
+    timingEl.style.display = 'flex';
+}
+
 // Check if data is unavailable
 function isDataUnavailable(data) {
     return !data.nextEventUtc ||
@@ -114,7 +225,7 @@ function updateCountdown(data) {
         }
 
         if (updatedEl) {
-            const lastUpdated = data.fetched_at_utc || data.lastUpdatedUtc;
+            const lastUpdated = data.fetched_at_utc;
             updatedEl.textContent = lastUpdated ? formatTimeSince(lastUpdated) : 'Never';
         }
 
@@ -123,8 +234,8 @@ function updateCountdown(data) {
 
     // Update source
     if (sourceEl) {
-        const sourceUrl = data.source_url || data.source?.url;
-        const sourceName = data.sourceName || data.title || data.source?.name || 'Official Source';
+        const sourceUrl = data.source_url;
+        const sourceName = data.sourceName || data.title || 'Official Source';
         if (sourceUrl) {
             sourceEl.innerHTML = `<a href="${sourceUrl}" target="_blank" rel="noopener">${sourceName}</a>`;
         } else {
@@ -157,18 +268,17 @@ function updateCountdown(data) {
 
     // Show stale indicator if needed
     if (data.status === 'stale' && notesEl) {
-        const staleNote = data.reason ? `⚠ Using cached data: ${data.reason}` : '⚠ Using cached data';
+        const age = data.last_success_at_utc ? ` from ${formatTimeSince(data.last_success_at_utc)}` : '';
+        const lowered = data.original_confidence ? ` (confidence lowered from ${data.original_confidence})` : '';
+        const staleNote = `⚠ Using cached data${age}${lowered}${data.reason ? `: ${data.reason}` : ''}`;
         notesEl.textContent = staleNote;
         notesEl.style.display = 'block';
     }
 
     // Update dynamic fields
     function tick() {
-        const diff = getTimeDifference(data.nextEventUtc);
-        const isFuture = diff > 0;
-
         if (countdownEl) {
-            const diff = getTimeDifference(data.nextEventUtc);
+            const diff = getTimeDifference(getEventUtc(data));
             const isFuture = diff > 0;
             const isUpcoming = data.type?.startsWith('next-') || data.type?.includes('reset');
 
@@ -195,11 +305,13 @@ function updateCountdown(data) {
         }
 
         if (updatedEl) {
-            const lastUpdated = data.fetched_at_utc || data.lastUpdatedUtc;
+            const lastUpdated = data.fetched_at_utc;
             updatedEl.textContent = lastUpdated ? formatTimeSince(lastUpdated) : 'Never';
         }
     }
 
+    renderEventTiming(data, tick);
+
     // Initial update
     tick();
 
@@ -221,6 +333,92 @@ function showError(message) {
     }
 }
 
+// Render the next few scheduled events (events[] is optional)
+function renderEvents(data, limit = 3) {
+    const eventsEl = document.getElementById('events');
+    if (!eventsEl || !Array.isArray(data.events)) return;
+
+    const now = Date.now();
+    const upcoming = data.events
+        .filter(event => new Date(event.end || event.start).getTime() > now)
+        .slice(0, limit);
+    if (upcoming.length === 0) return;
+
+    eventsEl.innerHTML = '<div class="countdown-label">Upcoming</div>';
+    upcoming.forEach(event => {
+        const row = document.createElement('div');
+        row.className = 'info-row';
+
+        const startsLater = event.start && new Date(event.start).getTime() > now;
+        const when = new Date(startsLater ? event.start : event.end).toLocaleDateString('en-US', {
+            month: 'short', day: 'numeric', year: 'numeric'
+        });
+
+        const label = document.createElement('span');
+        label.className = 'info-label';
+        label.textContent = startsLater ? when : `Ends ${when}`;
+
+        const value = document.createElement('span');
+        value.className = 'info-value';
+        value.textContent = event.label;
+
+        row.appendChild(label);
+        row.appendChild(value);
+        eventsEl.appendChild(row);
+    });
+    eventsEl.style.display = 'block';
+}
+
+// Render the recent-events timeline (best effort, hidden if missing)
+async function loadHistory(game, type) {
+    const historyEl = document.getElementById('history');
+    if (!historyEl) return;
+
+    try {
+        const response = await fetch(`/data/${game}.${type}.history.json`);
+        if (!response.ok) return;
+
+        const timeline = await response.json();
+        const events = (timeline.events || []).slice(0, 5);
+        if (events.length === 0) return;
+
+        historyEl.innerHTML = '';
+        events.forEach(event => {
+            const row = document.createElement('div');
+            row.className = 'info-row';
+
+            const label = document.createElement('span');
+            label.className = 'info-label';
+            label.textContent = new Date(event.nextEventUtc).toLocaleDateString('en-US', {
+                month: 'short', day: 'numeric', year: 'numeric'
+            });
+
+            const value = document.createElement('span');
+            value.className = 'info-value';
+            value.textContent = event.notes || '—';
+
+            row.appendChild(label);
+            row.appendChild(value);
+            historyEl.appendChild(row);
+        });
+        historyEl.style.display = 'block';
+    } catch (error) {
+        console.warn('[NextReset] History unavailable:', error);
+    }
+}
+
+// Result pre-rendered into the page at build time (null if the page only has a skeleton)
+function readInitialData() {
+    const el = document.getElementById('initial-data');
+    if (!el) return null;
+    try {
+        return normalizeData(JSON.parse(el.textContent));
+    } catch (error) {
+        console.warn('[NextReset] Ignoring unreadable initial data:', error);
+        return null;
+    }
+}
+
 // Initialize game page
 async function initGamePage() {
     const container = document.getElementById('countdown-container');
@@ -239,11 +437,15 @@ async function initGamePage() {
     }
 
     try {
-        const data = await fetchGameData(game, type);
+        // Pages are regenerated after every refresh, so baked-in data is as fresh as the JSON
+        const data = readInitialData() || await fetchGameData(game, type);
         updateCountdown(data);
+        if (!isDataUnavailable(data)) renderEvents(data);
     } catch (error) {
         showError(`Could not load data for ${game}. The provider may be temporarily unavailable.`);
     }
+
+    loadHistory(game, type);
 }
 
 // === HOMEPAGE FUNCTIONS ===
@@ -276,7 +478,7 @@ function renderCard(card, data) {
     let badgeClass = 'badge badge-unavailable';
 
     if (data && !isDataUnavailable(data)) {
-        const diff = getTimeDifference(data.nextEventUtc);
+        const diff = getTimeDifference(getEventUtc(data));
         if (diff > 0) {
             state = data.status === 'stale' ? 'stale' : 'live';
             badgeText = state === 'stale' ? 'STALE' : 'LIVE';
@@ -290,7 +492,7 @@ function renderCard(card, data) {
 
     // Update card state
     card.dataset.state = state;
-    card.dataset.nextUtc = data?.nextEventUtc || '';
+    card.dataset.nextUtc = data ? getEventUtc(data) || '' : '';
     card.dataset.type = data?.type || '';
 
     // Update badge
@@ -302,7 +504,7 @@ function renderCard(card, data) {
     // Update countdown
     if (countdownEl) {
         if (data && !isDataUnavailable(data)) {
-            const diff = getTimeDifference(data.nextEventUtc);
+            const diff = getTimeDifference(getEventUtc(data));
             const isUpcoming = data.type?.startsWith('next-') || data.type?.includes('reset');
 
             if (diff <= 0 && isUpcoming) {
@@ -316,9 +518,11 @@ function renderCard(card, data) {
     }
 
     // Update last checked
-    const lastUpdated = data?.fetched_at_utc || data?.lastUpdatedUtc;
+    const lastUpdated = data?.fetched_at_utc;
     if (lastCheckedEl && lastUpdated) {
-        lastCheckedEl.textContent = `Checked ${formatTimeSince(lastUpdated)}`;
+        lastCheckedEl.textContent = data.status === 'stale' && data.last_success_at_utc
+            ? `Checked ${formatTimeSince(lastUpdated)} · data from ${formatTimeSince(data.last_success_at_utc)}`
+            : `Checked ${formatTimeSince(lastUpdated)}`;
     }
 }
 
@@ -371,12 +575,14 @@ async function initHomepage() {
 
     const cards = grid.querySelectorAll('.card[data-game]');
 
-    // Fetch all game data in parallel
+    // One request for everything; per-game files only for cards the manifest can't serve
+    const manifest = await fetchManifest();
+
     const fetchPromises = Array.from(cards).map(async (card) => {
         const game = card.dataset.game;
         const type = card.dataset.type;
         try {
-            const data = await fetchGameData(game, type);
+            const data = manifest?.get(`${game}.${type}`) || await fetchGameData(game, type);
             renderCard(card, data);
         } catch {
             renderCardUnavailable(card);
@@ -1,5 +1,6 @@
 import * as fs from 'fs';
 import * as path from 'path';
+import { CATALOG, getPageFile } from './catalog';
 
 /**
  * Add favicon tags to all HTML pages
@@ -24,21 +25,8 @@ if (!indexContent.includes('favicon.png')) {
 }
 
 // Update all game pages
-const gamePages = [
-    'fortnite/next-season/index.html',
-    'lol/next-patch/index.html',
-    'valorant/last-patch/index.html',
-    'cs2/last-update/index.html',
-    'minecraft/last-release/index.html',
-    'roblox/status/index.html',
-    'gta/weekly-reset/index.html',
-    'warzone/last-patch/index.html',
-    'genshin/next-banner/index.html',
-    'pubg/last-patch/index.html'
-];
-
-for (const pagePath of gamePages) {
-    const filePath = path.join(publicDir, pagePath);
+for (const entry of CATALOG) {
+    const filePath = path.join(publicDir, getPageFile(entry));
     let content = fs.readFileSync(filePath, 'utf-8');
 
     if (!content.includes('favicon.png')) {
@@ -47,8 +35,7 @@ for (const pagePath of gamePages) {
             `${faviconTags}\n    <link rel="stylesheet" href="/assets/styles.css">`
         );
         fs.writeFileSync(filePath, content, 'utf-8');
-        const gameName = pagePath.split('/')[0];
-        console.log(`✓ Updated ${gameName}`);
+        console.log(`✓ Updated ${entry.id}`);
     }
 }
 
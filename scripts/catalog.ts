@@ -0,0 +1,67 @@
+/**
+ * Game catalog - single source of truth for every tracked game
+ *
+ * The orchestrator, game page generator, homepage cards and sitemap all
+ * read from this list. Adding a game = one entry here + its provider module
+ * (or, for a simple "latest dated article" page, a spec in providers/scraped; for a game whose
+ * updates are announced on Steam, steamLastUpdate with its app id).
+ */
+
+import { Provider } from "./types";
+
+import * as fortnite from "./providers/fortnite";
+import * as lol from "./providers/lol";
+import * as cs2 from "./providers/cs2";
+import * as minecraft from "./providers/minecraft";
+import * as roblox from "./providers/roblox";
+import * as gta from "./providers/gta";
+import * as genshin from "./providers/genshin";
+import * as pubg from "./providers/pubg";
+import * as rdr2 from "./providers/rdr2";
+import { SCRAPER_SPECS } from "./providers/scraped";
+import { scraperProvider } from "./lib/scraper";
+import { steamLastUpdate } from "./lib/steam";
+
+export const SITE_URL = "https://nextreset.co";
+
+export interface CatalogEntry {
+    id: string;          // Game slug, also the data file prefix (<id>.<type>.json)
+    type: string;        // Event type, e.g. "next-season", "last-patch"
+    name: string;        // Display name, e.g. "League of Legends"
+    typeTitle: string;   // Event label shown after the name, e.g. "Next Patch"
+    kicker: string;      // Genre tag shown on the game page
+    path: string;        // Page path relative to public/, e.g. "lol/next-patch"
+    run: Provider;
+}
+
+export const CATALOG: CatalogEntry[] = [
+    { id: "fortnite", type: "next-season", name: "Fortnite", typeTitle: "Season End", kicker: "Pacific Break", path: "fortnite/next-season", run: fortnite.run },
+    { id: "lol", type: "next-patch", name: "League of Legends", typeTitle: "Next Patch", kicker: "MOBA", path: "lol/next-patch", run: lol.run },
+    { id: "valorant", type: "last-patch", name: "VALORANT", typeTitle: "Last Patch", kicker: "Tactical Shooter", path: "valorant/last-patch", run: scraperProvider(SCRAPER_SPECS["valorant"]) },
+    { id: "cs2", type: "last-update", name: "Counter-Strike 2", typeTitle: "Last Update", kicker: "Tactical Shooter", path: "cs2/last-update", run: cs2.run },
+    { id: "minecraft", type: "last-release", name: "Minecraft", typeTitle: "Last Release", kicker: "Sandbox", path: "minecraft/last-release", run: minecraft.run },
+    { id: "roblox", type: "status", name: "Roblox", typeTitle: "Status", kicker: "Platform", path: "roblox/status", run: roblox.run },
+    { id: "gta", type: "weekly-reset", name: "GTA Online", typeTitle: "Weekly Reset", kicker: "Open World", path: "gta/weekly-reset", run: gta.run },
+    { id: "warzone", type: "last-patch", name: "Warzone", typeTitle: "Last Patch", kicker: "Battle Royale", path: "warzone/last-patch", run: scraperProvider(SCRAPER_SPECS["warzone"]) },
+    { id: "genshin", type: "next-banner", name: "Genshin Impact", typeTitle: "Next Banner", kicker: "RPG", path: "genshin/next-banner", run: genshin.run },
+    { id: "pubg", type: "last-patch", name: "PUBG", typeTitle: "Last Patch", kicker: "Battle Royale", path: "pubg/last-patch", run: pubg.run },
+    { id: "red-dead-redemption-2", type: "last-update", name: "Red Dead Redemption 2", typeTitle: "Last Update", kicker: "Action-Adventure", path: "red-dead-redemption-2/last-update", run: rdr2.run },
+    { id: "ea-sports-fc", type: "last-title-update", name: "EA SPORTS FC", typeTitle: "Last Title Update", kicker: "Sports Simulation", path: "ea-sports-fc/last-title-update", run: scraperProvider(SCRAPER_SPECS["ea-sports-fc"]) },
+    { id: "apex-legends", type: "last-update", name: "Apex Legends", typeTitle: "Last Update", kicker: "Battle Royale", path: "apex-legends/last-update", run: steamLastUpdate("apex-legends", "Apex Legends", 1172470) },
+    { id: "dota-2", type: "last-update", name: "Dota 2", typeTitle: "Last Update", kicker: "MOBA", path: "dota-2/last-update", run: steamLastUpdate("dota-2", "Dota 2", 570) },
+    { id: "rust", type: "last-update", name: "Rust", typeTitle: "Last Update", kicker: "Survival", path: "rust/last-update", run: steamLastUpdate("rust", "Rust", 252490) }
+];
+
+/**
+ * HTML file for a game page, relative to public/
+ */
+export function getPageFile(entry: CatalogEntry): string {
+    return `${entry.path}/index.html`;
+}
+
+/**
+ * Absolute public URL for a game page
+ */
+export function getPageUrl(entry: CatalogEntry): string {
+    return `${SITE_URL}/${entry.path}`;
+}
@@ -11,12 +11,19 @@ function rmrf(p: string) {
     fs.rmSync(p, { recursive: true, force: true });
 }
 
-function copyDir(src: string, dest: string) {
+/**
+ * Internal run-to-run state under public/data/, kept out of the published site
+ */
+const PRIVATE_DIRS = ["_history", "_notify", "_runs", "_health"].map(dir => path.join("data", dir));
+
+function copyDir(src: string, dest: string, rel: string = "") {
     fs.mkdirSync(dest, { recursive: true });
     for (const entry of fs.readdirSync(src, { withFileTypes: true })) {
+        const r = path.join(rel, entry.name);
+        if (entry.isDirectory() && PRIVATE_DIRS.includes(r)) continue;
         const s = path.join(src, entry.name);
         const d = path.join(dest, entry.name);
-        if (entry.isDirectory()) copyDir(s, d);
+        if (entry.isDirectory()) copyDir(s, d, r);
         else fs.copyFileSync(s, d);
     }
 }
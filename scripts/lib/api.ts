@@ -0,0 +1,197 @@
+/**
+ * Versioned public JSON API (/api/v1/)
+ *
+ * The per-game `/data/*.json` files are internal and may change shape; `/api/v1/` is the
+ * contract for third parties. Every document carries `schema_version` and is described by
+ * the JSON Schema published at /api/v1/schema.json.
+ *
+ * Compatibility: v1 still emits the pre-ProviderResult names `lastUpdatedUtc` and
+ * `source.url` alongside `fetched_at_utc` / `source_url`. They are deprecated and will be
+ * dropped in v2.
+ */
+
+import * as fs from "fs";
+import * as path from "path";
+import { Confidence, FailureType, ProviderResult } from "../types";
+import { PRECISIONS } from "./validate";
+import { SITE_URL, CatalogEntry, getPageUrl } from "../catalog";
+
+export const API_VERSION = "v1";
+export const SCHEMA_VERSION = "1.2";
+export const SCHEMA_URL = `${SITE_URL}/api/${API_VERSION}/schema.json`;
+
+/**
+ * Deprecated field names kept for one API version
+ */
+export interface LegacyFields {
+    lastUpdatedUtc?: string;          // = fetched_at_utc
+    source?: { name?: string; url: string };   // = source_url
+}
+
+export type ApiResult = ProviderResult & LegacyFields & { schema_version: string };
+
+export interface ApiIndex {
+    schema_version: string;
+    schema: string;
+    generated_at_utc: string;
+    run: { id: string; started_at_utc: string; finished_at_utc: string } | null;
+    games: Array<{
+        id: string;
+        type: string;
+        name: string;
+        url: string;                  // API document for this game
+        page: string;                 // Human-readable page
+        status: ProviderResult["status"] | null;
+        nextEventUtc: string | null;
+    }>;
+}
+
+/**
+ * ProviderResult -> v1 API document (canonical fields + schema_version + deprecated aliases)
+ */
+export function toApiResult(result: ProviderResult): ApiResult {
+    const clean = JSON.parse(JSON.stringify(result)) as ProviderResult;
+    const api: ApiResult = { schema_version: SCHEMA_VERSION, ...clean, lastUpdatedUtc: clean.fetched_at_utc };
+
+    if (clean.status !== "unavailable") {
+        api.source = { url: clean.source_url };
+        const sourceName = (clean as unknown as Record<string, unknown>).sourceName;
+        if (typeof sourceName === "string") api.source.name = sourceName;
+    }
+
+    return api;
+}
+
+const isoString = { type: "string", format: "date-time" };
+const nullableIso = { type: ["string", "null"], format: "date-time" };
+
+/**
+ * JSON Schema (draft 2020-12) for a v1 game document
+ */
+export function getApiSchema(): Record<string, unknown> {
+    const common = {
+        schema_version: { const: SCHEMA_VERSION },
+        provider_id: { type: "string", minLength: 1 },
+        game: { type: "string", minLength: 1 },
+        type: { type: "string", minLength: 1, description: "Event type, e.g. next-patch, last-update, weekly-reset, status" },
+        title: { type: "string", minLength: 1 },
+        fetched_at_utc: { ...isoString, description: "When this run checked the source" },
+        http_status: { type: "integer", minimum: 100, maximum: 599 },
+        fetch_mode: { enum: ["http", "browser"] },
+        lastUpdatedUtc: { ...isoString, deprecated: true, description: "Alias of fetched_at_utc; removed in v2" }
+    };
+
+    const available = {
+        nextEventUtc: { ...isoString, description: "The event instant (upcoming for next-*/reset types, past for last-* types)" },
+        source_url: { type: "string", format: "uri" },
+        confidence: { enum: Object.values(Confidence) },
+        last_success_at_utc: isoString,
+        notes: { type: "string" },
+        version: { type: "string", minLength: 1, description: "Build/patch identifier stated by the source, e.g. 39.2" },
+        source_timezone: { type: "string" },
+        precision: { enum: PRECISIONS },
+        regions: {
+            type: "array",
+            items: {
+                type: "object",
+                required: ["region", "label", "utc", "timezone"],
+                properties: { region: { type: "string" }, label: { type: "string" }, utc: isoString, timezone: { type: "string" } }
+            }
+        },
+        default_region: { type: "string" },
+        events: {
+            type: "array",
+            items: {
+                type: "object",
+                required: ["label", "start", "confidence"],
+                properties: { label: { type: "string" }, start: nullableIso, end: nullableIso, confidence: { enum: Object.values(Confidence) } }
+            }
+        },
+        recurrence: { type: "string", description: "iCalendar RRULE anchored at nextEventUtc, e.g. FREQ=WEEKLY;BYDAY=TH" },
+        source: {
+            type: "object",
+            deprecated: true,
+            description: "Alias of source_url (and sourceName); removed in v2",
+            required: ["url"],
+            properties: { name: { type: "string" }, url: { type: "string", format: "uri" } }
+        }
+    };
+
+    const base = ["schema_version", "provider_id", "game", "type", "title", "status", "fetched_at_utc", "nextEventUtc"];
+
+    return {
+        $schema: "https://json-schema.org/draft/2020-12/schema",
+        $id: SCHEMA_URL,
+        title: `NextReset game result (${API_VERSION})`,
+        description: "One game/event-type result. Unknown extra properties are provider-specific extensions.",
+        oneOf: [
+            {
+                type: "object",
+                properties: { ...common, ...available, status: { const: "fresh" } },
+                required: [...base, "source_url", "confidence", "last_success_at_utc"]
+            },
+            {
+                type: "object",
+                properties: {
+                    ...common,
+                    ...available,
+                    status: { const: "stale" },
+                    reason: { type: "string" },
+                    age_hours: { type: "integer", minimum: 0, description: "Hours since last_success_at_utc when this result was produced" },
+                    original_confidence: { enum: Object.values(Confidence), description: "Confidence before age decay, present when it was lowered" }
+                },
+                required: [...base, "source_url", "confidence", "last_success_at_utc", "reason"]
+            },
+            {
+                type: "object",
+                properties: {
+                    ...common,
+                    status: { const: "unavailable" },
+                    nextEventUtc: { type: "null" },
+                    failure_type: { enum: Object.values(FailureType) },
+                    explanation: { type: "string" }
+                },
+                required: [...base, "failure_type", "explanation"]
+            }
+        ]
+    };
+}
+
+/**
+ * Write the v1 tree under outDir: schema.json, index.json and <game>/<type>.json.
+ * Entries without data are listed in the index (status null) but get no document.
+ */
+export function writeApi(
+    outDir: string,
+    entries: Array<{ entry: CatalogEntry; result: ProviderResult | null }>,
+    run: ApiIndex["run"]
+): ApiIndex {
+    fs.mkdirSync(outDir, { recursive: true });
+    fs.writeFileSync(path.join(outDir, "schema.json"), JSON.stringify(getApiSchema(), null, 2) + "\n", "utf-8");
+
+    const index: ApiIndex = {
+        schema_version: SCHEMA_VERSION,
+        schema: SCHEMA_URL,
+        generated_at_utc: new Date().toISOString(),
+        run,
+        games: entries.map(({ entry, result }) => ({
+            id: entry.id,
+            type: entry.type,
+            name: entry.name,
+            url: `${SITE_URL}/api/${API_VERSION}/${entry.id}/${entry.type}.json`,
+            page: getPageUrl(entry),
+            status: result ? result.status : null,
+            nextEventUtc: result ? result.nextEventUtc : null
+        }))
+    };
+
+    for (const { entry, result } of entries) {
+        if (!result) continue;
+        const filepath = path.join(outDir, entry.id, `${entry.type}.json`);
+        fs.mkdirSync(path.dirname(filepath), { recursive: true });
+        fs.writeFileSync(filepath, JSON.stringify(toApiResult(result), null, 2), "utf-8");
+    }
+
+    fs.writeFileSync(path.join(outDir, "index.json"), JSON.stringify(index, null, 2), "utf-8");
+    return index;
+}
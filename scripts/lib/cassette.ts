@@ -0,0 +1,140 @@
+/**
+ * Cassette mode for the fetch layer
+ *
+ * record: every fetchHtml result (URL, status, final URL, body, mode) is saved to a directory
+ * replay: fetchHtml is served from that directory, never touching the network
+ *
+ * Enable via env (CASSETTE_MODE=record|replay, CASSETTE_DIR=<dir>) or setCassette().
+ */
+
+import * as fs from "fs";
+import * as path from "path";
+import * as crypto from "crypto";
+import { FailureType } from "../types";
+import type { FetchResult } from "./fetch-layer";
+
+export type CassetteMode = "record" | "replay";
+
+export interface CassetteConfig {
+    mode: CassetteMode;
+    dir: string;
+}
+
+export interface CassetteEntry {
+    url: string;
+    sequence: number;
+    recorded_at_utc: string;
+    ok: boolean;
+    status: number;
+    final_url?: string;
+    mode: "http" | "browser";
+    body: string;
+    error?: string;
+    failure_type?: FailureType;
+}
+
+const DEFAULT_CASSETTE_DIR = "cassettes";
+
+let config: CassetteConfig | null = readEnvConfig();
+
+// Per-URL call counter so repeated requests replay in the order they were recorded
+const sequences = new Map<string, number>();
+
+function readEnvConfig(): CassetteConfig | null {
+    const mode = process.env.CASSETTE_MODE;
+    if (mode !== "record" && mode !== "replay") {
+        return null;
+    }
+    return { mode, dir: path.resolve(process.env.CASSETTE_DIR || DEFAULT_CASSETTE_DIR) };
+}
+
+/**
+ * Enable, switch or disable (null) cassette mode
+ */
+export function setCassette(next: CassetteConfig | null): void {
+    config = next ? { mode: next.mode, dir: path.resolve(next.dir) } : null;
+    sequences.clear();
+}
+
+export function getCassette(): CassetteConfig | null {
+    return config;
+}
+
+function nextSequence(url: string): number {
+    const n = sequences.get(url) ?? 0;
+    sequences.set(url, n + 1);
+    return n;
+}
+
+/**
+ * Stable, readable file name for a URL + call number
+ */
+export function getCassettePath(dir: string, url: string, sequence: number): string {
+    const slug = url.replace(/^https?:\/\//, "").replace(/[^a-zA-Z0-9]+/g, "-").slice(0, 80).replace(/-+$/, "");
+    const hash = crypto.createHash("sha1").update(url).digest("hex").slice(0, 8);
+    return path.join(dir, `${slug}.${hash}.${sequence}.json`);
+}
+
+/**
+ * Save a live result
+ */
+export function recordFetch(url: string, result: FetchResult): void {
+    if (!config || config.mode !== "record") return;
+
+    const sequence = nextSequence(url);
+    const entry: CassetteEntry = {
+        url,
+        sequence,
+        recorded_at_utc: new Date().toISOString(),
+        ok: result.ok,
+        status: result.status,
+        final_url: result.url,
+        mode: result.mode,
+        body: result.text,
+        error: result.error,
+        failure_type: result.failureType
+    };
+
+    try {
+        fs.mkdirSync(config.dir, { recursive: true });
+        fs.writeFileSync(getCassettePath(config.dir, url, sequence), JSON.stringify(entry, null, 2), "utf-8");
+    } catch (error) {
+        // Recording is diagnostic only - never fail the fetch because of it
+        console.warn(`[Cassette] Failed to record ${url}:`, error);
+    }
+}
+
+/**
+ * Serve a recorded result. A missing entry is reported as an unavailable fetch.
+ */
+export function replayFetch(url: string): FetchResult {
+    if (!config) {
+        throw new Error("Cassette replay requested but cassette mode is off");
+    }
+
+    const sequence = nextSequence(url);
+    const filepath = getCassettePath(config.dir, url, sequence);
+
+    if (!fs.existsSync(filepath)) {
+        console.warn(`[Cassette] No recording for ${url} (#${sequence})`);
+        return {
+            ok: false,
+            status: 0,
+            text: "",
+            mode: "http",
+            error: `No cassette entry for ${url} (#${sequence})`,
+            failureType: FailureType.Unavailable
+        };
+    }
+
+    const entry = JSON.parse(fs.readFileSync(filepath, "utf-8")) as CassetteEntry;
+    return {
+        ok: entry.ok,
+        status: entry.status,
+        text: entry.body,
+        mode: entry.mode,
+        url: entry.final_url,
+        error: entry.error,
+        failureType: entry.failure_type
+    };
+}
@@ -0,0 +1,187 @@
+/**
+ * Change detection between refresh runs
+ *
+ * Compares each new FreshResult with the previous run's live (or LKG) data and emits
+ * structured change records, written to changes.json for notifications / downstream tooling.
+ */
+
+import * as fs from "fs";
+import * as path from "path";
+import { Confidence, FreshResult, ProviderResult } from "../types";
+import { getDataDir, readLiveData, readLkgData } from "./data-output";
+import { compareConfidence } from "./staleness";
+
+export enum ChangeKind {
+    FirstSeen = "first_seen",             // No previous data to compare with
+    NewEvent = "new_event",               // New patch/update/season detected
+    EventMoved = "event_moved",           // Announced upcoming date changed
+    StatusChanged = "status_changed",     // Service status changed (e.g. Roblox up -> degraded)
+    ConfidenceDropped = "confidence_dropped",
+    ConfidenceRaised = "confidence_raised"
+}
+
+export interface ChangeSnapshot {
+    nextEventUtc: string | null;
+    confidence?: Confidence;
+    notes?: string;
+    service_status?: string;
+    source_url?: string;
+}
+
+export interface ChangeRecord {
+    provider_id: string;
+    game: string;
+    type: string;
+    title: string;
+    kind: ChangeKind;
+    summary: string;
+    detected_at_utc: string;
+    previous: ChangeSnapshot | null;
+    current: ChangeSnapshot;
+}
+
+export interface ChangesFile {
+    generated_at_utc: string;
+    run_started_at_utc: string;
+    changes: ChangeRecord[];
+}
+
+/**
+ * Previous data for comparison: the live file, or LKG if live is missing/unavailable
+ */
+export function readPreviousResult(game: string, type: string): ProviderResult | null {
+    const live = readLiveData(game, type);
+    if (live && live.status !== "unavailable") {
+        return live;
+    }
+    return readLkgData(game, type);
+}
+
+export function isUpcomingType(type: string): boolean {
+    return type.startsWith("next-") || type.includes("reset");
+}
+
+function snapshot(result: ProviderResult): ChangeSnapshot {
+    if (result.status === "unavailable") {
+        return { nextEventUtc: null };
+    }
+    return {
+        nextEventUtc: result.nextEventUtc,
+        // A stale result's confidence is decayed with age; compare what the source itself said
+        confidence: result.status === "stale" && result.original_confidence ? result.original_confidence : result.confidence,
+        notes: result.notes,
+        service_status: getServiceStatus(result),
+        source_url: result.source_url
+    };
+}
+
+/**
+ * Status-type providers expose service_status; older files only have it in notes
+ */
+function getServiceStatus(result: ProviderResult): string | undefined {
+    if (result.status === "unavailable") return undefined;
+    if (result.service_status) return result.service_status;
+    const match = result.notes?.match(/Current status:\s*(.+)$/i);
+    return match ? match[1].trim() : undefined;
+}
+
+function formatDelta(fromIso: string, toIso: string): string {
+    const hours = Math.round((Date.parse(toIso) - Date.parse(fromIso)) / (1000 * 60 * 60));
+    if (Math.abs(hours) < 48) return `${hours > 0 ? "+" : ""}${hours}h`;
+    const days = Math.round(hours / 24);
+    return `${days > 0 ? "+" : ""}${days}d`;
+}
+
+/**
+ * Diff one fresh result against the previous data
+ */
+export function detectChanges(previous: ProviderResult | null, current: FreshResult, now: Date = new Date()): ChangeRecord[] {
+    const base = {
+        provider_id: current.provider_id,
+        game: current.game,
+        type: current.type,
+        title: current.title,
+        detected_at_utc: now.toISOString(),
+        current: snapshot(current)
+    };
+
+    if (!previous || previous.status === "unavailable") {
+        return [{
+            ...base,
+            kind: ChangeKind.FirstSeen,
+            summary: `${current.title}: first data point ${current.nextEventUtc}`,
+            previous: null
+        }];
+    }
+
+    const prev = snapshot(previous);
+    const changes: ChangeRecord[] = [];
+
+    if (current.type === "status") {
+        // nextEventUtc is the status page's "updated" time - only the status itself matters
+        const before = prev.service_status;
+        const after = base.current.service_status;
+        if (before && after && before !== after) {
+            changes.push({
+                ...base,
+                kind: ChangeKind.StatusChanged,
+                summary: `${current.title}: status changed from "${before}" to "${after}"`,
+                previous: prev
+            });
+        }
+    } else if (current.recurrence) {
+        // Computed schedules roll forward every cycle by design - nothing new was announced
+    } else if (prev.nextEventUtc && prev.nextEventUtc !== current.nextEventUtc) {
+        const prevTime = Date.parse(prev.nextEventUtc);
+        const currTime = Date.parse(current.nextEventUtc);
+
+        // Upcoming types roll over once the previous event has passed; otherwise the date moved.
+        // "last-*" types only ever move forward when something new ships.
+        const isNew = isUpcomingType(current.type)
+            ? prevTime <= now.getTime() && currTime > prevTime
+            : currTime > prevTime;
+
+        if (isNew) {
+            changes.push({
+                ...base,
+                kind: ChangeKind.NewEvent,
+                summary: `${current.title}: new event ${current.nextEventUtc}${current.notes ? ` (${current.notes})` : ""}`,
+                previous: prev
+            });
+        } else {
+            changes.push({
+                ...base,
+                kind: ChangeKind.EventMoved,
+                summary: `${current.title}: moved from ${prev.nextEventUtc} to ${current.nextEventUtc} (${formatDelta(prev.nextEventUtc, current.nextEventUtc)})`,
+                previous: prev
+            });
+        }
+    }
+
+    if (prev.confidence && prev.confidence !== current.confidence) {
+        const dropped = compareConfidence(current.confidence, prev.confidence) < 0;
+        changes.push({
+            ...base,
+            kind: dropped ? ChangeKind.ConfidenceDropped : ChangeKind.ConfidenceRaised,
+            summary: `${current.title}: confidence ${prev.confidence} → ${current.confidence}`,
+            previous: prev
+        });
+    }
+
+    return changes;
+}
+
+/**
+ * Write changes.json into the data directory
+ */
+export function writeChangesJson(changes: ChangeRecord[], runStartedAt: string): string {
+    const filepath = path.join(getDataDir(), "changes.json");
+    const file: ChangesFile = {
+        generated_at_utc: new Date().toISOString(),
+        run_started_at_utc: runStartedAt,
+        changes
+    };
+
+    fs.writeFileSync(filepath, JSON.stringify(file, null, 2), "utf-8");
+    return filepath;
+}
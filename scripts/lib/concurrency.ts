@@ -0,0 +1,54 @@
+/**
+ * Concurrency helpers for the orchestrator
+ */
+
+export class TimeoutError extends Error {
+    constructor(public readonly timeoutMs: number) {
+        super(`Timed out after ${timeoutMs}ms`);
+        this.name = "TimeoutError";
+    }
+}
+
+/**
+ * Race a promise against a wall-clock deadline. On timeout `controller` (if given) is aborted
+ * with the TimeoutError so the work can stop; otherwise its eventual result is simply ignored.
+ */
+export function withTimeout<T>(promise: Promise<T>, timeoutMs: number, controller?: AbortController): Promise<T> {
+    let timer: NodeJS.Timeout | undefined;
+    const deadline = new Promise<never>((_, reject) => {
+        timer = setTimeout(() => {
+            const error = new TimeoutError(timeoutMs);
+            controller?.abort(error);
+            reject(error);
+        }, timeoutMs);
+    });
+
+    return Promise.race([promise, deadline]).finally(() => {
+        if (timer) clearTimeout(timer);
+    });
+}
+
+/**
+ * Map over items with at most `limit` callbacks in flight.
+ * Results keep the input order regardless of completion order.
+ */
+export async function mapWithConcurrency<T, R>(
+    items: T[],
+    limit: number,
+    callback: (item: T, index: number) => Promise<R>
+): Promise<R[]> {
+    const results: R[] = new Array(items.length);
+    let next = 0;
+
+    const worker = async () => {
+        while (next < items.length) {
+            const index = next++;
+            results[index] = await callback(items[index], index);
+        }
+    };
+
+    const poolSize = Math.max(1, Math.min(limit, items.length));
+    await Promise.all(Array.from({ length: poolSize }, worker));
+
+    return results;
+}
@@ -0,0 +1,167 @@
+/**
+ * Multi-source consensus
+ *
+ * A provider declares its independent sources in priority order (official first). Every source
+ * is consulted concurrently and the date comes from the highest-priority one that answered;
+ * confidence comes from agreement. All answering sources within AGREEMENT_WINDOW_MS of it →
+ * one step above the best source, but High only if some source is High on its own (two weak
+ * heuristics agreeing stay Medium). Any disagreement → at most Medium, with every source's date
+ * listed in notes. A lone source keeps its own confidence. The provider throws only when every
+ * source failed.
+ *
+ * Sources run inside their provider (and its deadline) rather than being collected by the
+ * orchestrator, so each provider keeps its own source list and error messages.
+ *
+ * Sources differ in precision (an official day vs a Steam timestamp), so the primary date of the
+ * same release changes whenever a source drops out. keepPreviousReading pins it across runs.
+ */
+
+import { Confidence, FreshResult, ProviderMetadata, ProviderResult } from "../types";
+import { minConfidence, maxConfidence } from "./staleness";
+import { isUpcomingType } from "./changes";
+
+export const AGREEMENT_WINDOW_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * What one source says. Confidence is what it would deserve on its own.
+ */
+export interface SourceReading {
+    nextEventUtc: string;
+    source_url: string;
+    confidence: Confidence;
+    notes?: string;
+    version?: string;
+    fetch_mode?: "http" | "browser";
+    http_status?: number;
+}
+
+export interface ProviderSource {
+    name: string;                               // Shown in notes, e.g. "Steam news"
+    read: () => Promise<SourceReading>;         // Throws when the source has nothing usable
+}
+
+export interface NamedReading {
+    name: string;
+    reading: SourceReading;
+}
+
+const RAISED: Record<Confidence, Confidence> = {
+    [Confidence.High]: Confidence.High,
+    [Confidence.Medium]: Confidence.High,
+    [Confidence.Low]: Confidence.Medium,
+    [Confidence.None]: Confidence.Low
+};
+
+/**
+ * Confidence of agreeing readings: one step above the best, High only when a source is High itself
+ */
+function agreedConfidence(readings: NamedReading[]): Confidence {
+    const best = readings.map(({ reading }) => reading.confidence).reduce(maxConfidence);
+    return best === Confidence.High ? best : minConfidence(RAISED[best], Confidence.Medium);
+}
+
+/**
+ * "2026-01-13 22:30 UTC"
+ */
+function formatReading(iso: string): string {
+    return `${iso.slice(0, 16).replace("T", " ")} UTC`;
+}
+
+/**
+ * Pick the primary reading and derive confidence / notes from the others (readings in priority order).
+ * When sources agree, a version stated only by a lower-priority source is carried over.
+ */
+export function resolveConsensus(readings: NamedReading[], windowMs: number = AGREEMENT_WINDOW_MS): { primary: NamedReading; confidence: Confidence; notes?: string; version?: string } {
+    if (readings.length === 0) {
+        throw new Error("No source readings to resolve");
+    }
+
+    const primary = readings[0];
+    if (readings.length === 1) {
+        return { primary, confidence: primary.reading.confidence, notes: primary.reading.notes, version: primary.reading.version };
+    }
+
+    const anchor = Date.parse(primary.reading.nextEventUtc);
+    const agree = readings.every(({ reading }) => Math.abs(Date.parse(reading.nextEventUtc) - anchor) <= windowMs);
+
+    if (agree) {
+        const version = readings.find(({ reading }) => reading.version)?.reading.version;
+        return { primary, confidence: agreedConfidence(readings), notes: primary.reading.notes, version };
+    }
+
+    const confidence = minConfidence(primary.reading.confidence, Confidence.Medium);
+    const listed = readings.map(({ name, reading }) => `${name} ${formatReading(reading.nextEventUtc)}`).join(", ");
+
+    return {
+        primary,
+        confidence,
+        version: primary.reading.version,
+        notes: `${primary.reading.notes ? `${primary.reading.notes}. ` : ""}Sources disagree: ${listed}`
+    };
+}
+
+/**
+ * Consult every source (concurrently) and build the fresh result. Throws if all fail.
+ */
+export async function runSources(meta: ProviderMetadata, sources: ProviderSource[], windowMs: number = AGREEMENT_WINDOW_MS): Promise<FreshResult> {
+    const readings: NamedReading[] = [];
+    const failures: string[] = [];
+
+    // Settled results keep the sources' priority order
+    const settled = await Promise.allSettled(sources.map(source => source.read()));
+    settled.forEach((outcome, i) => {
+        const { name } = sources[i];
+        if (outcome.status === "fulfilled") {
+            readings.push({ name, reading: outcome.value });
+            return;
+        }
+        const message = outcome.reason instanceof Error ? outcome.reason.message : String(outcome.reason);
+        console.warn(`[Consensus] ${meta.provider_id}: ${name} failed: ${message}`);
+        failures.push(`${name}: ${message}`);
+    });
+
+    if (readings.length === 0) {
+        throw new Error(`All sources failed (${failures.join("; ")})`);
+    }
+
+    const { primary, confidence, notes, version } = resolveConsensus(readings, windowMs);
+    const now = new Date().toISOString();
+
+    const result: FreshResult = {
+        ...meta,
+        status: "fresh",
+        nextEventUtc: primary.reading.nextEventUtc,
+        fetched_at_utc: now,
+        last_success_at_utc: now,
+        source_url: primary.reading.source_url,
+        confidence
+    };
+    if (notes) result.notes = notes;
+    if (version) result.version = version;
+    if (primary.reading.fetch_mode) result.fetch_mode = primary.reading.fetch_mode;
+    if (primary.reading.http_status !== undefined) result.http_status = primary.reading.http_status;
+
+    return result;
+}
+
+/**
+ * Same release: the same version when both state one, otherwise the same (UTC) calendar day
+ */
+export function isSameEvent(previous: { nextEventUtc: string; version?: string }, current: { nextEventUtc: string; version?: string }): boolean {
+    if (previous.version && current.version) {
+        return previous.version === current.version;
+    }
+    return previous.nextEventUtc.slice(0, 10) === current.nextEventUtc.slice(0, 10);
+}
+
+/**
+ * Keep the previous date of a "last-*" result when the new one is the same release read from a
+ * different source, so history, feeds and change detection don't see a new event.
+ * Upcoming types keep the new reading (a time change within the day is a real move).
+ */
+export function keepPreviousReading(previous: ProviderResult | null, current: FreshResult): FreshResult {
+    if (!previous || previous.status === "unavailable" || isUpcomingType(current.type)) return current;
+    if (previous.nextEventUtc === current.nextEventUtc || !isSameEvent(previous, current)) return current;
+
+    return { ...current, nextEventUtc: previous.nextEventUtc };
+}
@@ -13,9 +13,27 @@ import {
     StaleResult,
     UnavailableResult
 } from "../types";
+import { validateResult, formatIssues } from "./validate";
 
-const LIVE_DATA_DIR = path.join(__dirname, "../../public/data");
-const LKG_DATA_DIR = path.join(LIVE_DATA_DIR, "_lkg");
+export const DEFAULT_DATA_DIR = path.join(__dirname, "../../public/data");
+
+let LIVE_DATA_DIR = DEFAULT_DATA_DIR;
+let LKG_DATA_DIR = path.join(LIVE_DATA_DIR, "_lkg");
+
+/**
+ * Point live + LKG output at a different root (e.g. refresh-all --out-dir)
+ */
+export function setDataDir(dir: string): void {
+    LIVE_DATA_DIR = path.resolve(dir);
+    LKG_DATA_DIR = path.join(LIVE_DATA_DIR, "_lkg");
+}
+
+/**
+ * Current live data root
+ */
+export function getDataDir(): string {
+    return LIVE_DATA_DIR;
+}
 
 /**
  * Get output path for live provider data
@@ -43,13 +61,7 @@ export function ensureDataDirs(): void {
     }
 }
 
-/**
- * Read last known good data from the LKG vault
- * Returns null if missing or corrupt
- */
-export function readLkgData(game: string, type: string): ProviderResult | null {
-    const filepath = getLkgPath(game, type);
-
+function readResultFile(filepath: string, label: string): ProviderResult | null {
     if (!fs.existsSync(filepath)) {
         return null;
     }
@@ -58,9 +70,34 @@ export function readLkgData(game: string, type: string): ProviderResult | null {
         const content = fs.readFileSync(filepath, "utf-8");
         return JSON.parse(content) as ProviderResult;
     } catch (error) {
-        console.warn(`[LKG] Corrupt LKG file found for ${game}.${type}:`, error);
+        console.warn(`[${label}] Corrupt file found at ${filepath}:`, error);
+        return null;
+    }
+}
+
+/**
+ * Read last known good data from the LKG vault
+ * Returns null if missing or corrupt
+ */
+export function readLkgData(game: string, type: string): ProviderResult | null {
+    const data = readResultFile(getLkgPath(game, type), "LKG");
+
+    // Old LKG is fine (no plausibility window), malformed LKG is not
+    const issues = data ? validateResult(data, { expected: { game, type }, checkPlausibility: false }) : [];
+    if (issues.length > 0) {
+        console.warn(`[LKG] Ignoring invalid ${game}.${type}: ${formatIssues(issues)}`);
         return null;
     }
+
+    return data;
+}
+
+/**
+ * Read the current live data (i.e. the previous run's output)
+ * Returns null if missing or corrupt
+ */
+export function readLiveData(game: string, type: string): ProviderResult | null {
+    return readResultFile(getLivePath(game, type), "Live");
 }
 
 /**
@@ -86,6 +123,12 @@ export function writeLkgJson(data: ProviderResult): void {
         return;
     }
 
+    const issues = validateResult(data);
+    if (issues.length > 0) {
+        console.warn(`[LKG] Refusing to back up invalid ${data.game}.${data.type}: ${formatIssues(issues)}`);
+        return;
+    }
+
     ensureDataDirs();
     const filepath = getLkgPath(data.game, data.type);
     const cleaned = JSON.parse(JSON.stringify(data));
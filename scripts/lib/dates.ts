@@ -0,0 +1,441 @@
+/**
+ * Shared date extraction for providers
+ *
+ * Parses absolute ("Jan 21, 2026", "2026.01.06", "1/13/2026", RFC 2822), relative ("3 days ago"),
+ * <time datetime> and JSON-LD dates, plus zone qualifiers (ET, PT, UTC+8, "server time").
+ * Results never depend on the host locale or TZ: unqualified wall-clock times are read in the
+ * caller's zone (UTC by default) and every result reports the precision the source gave.
+ */
+
+import type { Cheerio, CheerioAPI } from "cheerio";
+import { DatePrecision, RegionalTime } from "../types";
+
+export { DatePrecision };
+
+export interface ParsedDate {
+    date: Date;                  // UTC instant (start of the period for coarse precisions)
+    precision: DatePrecision;
+    timezone: string;            // Zone the source was read in: IANA name, "UTC" or "±HH:MM"
+    text: string;                // Matched source text
+}
+
+export interface DateOptions {
+    now?: Date;                  // Reference for relative dates, missing years and the window
+    timezone?: string;           // Zone for unqualified times (default UTC)
+    serverTimezone?: string;     // What "server time" means for this source
+    window?: { pastYears: number; futureYears: number } | null;   // Plausibility guardrail; null = off
+}
+
+interface Fields {
+    year: number;
+    month: number;               // 0-based
+    day: number;
+    hour: number;
+    minute: number;
+    second: number;
+    ms: number;
+    precision: DatePrecision;
+}
+
+interface Candidate {
+    index: number;
+    length: number;
+    parsed: ParsedDate;
+}
+
+const DEFAULT_WINDOW = { pastYears: 2, futureYears: 2 };
+
+const MONTH_NAMES: Record<string, number> = {
+    jan: 0, january: 0, feb: 1, february: 1, mar: 2, march: 2, apr: 3, april: 3, may: 4, jun: 5, june: 5,
+    jul: 6, july: 6, aug: 7, august: 7, sep: 8, sept: 8, september: 8, oct: 9, october: 9,
+    nov: 10, november: 10, dec: 11, december: 11
+};
+
+/**
+ * Zone qualifiers. Bare ET / PT follow DST; explicit EST / PDT etc. are fixed offsets.
+ */
+const ZONE_ALIASES: Record<string, string> = {
+    "z": "UTC", "utc": "UTC", "gmt": "UTC",
+    "et": "America/New_York", "eastern time": "America/New_York", "est": "-05:00", "edt": "-04:00",
+    "eastern standard time": "-05:00", "eastern daylight time": "-04:00",
+    "ct": "America/Chicago", "central time": "America/Chicago", "cst": "-06:00", "cdt": "-05:00",
+    "central standard time": "-06:00", "central daylight time": "-05:00",
+    "pt": "America/Los_Angeles", "pacific time": "America/Los_Angeles", "pst": "-08:00", "pdt": "-07:00",
+    "pacific standard time": "-08:00", "pacific daylight time": "-07:00",
+    "cet": "+01:00", "cest": "+02:00"
+};
+
+const WEEKDAY = String.raw`(?:(?:mon|tue|wed|thu|fri|sat|sun)[a-z]*\.?,?\s+)?`;
+const MONTH = String.raw`([a-z]{3,9})\.?`;
+
+const TIME_PATTERNS: { regex: RegExp; precision: DatePrecision }[] = [
+    { regex: /^(?:,?\s*(?:at\s+)?|T)(\d{1,2}):(\d{2})(?::(\d{2})(?:\.(\d{1,3})\d*)?)?(?:\s*([ap])\.?m\b\.?)?/i, precision: "minute" },
+    { regex: /^,?\s*(?:at\s+)?(\d{1,2})\s*([ap])\.?m\b\.?/i, precision: "hour" }
+];
+
+const ZONE_LONG = /^\s*\(?\s*((?:utc|gmt)\s*[+-]\s*\d{1,2}(?::?\d{2})?|(?:eastern|central|pacific)(?:\s+(?:standard|daylight))?\s+time|server\s+time)\b\s*\)?/i;
+const ZONE_SHORT = /^\s*\(?\s*(Z|UTC|GMT|[+-]\d{2}:?\d{2}|[ECP][SD]?T|CES?T)(?![A-Za-z0-9])\s*\)?/;
+
+function pad(value: number): string {
+    return String(value).padStart(2, "0");
+}
+
+/**
+ * Map a zone qualifier to an IANA name, "UTC" or "±HH:MM". Returns null if unknown.
+ */
+export function normalizeZone(raw: string, options: DateOptions = {}): string | null {
+    const key = raw.trim().toLowerCase().replace(/\s+/g, " ");
+
+    if (key === "server time") {
+        return options.serverTimezone ? normalizeZone(options.serverTimezone) : null;
+    }
+    if (ZONE_ALIASES[key]) {
+        return ZONE_ALIASES[key];
+    }
+
+    const offset = key.match(/^(?:utc|gmt)?\s*([+-])\s*(\d{1,2})(?::?(\d{2}))?$/);
+    if (offset) {
+        return `${offset[1]}${pad(parseInt(offset[2], 10))}:${offset[3] || "00"}`;
+    }
+
+    try {
+        new Intl.DateTimeFormat("en-US", { timeZone: raw.trim() });
+        return raw.trim();
+    } catch {
+        return null;
+    }
+}
+
+/**
+ * Offset of a zone from UTC (minutes) at the given instant
+ */
+function offsetMinutes(zone: string, utcMs: number): number {
+    if (zone === "UTC") return 0;
+
+    const fixed = zone.match(/^([+-])(\d{2}):(\d{2})$/);
+    if (fixed) {
+        const minutes = parseInt(fixed[2], 10) * 60 + parseInt(fixed[3], 10);
+        return fixed[1] === "-" ? -minutes : minutes;
+    }
+
+    const seconds = Math.floor(utcMs / 1000) * 1000;
+    const parts = new Intl.DateTimeFormat("en-US", {
+        timeZone: zone, hourCycle: "h23",
+        year: "numeric", month: "2-digit", day: "2-digit", hour: "2-digit", minute: "2-digit", second: "2-digit"
+    }).formatToParts(new Date(seconds));
+    const get = (type: string) => parseInt(parts.find(p => p.type === type)!.value, 10);
+    const wallClock = Date.UTC(get("year"), get("month") - 1, get("day"), get("hour"), get("minute"), get("second"));
+    return Math.round((wallClock - seconds) / 60000);
+}
+
+/**
+ * Convert a wall-clock time in a zone to a UTC instant (DST-aware for IANA zones)
+ */
+function zonedToUtc(fields: Fields, zone: string): Date {
+    const guess = Date.UTC(fields.year, fields.month, fields.day, fields.hour, fields.minute, fields.second, fields.ms);
+    const first = offsetMinutes(zone, guess);
+    const second = offsetMinutes(zone, guess - first * 60000);
+    return new Date(guess - second * 60000);
+}
+
+function isValidDay(year: number, month: number, day: number): boolean {
+    const d = new Date(Date.UTC(year, month, day));
+    return d.getUTCFullYear() === year && d.getUTCMonth() === month && d.getUTCDate() === day;
+}
+
+/**
+ * Whether a date is inside the plausibility window (±2 years by default)
+ */
+export function isPlausible(date: Date, options: DateOptions = {}): boolean {
+    if (isNaN(date.getTime())) return false;
+    const window = options.window === undefined ? DEFAULT_WINDOW : options.window;
+    if (!window) return true;
+
+    const now = options.now || new Date();
+    const earliest = new Date(now);
+    earliest.setUTCFullYear(now.getUTCFullYear() - window.pastYears);
+    const latest = new Date(now);
+    latest.setUTCFullYear(now.getUTCFullYear() + window.futureYears);
+    return date >= earliest && date <= latest;
+}
+
+/**
+ * Read an optional time + zone right after a matched date
+ */
+function readSuffix(rest: string, fields: Fields, options: DateOptions): { length: number; zone: string | null } {
+    let length = 0;
+
+    for (const { regex, precision } of TIME_PATTERNS) {
+        const match = rest.match(regex);
+        if (!match) continue;
+
+        let hour = parseInt(match[1], 10);
+        const meridiem = precision === "hour" ? match[2] : match[5];
+        if (meridiem) {
+            if (hour < 1 || hour > 12) break;
+            hour = hour % 12 + (meridiem.toLowerCase() === "p" ? 12 : 0);
+        }
+        if (hour > 23) break;
+
+        fields.hour = hour;
+        if (precision === "minute") {
+            fields.minute = parseInt(match[2], 10);
+            fields.second = match[3] ? parseInt(match[3], 10) : 0;
+            fields.ms = match[4] ? parseInt(match[4].padEnd(3, "0"), 10) : 0;
+            fields.precision = match[3] ? "second" : "minute";
+        } else {
+            fields.precision = "hour";
+        }
+        length = match[0].length;
+        break;
+    }
+
+    const tail = rest.slice(length);
+    const zoneMatch = tail.match(ZONE_LONG) || tail.match(ZONE_SHORT);
+    const zone = zoneMatch ? normalizeZone(zoneMatch[1], options) : null;
+
+    return { length: length + (zone && zoneMatch ? zoneMatch[0].length : 0), zone };
+}
+
+/**
+ * Year for a "January 7" style date: whichever of last/this/next year is closest to now
+ */
+function nearestYear(month: number, day: number, now: Date): number {
+    const year = now.getUTCFullYear();
+    return [year - 1, year, year + 1].reduce((best, y) =>
+        Math.abs(Date.UTC(y, month, day) - now.getTime()) < Math.abs(Date.UTC(best, month, day) - now.getTime()) ? y : best
+    );
+}
+
+function baseFields(year: number, month: number, day: number, precision: DatePrecision = "day"): Fields {
+    return { year, month, day, hour: 0, minute: 0, second: 0, ms: 0, precision };
+}
+
+type Extractor = (match: RegExpExecArray, now: Date, standalone: boolean) => Fields | null;
+
+/**
+ * Absolute date patterns. Each returns calendar fields; time and zone are read after the match.
+ */
+const ABSOLUTE_PATTERNS: { regex: RegExp; extract: Extractor }[] = [
+    {
+        // 2026-01-06, 2026/02/03, 2026.01.06 (ISO 8601 times follow via readSuffix)
+        regex: /\b(\d{4})([-/.])(\d{1,2})\2(\d{1,2})(?!\d)/g,
+        extract: m => baseFields(parseInt(m[1], 10), parseInt(m[3], 10) - 1, parseInt(m[4], 10))
+    },
+    {
+        // 1/13/2026 (US order)
+        regex: /\b(\d{1,2})\/(\d{1,2})\/(\d{4})\b/g,
+        extract: m => baseFields(parseInt(m[3], 10), parseInt(m[1], 10) - 1, parseInt(m[2], 10))
+    },
+    {
+        // Wednesday, Jan 21, 2026 / March 7 2026 / January 7 (year inferred only when standalone)
+        regex: new RegExp(String.raw`\b${WEEKDAY}${MONTH}\s+(\d{1,2})(?:st|nd|rd|th)?\b(?:,?\s+(\d{4})\b)?`, "gi"),
+        extract: (m, now, standalone) => {
+            const month = MONTH_NAMES[m[1].toLowerCase()];
+            if (month === undefined) return null;
+            const day = parseInt(m[2], 10);
+            if (!m[3] && !standalone) return null;
+            return baseFields(m[3] ? parseInt(m[3], 10) : nearestYear(month, day, now), month, day);
+        }
+    },
+    {
+        // Tue, 13 Jan 2026 22:30:00 +0000 (RFC 2822) / 7 March 2026
+        regex: new RegExp(String.raw`\b${WEEKDAY}(\d{1,2})\s+${MONTH},?\s+(\d{4})\b`, "gi"),
+        extract: m => {
+            const month = MONTH_NAMES[m[2].toLowerCase()];
+            return month === undefined ? null : baseFields(parseInt(m[3], 10), month, parseInt(m[1], 10));
+        }
+    },
+    {
+        // January 2026
+        regex: new RegExp(String.raw`\b${MONTH}\s+(\d{4})\b`, "gi"),
+        extract: m => {
+            const month = MONTH_NAMES[m[1].toLowerCase()];
+            return month === undefined ? null : baseFields(parseInt(m[2], 10), month, 1, "month");
+        }
+    }
+];
+
+const RELATIVE_PATTERN = /\b(\d+|an?|one)\s+(second|minute|hour|day|week|month|year)s?\s+ago\b/gi;
+const STANDALONE_RELATIVE = /^(just now|today|yesterday)$/i;
+
+const UNIT_PRECISION: Record<string, DatePrecision> = {
+    second: "second", minute: "minute", hour: "hour", day: "day", week: "day", month: "day", year: "day"
+};
+
+function truncate(date: Date, precision: DatePrecision): Date {
+    const d = new Date(date);
+    if (precision === "day" || precision === "month") d.setUTCHours(0, 0, 0, 0);
+    else if (precision === "hour") d.setUTCMinutes(0, 0, 0);
+    else if (precision === "minute") d.setUTCSeconds(0, 0);
+    else d.setUTCMilliseconds(0);
+    return d;
+}
+
+function relativeDate(amount: number, unit: string, now: Date): Date {
+    const d = new Date(now);
+    switch (unit) {
+        case "second": d.setUTCSeconds(d.getUTCSeconds() - amount); break;
+        case "minute": d.setUTCMinutes(d.getUTCMinutes() - amount); break;
+        case "hour": d.setUTCHours(d.getUTCHours() - amount); break;
+        case "day": d.setUTCDate(d.getUTCDate() - amount); break;
+        case "week": d.setUTCDate(d.getUTCDate() - amount * 7); break;
+        case "month": d.setUTCMonth(d.getUTCMonth() - amount); break;
+        case "year": d.setUTCFullYear(d.getUTCFullYear() - amount); break;
+    }
+    return truncate(d, UNIT_PRECISION[unit]);
+}
+
+/**
+ * Find the first plausible date in a string (absolute, RFC 2822, ISO or relative)
+ */
+export function parseDate(text: string | null | undefined, options: DateOptions = {}): ParsedDate | null {
+    if (!text) return null;
+
+    const now = options.now || new Date();
+    const trimmed = text.trim();
+    const candidates: Candidate[] = [];
+
+    const standaloneRelative = trimmed.match(STANDALONE_RELATIVE);
+    if (standaloneRelative) {
+        const word = standaloneRelative[1].toLowerCase();
+        const date = word === "just now"
+            ? truncate(now, "minute")
+            : relativeDate(word === "yesterday" ? 1 : 0, "day", now);
+        return { date, precision: word === "just now" ? "minute" : "day", timezone: "UTC", text: trimmed };
+    }
+
+    for (const { regex, extract } of ABSOLUTE_PATTERNS) {
+        regex.lastIndex = 0;
+        let match: RegExpExecArray | null;
+
+        while ((match = regex.exec(text)) !== null) {
+            const rest = text.slice(match.index + match[0].length);
+            const standalone = text.slice(0, match.index).trim() === "" && rest.trim() === "";
+            const fields = extract(match, now, standalone);
+            if (!fields || !isValidDay(fields.year, fields.month, fields.day)) continue;
+
+            const suffix = fields.precision === "month" ? { length: 0, zone: null } : readSuffix(rest, fields, options);
+            const timezone = suffix.zone || (options.timezone ? normalizeZone(options.timezone, options) : null) || "UTC";
+            const date = zonedToUtc(fields, timezone);
+
+            if (!isPlausible(date, { ...options, now })) continue;
+
+            const length = match[0].length + suffix.length;
+            candidates.push({
+                index: match.index,
+                length,
+                parsed: { date, precision: fields.precision, timezone, text: text.slice(match.index, match.index + length).trim() }
+            });
+            break;
+        }
+    }
+
+    RELATIVE_PATTERN.lastIndex = 0;
+    const relative = RELATIVE_PATTERN.exec(text);
+    if (relative) {
+        const amount = /^\d+$/.test(relative[1]) ? parseInt(relative[1], 10) : 1;
+        const unit = relative[2].toLowerCase();
+        candidates.push({
+            index: relative.index,
+            length: relative[0].length,
+            parsed: { date: relativeDate(amount, unit, now), precision: UNIT_PRECISION[unit], timezone: "UTC", text: relative[0] }
+        });
+    }
+
+    candidates.sort((a, b) => a.index - b.index || b.length - a.length);
+    return candidates.length > 0 ? candidates[0].parsed : null;
+}
+
+/**
+ * Read a <time> (or any dated) element: datetime / content / title attributes, then its text
+ */
+export function parseTimeElement(el: Cheerio<any>, options: DateOptions = {}): ParsedDate | null {
+    if (el.length === 0) return null;
+
+    for (const value of [el.attr("datetime"), el.attr("content"), el.attr("title"), el.text()]) {
+        const parsed = parseDate(value, options);
+        if (parsed) return parsed;
+    }
+    return null;
+}
+
+/**
+ * First date found in JSON-LD blocks (handles arrays and @graph)
+ */
+export function parseJsonLdDate(
+    $: CheerioAPI,
+    options: DateOptions = {},
+    keys: string[] = ["datePublished", "dateModified", "uploadDate", "startDate"]
+): ParsedDate | null {
+    const visit = (node: any): ParsedDate | null => {
+        if (!node || typeof node !== "object") return null;
+        if (Array.isArray(node)) {
+            for (const item of node) {
+                const found = visit(item);
+                if (found) return found;
+            }
+            return null;
+        }
+        for (const key of keys) {
+            const parsed = typeof node[key] === "string" ? parseDate(node[key], options) : null;
+            if (parsed) return parsed;
+        }
+        return visit(node["@graph"]);
+    };
+
+    for (const script of $("script[type='application/ld+json']").toArray()) {
+        try {
+            const found = visit(JSON.parse($(script).html() || ""));
+            if (found) return found;
+        } catch {
+            // Malformed JSON-LD is common; keep looking
+        }
+    }
+    return null;
+}
+
+/**
+ * Wall-clock reading of a parsed date in the zone it was read in
+ */
+function wallClock(parsed: ParsedDate): Date {
+    return new Date(parsed.date.getTime() + offsetMinutes(parsed.timezone, parsed.date.getTime()) * 60000);
+}
+
+/**
+ * Calendar date (YYYY-MM-DD) of a parsed date in the zone it was read in
+ */
+export function calendarDate(parsed: ParsedDate): string {
+    const shifted = wallClock(parsed);
+    return `${shifted.getUTCFullYear()}-${pad(shifted.getUTCMonth() + 1)}-${pad(shifted.getUTCDate())}`;
+}
+
+/**
+ * The same wall-clock time read in another zone ("14:59 server time" on each server)
+ */
+export function atZone(parsed: ParsedDate, zone: string): Date {
+    const shifted = wallClock(parsed);
+    const normalized = normalizeZone(zone) || "UTC";
+    return zonedToUtc({
+        year: shifted.getUTCFullYear(),
+        month: shifted.getUTCMonth(),
+        day: shifted.getUTCDate(),
+        hour: shifted.getUTCHours(),
+        minute: shifted.getUTCMinutes(),
+        second: shifted.getUTCSeconds(),
+        ms: shifted.getUTCMilliseconds(),
+        precision: parsed.precision
+    }, normalized);
+}
+
+/**
+ * Per-region instants for a wall-clock time that applies locally in each region
+ */
+export function regionalTimes(parsed: ParsedDate, regions: { region: string; label: string; timezone: string }[]): RegionalTime[] {
+    return regions.map(({ region, label, timezone }) => ({
+        region,
+        label,
+        utc: atZone(parsed, timezone).toISOString(),
+        timezone: normalizeZone(timezone) || "UTC"
+    }));
+}
@@ -0,0 +1,197 @@
+/**
+ * Atom / RSS 2.0 feeds of detected updates
+ *
+ * Items come from the last-* providers' history archive (one per distinct nextEventUtc),
+ * so re-scraping the same patch every run never produces a new item. The item id / guid is
+ * a tag: URI built from game, type and nextEventUtc - it survives notes or URL edits.
+ * Feeds are written to <dataDir>/feeds/: atom.xml + rss.xml globally and
+ * <game>.<type>.atom.xml / .rss.xml per game.
+ */
+
+import * as fs from "fs";
+import * as path from "path";
+import { ProviderResult } from "../types";
+import { getDataDir } from "./data-output";
+import { readHistory } from "./history";
+import { CatalogEntry, SITE_URL, getPageUrl } from "../catalog";
+
+export const FEEDS_DIR = "feeds";
+
+const GLOBAL_LIMIT = 50;
+const PER_GAME_LIMIT = 20;
+const TAG_AUTHORITY = "tag:nextreset.co,2026";
+
+export interface FeedItem {
+    id: string;             // Stable tag: URI
+    title: string;
+    link: string;           // Official source
+    summary: string;
+    published: string;      // The event (nextEventUtc)
+    updated: string;        // When NextReset first saw it
+    category: string;       // Game name
+}
+
+export interface Feed {
+    title: string;
+    selfUrl: string;        // Absolute URL of the feed itself
+    pageUrl: string;
+    items: FeedItem[];
+}
+
+/**
+ * Types that report shipped updates (last-patch, last-update, last-release...)
+ */
+export function hasFeed(type: string): boolean {
+    return type.startsWith("last-");
+}
+
+/**
+ * Public paths of a catalog entry's feeds
+ */
+export function getFeedPaths(entry: { id: string; type: string }): { atom: string; rss: string } {
+    return {
+        atom: `/data/${FEEDS_DIR}/${entry.id}.${entry.type}.atom.xml`,
+        rss: `/data/${FEEDS_DIR}/${entry.id}.${entry.type}.rss.xml`
+    };
+}
+
+function escapeXml(text: string): string {
+    return text
+        .replace(/&/g, "&amp;")
+        .replace(/</g, "&lt;")
+        .replace(/>/g, "&gt;")
+        .replace(/"/g, "&quot;")
+        .replace(/'/g, "&apos;");
+}
+
+export function getItemId(entry: { id: string; type: string }, nextEventUtc: string): string {
+    return `${TAG_AUTHORITY}:${entry.id}/${entry.type}/${new Date(nextEventUtc).toISOString()}`;
+}
+
+/**
+ * Feed items for one catalog entry, newest event first.
+ * The current result is included even before it reaches history (e.g. stale-only runs).
+ */
+export function getFeedItems(entry: CatalogEntry, current: ProviderResult | null): FeedItem[] {
+    if (!hasFeed(entry.type)) return [];
+
+    const sightings = readHistory(entry.id, entry.type).map(h => ({
+        nextEventUtc: h.nextEventUtc,
+        notes: h.notes,
+        source_url: h.source_url,
+        first_seen_utc: h.first_seen_utc
+    }));
+
+    if (current && current.status !== "unavailable" && !sightings.some(s => s.nextEventUtc === current.nextEventUtc)) {
+        sightings.push({
+            nextEventUtc: current.nextEventUtc,
+            notes: current.notes,
+            source_url: current.source_url,
+            first_seen_utc: current.last_success_at_utc
+        });
+    }
+
+    return sightings
+        .sort((a, b) => Date.parse(b.nextEventUtc) - Date.parse(a.nextEventUtc))
+        .map(s => {
+            const day = s.nextEventUtc.slice(0, 10);
+            return {
+                id: getItemId(entry, s.nextEventUtc),
+                title: `${entry.name}: ${s.notes || `${entry.typeTitle.replace(/^Last /, "New ")} (${day})`}`,
+                link: s.source_url,
+                summary: `${entry.name} ${entry.typeTitle.toLowerCase()} on ${day}.${s.notes ? ` ${s.notes}.` : ""} Tracked at ${getPageUrl(entry)}`,
+                published: s.nextEventUtc,
+                updated: s.first_seen_utc,
+                category: entry.name
+            };
+        });
+}
+
+function feedUpdated(feed: Feed, fallback: string): string {
+    // Newest sighting, not the run time - an unchanged feed stays byte-identical
+    return feed.items.reduce((latest, item) => item.updated > latest ? item.updated : latest, "") || fallback;
+}
+
+export function renderAtom(feed: Feed, fallbackUpdated: string): string {
+    const entries = feed.items.map(item => `  <entry>
+    <id>${escapeXml(item.id)}</id>
+    <title>${escapeXml(item.title)}</title>
+    <link rel="alternate" href="${escapeXml(item.link)}"/>
+    <published>${item.published}</published>
+    <updated>${item.updated}</updated>
+    <category term="${escapeXml(item.category)}"/>
+    <summary>${escapeXml(item.summary)}</summary>
+  </entry>`);
+
+    return `<?xml version="1.0" encoding="utf-8"?>
+<feed xmlns="http://www.w3.org/2005/Atom">
+  <id>${escapeXml(feed.selfUrl)}</id>
+  <title>${escapeXml(feed.title)}</title>
+  <link rel="self" type="application/atom+xml" href="${escapeXml(feed.selfUrl)}"/>
+  <link rel="alternate" type="text/html" href="${escapeXml(feed.pageUrl)}"/>
+  <updated>${feedUpdated(feed, fallbackUpdated)}</updated>
+  <author><name>NextReset</name></author>
+${entries.join("\n")}
+</feed>
+`;
+}
+
+export function renderRss(feed: Feed, fallbackUpdated: string): string {
+    const items = feed.items.map(item => `    <item>
+      <guid isPermaLink="false">${escapeXml(item.id)}</guid>
+      <title>${escapeXml(item.title)}</title>
+      <link>${escapeXml(item.link)}</link>
+      <pubDate>${new Date(item.published).toUTCString()}</pubDate>
+      <category>${escapeXml(item.category)}</category>
+      <description>${escapeXml(item.summary)}</description>
+    </item>`);
+
+    return `<?xml version="1.0" encoding="utf-8"?>
+<rss version="2.0" xmlns:atom="http://www.w3.org/2005/Atom">
+  <channel>
+    <title>${escapeXml(feed.title)}</title>
+    <link>${escapeXml(feed.pageUrl)}</link>
+    <description>${escapeXml(feed.title)} - official game updates detected by NextReset</description>
+    <atom:link rel="self" type="application/rss+xml" href="${escapeXml(feed.selfUrl)}"/>
+    <lastBuildDate>${new Date(feedUpdated(feed, fallbackUpdated)).toUTCString()}</lastBuildDate>
+${items.join("\n")}
+  </channel>
+</rss>
+`;
+}
+
+/**
+ * Write global and per-game Atom + RSS feeds for every last-* catalog entry.
+ * Returns the number of per-game feed pairs written.
+ */
+export function writeFeeds(entries: Array<{ entry: CatalogEntry; result: ProviderResult | null }>, stamp: string): number {
+    const dir = path.join(getDataDir(), FEEDS_DIR);
+    fs.mkdirSync(dir, { recursive: true });
+
+    const all: FeedItem[] = [];
+    let written = 0;
+
+    // prefix is "" for the global feeds, "<game>.<type>." per game
+    const write = (prefix: string, feed: Omit<Feed, "selfUrl">) => {
+        const base = `${SITE_URL}/data/${FEEDS_DIR}/${prefix}`;
+        fs.writeFileSync(path.join(dir, `${prefix}atom.xml`), renderAtom({ ...feed, selfUrl: `${base}atom.xml` }, stamp), "utf-8");
+        fs.writeFileSync(path.join(dir, `${prefix}rss.xml`), renderRss({ ...feed, selfUrl: `${base}rss.xml` }, stamp), "utf-8");
+    };
+
+    for (const { entry, result } of entries) {
+        if (!hasFeed(entry.type)) continue;
+        const items = getFeedItems(entry, result);
+        all.push(...items);
+        write(`${entry.id}.${entry.type}.`, {
+            title: `${entry.name} ${entry.typeTitle} - NextReset`,
+            pageUrl: getPageUrl(entry),
+            items: items.slice(0, PER_GAME_LIMIT)
+        });
+        written++;
+    }
+
+    all.sort((a, b) => Date.parse(b.published) - Date.parse(a.published));
+    write("", { title: "NextReset - Game updates", pageUrl: `${SITE_URL}/`, items: all.slice(0, GLOBAL_LIMIT) });
+
+    return written;
+}
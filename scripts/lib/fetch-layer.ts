@@ -1,34 +1,209 @@
+import * as fs from 'fs/promises';
+import * as path from 'path';
 import { chromium, Browser, Page } from 'playwright';
 import { FailureType } from '../types';
+import { getCassette, recordFetch, replayFetch } from './cassette';
 
 /**
  * Global budget tracker for browser usage
+ *
+ * Providers run concurrently, so a launch is reserved synchronously (check + increment
+ * in one step) and the number of simultaneously open browsers is capped separately.
  */
 class BrowserBudget {
     private count = 0;
-    private readonly MAX = 10;
+    private MAX = 10;
+    private active = 0;
+    private readonly MAX_CONCURRENT = 2;
+    private waiters: Array<() => void> = [];
 
     canUse(): boolean {
         return this.count < this.MAX;
     }
 
-    use(): void {
+    /**
+     * Reserve one browser launch. Returns false if the budget is exhausted.
+     */
+    tryReserve(): boolean {
+        if (!this.canUse()) return false;
         this.count++;
+        return true;
+    }
+
+    /**
+     * Give back a reservation that never turned into a launched browser
+     */
+    refund(): void {
+        this.count = Math.max(0, this.count - 1);
+    }
+
+    /**
+     * Wait for a free browser slot (caps concurrent Chromium instances).
+     * An abort while queued leaves the queue and rejects.
+     */
+    async acquireSlot(signal?: AbortSignal): Promise<void> {
+        signal?.throwIfAborted();
+        if (this.active < this.MAX_CONCURRENT) {
+            this.active++;
+            return;
+        }
+        // Slot is handed over directly by releaseSlot()
+        await new Promise<void>((resolve, reject) => {
+            const waiter = () => {
+                signal?.removeEventListener("abort", onAbort);
+                resolve();
+            };
+            const onAbort = () => {
+                this.waiters = this.waiters.filter(w => w !== waiter);
+                reject(signal?.reason);
+            };
+            signal?.addEventListener("abort", onAbort, { once: true });
+            this.waiters.push(waiter);
+        });
+    }
+
+    releaseSlot(): void {
+        const next = this.waiters.shift();
+        if (next) {
+            next();
+        } else {
+            this.active--;
+        }
     }
 
     getRemaining(): number {
         return this.MAX - this.count;
     }
+
+    getUsage(): { used: number; max: number } {
+        return { used: this.count, max: this.MAX };
+    }
+
+    /**
+     * Start over with a new launch limit (tests / offline runs use 0)
+     */
+    reset(max: number): void {
+        this.MAX = max;
+        this.count = 0;
+    }
 }
 
 const budget = new BrowserBudget();
 
+/**
+ * Optional URL rewrite applied to every HTTP fetch (e.g. route to a local fixture server).
+ * Results still report the original URL so providers see the same source_url.
+ */
+type UrlRewriter = (url: string) => string;
+let urlRewriter: UrlRewriter | null = null;
+
+export function setUrlRewriter(rewriter: UrlRewriter | null): void {
+    urlRewriter = rewriter;
+}
+
+/**
+ * Per-provider abort signals, set by the orchestrator for the provider's deadline.
+ * Fetches and browser sessions of an aborted provider stop and give back their budget / slot.
+ */
+const abortSignals = new Map<string, AbortSignal>();
+
+export function setProviderSignal(providerId: string, signal: AbortSignal): void {
+    abortSignals.set(providerId, signal);
+}
+
+/**
+ * Forget a provider's signal once its run settled. An aborted signal is kept, so work the
+ * timed-out provider still has in flight keeps failing fast.
+ */
+export function clearProviderSignal(providerId: string, signal: AbortSignal): void {
+    if (abortSignals.get(providerId) === signal && !signal.aborted) {
+        abortSignals.delete(providerId);
+    }
+}
+
+function getSignal(options: { signal?: AbortSignal; providerId?: string }): AbortSignal | undefined {
+    return options.signal || (options.providerId ? abortSignals.get(options.providerId) : undefined);
+}
+
+/**
+ * Close a browser as soon as the signal aborts (pending page calls then reject). Returns the unsubscribe.
+ */
+function closeOnAbort(browser: Browser, signal?: AbortSignal): () => void {
+    if (!signal) return () => { };
+    const onAbort = () => { browser.close().catch(() => { }); };
+    signal.addEventListener("abort", onAbort, { once: true });
+    return () => signal.removeEventListener("abort", onAbort);
+}
+
+/**
+ * What each provider's fetches did this run (for the run log / status page).
+ * Keyed by FetchOptions.providerId; mode and status are those of the latest fetch.
+ */
+export interface FetchTrace {
+    fetch_mode: "http" | "browser";
+    http_status: number;            // 0 = no response (network error / timeout)
+    fetches: number;
+    browser_sessions: number;       // Browser fallbacks + withBrowserPage sessions
+}
+
+/**
+ * How withBrowserRenderer loads a page
+ */
+export interface RenderOptions {
+    waitUntil?: "load" | "domcontentloaded";
+    waitFor?: string;               // Selector to wait for (best effort, up to 10s)
+    settleMs?: number;              // Extra time for client-side rendering
+    timeout?: number;               // Navigation timeout (default 30000)
+}
+
+/**
+ * Load a URL in the session's page and return the rendered HTML (mode "browser")
+ */
+export type PageRenderer = (url: string, options?: RenderOptions) => Promise<FetchResult>;
+
+const traces = new Map<string, FetchTrace>();
+
+function traceFetch(providerId: string | undefined, mode: "http" | "browser", status: number, fetched: boolean, session: boolean = mode === "browser"): void {
+    if (!providerId) return;
+    const trace = traces.get(providerId) || { fetch_mode: mode, http_status: status, fetches: 0, browser_sessions: 0 };
+    trace.fetch_mode = mode;
+    if (fetched) {
+        trace.http_status = status;
+        trace.fetches++;
+    }
+    if (session) trace.browser_sessions++;
+    traces.set(providerId, trace);
+}
+
+export function getFetchTrace(providerId: string): FetchTrace | null {
+    return traces.get(providerId) || null;
+}
+
+export function resetFetchTraces(): void {
+    traces.clear();
+}
+
+/**
+ * Browser launches consumed vs allowed this run
+ */
+export function getBrowserBudgetUsage(): { used: number; max: number } {
+    return budget.getUsage();
+}
+
+/**
+ * Reset the browser budget to a new launch limit
+ */
+export function setBrowserBudget(max: number): void {
+    budget.reset(max);
+}
+
 export interface FetchOptions {
     timeout?: number;
     retries?: number;
     useBrowserOnBlocked?: boolean;
     headers?: Record<string, string>;
     providerId?: string;
+    signal?: AbortSignal;               // Default: the provider's signal (setProviderSignal)
 }
 
 export interface FetchResult {
@@ -52,13 +227,33 @@ const DEFAULT_HEADERS = {
  */
 export const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
 
-import * as fs from 'fs/promises';
-import * as path from 'path';
-
 /**
  * Fetch HTML content using native fetch or Playwright
+ * In cassette mode the result is recorded to / replayed from disk.
  */
 export async function fetchHtml(url: string, options: FetchOptions = {}): Promise<FetchResult> {
+    const signal = getSignal(options);
+    signal?.throwIfAborted();
+
+    const cassette = getCassette();
+    if (cassette?.mode === "replay") {
+        const replayed = replayFetch(url);
+        traceFetch(options.providerId, replayed.mode, replayed.status, true);
+        return replayed;
+    }
+
+    const result = await fetchHtmlLive(url, options, signal);
+    signal?.throwIfAborted();
+    traceFetch(options.providerId, result.mode, result.status, true);
+
+    if (cassette?.mode === "record") {
+        recordFetch(url, result);
+    }
+
+    return result;
+}
+
+async function fetchHtmlLive(url: string, options: FetchOptions, signal?: AbortSignal): Promise<FetchResult> {
     const {
         timeout = 10000,
         retries = 2,
@@ -72,17 +267,15 @@ export async function fetchHtml(url: string, options: FetchOptions = {}): Promis
     // Try HTTP first
     let lastError: any = null;
     for (let attempt = 0; attempt <= retries; attempt++) {
+        if (signal?.aborted) break;
         try {
-            const controller = new AbortController();
-            const id = setTimeout(() => controller.abort(), timeout);
-
-            const response = await fetch(url, {
+            const timeoutSignal = AbortSignal.timeout(timeout);
+            const target = urlRewriter ? urlRewriter(url) : url;
+            const response = await fetch(target, {
                 headers: mergedHeaders,
-                signal: controller.signal
+                signal: signal ? AbortSignal.any([signal, timeoutSignal]) : timeoutSignal
             });
 
-            clearTimeout(id);
-
             if (response.ok) {
                 const text = await response.text();
                 return {
@@ -90,16 +283,25 @@ export async function fetchHtml(url: string, options: FetchOptions = {}): Promis
                     status: response.status,
                     text,
                     mode: "http",
-                    url: response.url
+                    url: target === url ? response.url : url
                 };
             }
 
             // If blocked and browser fallback enabled
             if ((response.status === 403 || response.status === 429) && useBrowserOnBlocked) {
-                if (budget.canUse()) {
+                if (budget.tryReserve()) {
                     console.log(`[Fetch] ${url} blocked (${response.status}). Retrying via browser...`);
-                    budget.use();
-                    return await fetchWithBrowser(url, timeout, providerId);
+                    try {
+                        await budget.acquireSlot(signal);
+                    } catch (error) {
+                        budget.refund();
+                        throw error;
+                    }
+                    try {
+                        return await fetchWithBrowser(url, timeout, providerId, signal);
+                    } finally {
+                        budget.releaseSlot();
+                    }
                 } else {
                     console.warn(`[Fetch] ${url} blocked, but browser budget exhausted.`);
                     return {
@@ -128,7 +330,7 @@ export async function fetchHtml(url: string, options: FetchOptions = {}): Promis
 
         } catch (err: any) {
             lastError = err;
-            if (attempt === retries) break;
+            if (attempt === retries || signal?.aborted) break;
             const backoff = Math.min(1000 * Math.pow(2, attempt) + Math.random() * 500, 5000);
             await sleep(backoff);
         }
@@ -154,36 +356,114 @@ export function getBrowserBudgetRemaining(): number {
 /**
  * Execute a callback within a single browser session (Page).
  * Consumes budget only once on successful launch.
+ * Raw sessions can't be recorded, so they are refused in replay mode; sources that should
+ * replay load their pages through withBrowserRenderer.
  */
-export async function withBrowserPage<T>(callback: (page: Page) => Promise<T>): Promise<T> {
-    if (!budget.canUse()) {
+export async function withBrowserPage<T>(callback: (page: Page) => Promise<T>, providerId?: string): Promise<T> {
+    const signal = getSignal({ providerId });
+    signal?.throwIfAborted();
+
+    // Interactive sessions can't be replayed (withBrowserRenderer can)
+    if (getCassette()?.mode === "replay") {
+        throw new Error("Browser sessions are not available in cassette replay mode");
+    }
+
+    if (!budget.tryReserve()) {
         throw new Error("Browser budget exhausted");
     }
 
+    try {
+        await budget.acquireSlot(signal);
+    } catch (error) {
+        budget.refund();
+        throw error;
+    }
+
     let browser: Browser | null = null;
     let page: Page | null = null;
+    let unsubscribe = () => { };
 
     try {
-        browser = await chromium.launch({ headless: true });
-        const context = await browser.newContext({
-            userAgent: DEFAULT_HEADERS["User-Agent"]
-        });
-        page = await context.newPage();
+        try {
+            browser = await chromium.launch({ headless: true });
+            unsubscribe = closeOnAbort(browser, signal);
+            const context = await browser.newContext({
+                userAgent: DEFAULT_HEADERS["User-Agent"]
+            });
+            page = await context.newPage();
+        } catch (error) {
+            // Launch failed - the reservation was never used
+            budget.refund();
+            throw error;
+        }
 
-        // Increment budget ONLY after successful launch
-        budget.use();
+        traceFetch(providerId, "browser", 0, false);
 
         return await callback(page);
     } finally {
-        if (page) await page.close();
-        if (browser) await browser.close();
+        unsubscribe();
+        if (page) await page.close().catch(() => { });
+        if (browser) await browser.close().catch(() => { });
+        budget.releaseSlot();
+    }
+}
+
+/**
+ * Render pages in one browser session and hand back their HTML. Every page is recorded to /
+ * replayed from the cassette like fetchHtml, so browser sources reproduce offline: replay
+ * launches no browser but still draws on the budget, so the run takes the same paths.
+ */
+export async function withBrowserRenderer<T>(callback: (render: PageRenderer) => Promise<T>, providerId?: string): Promise<T> {
+    const cassette = getCassette();
+
+    if (cassette?.mode === "replay") {
+        getSignal({ providerId })?.throwIfAborted();
+        if (!budget.tryReserve()) {
+            throw new Error("Browser budget exhausted");
+        }
+        traceFetch(providerId, "browser", 0, false);
+
+        return callback(async (url) => {
+            const replayed = replayFetch(url);
+            if (!replayed.ok && replayed.status === 0) {
+                throw new Error(replayed.error || `No cassette entry for ${url}`);
+            }
+            traceFetch(providerId, "browser", replayed.status, true, false);
+            return replayed;
+        });
     }
+
+    return withBrowserPage(page => callback(async (url, options = {}) => {
+        const response = await page.goto(url, { waitUntil: options.waitUntil || "load", timeout: options.timeout || 30000 });
+        if (options.waitFor) {
+            await page.waitForSelector(options.waitFor, { timeout: 10000 }).catch(() => { });
+        }
+        if (options.settleMs) {
+            await sleep(options.settleMs);
+        }
+
+        const status = response?.status() ?? 0;
+        const result: FetchResult = {
+            ok: !response || response.ok(),
+            status,
+            text: await page.content(),
+            mode: "browser",
+            url: page.url()
+        };
+        if (!result.ok) result.error = `HTTP ${status}`;
+
+        traceFetch(providerId, "browser", status, true, false);
+        if (cassette?.mode === "record") {
+            recordFetch(url, result);
+        }
+        return result;
+    }), providerId);
 }
 
 /**
  * Fetch using Playwright
  */
-async function fetchWithBrowser(url: string, timeout: number, providerId?: string): Promise<FetchResult> {
+async function fetchWithBrowser(url: string, timeout: number, providerId?: string, signal?: AbortSignal): Promise<FetchResult> {
     const logPrefix = `[BrowserFetch][${providerId || 'Unknown'}]`;
     console.log(`${logPrefix} Starting fallback for ${url}`);
     console.log(`${logPrefix} Time: ${new Date().toISOString()}`);
@@ -191,8 +471,10 @@ async function fetchWithBrowser(url: string, timeout: number, providerId?: strin
     console.log(`${logPrefix} Node: ${process.version}, Platform: ${process.platform}, Arch: ${process.arch}`);
 
     let browser: Browser | null = null;
+    let unsubscribe = () => { };
     try {
         browser = await chromium.launch({ headless: true });
+        unsubscribe = closeOnAbort(browser, signal);
         const context = await browser.newContext({
             userAgent: DEFAULT_HEADERS["User-Agent"]
         });
@@ -267,6 +549,7 @@ async function fetchWithBrowser(url: string, timeout: number, providerId?: strin
 
         const text = await page.content();
 
+        unsubscribe();
         await browser.close();
 
         return {
@@ -277,7 +560,8 @@ async function fetchWithBrowser(url: string, timeout: number, providerId?: strin
             url: finalUrl
         };
     } catch (err: any) {
-        if (browser) await browser.close();
+        unsubscribe();
+        if (browser) await browser.close().catch(() => { });
         console.error(`${logPrefix} Detailed Error: ${err.stack || err.message}`);
         return {
             ok: false,
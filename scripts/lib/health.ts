@@ -0,0 +1,171 @@
+/**
+ * Persisted provider health ledger with circuit breaker
+ *
+ * _health/ledger.json keeps, per <game>.<type>, the consecutive failure count, when the
+ * current outage started and the last error class. After CIRCUIT_FAILURE_THRESHOLD failures
+ * the circuit opens: the provider is only probed every CIRCUIT_PROBE_INTERVAL_HOURS and
+ * serves LKG in between. A success closes it again. Once a non-fresh provider's data is
+ * older than its type's escalation threshold (staleness policy) the run escalates (exit code +
+ * notification). The ledger is the one failure count: the status page and the notifier read it.
+ */
+
+import * as fs from "fs";
+import * as path from "path";
+import { FailureType, ProviderResult } from "../types";
+import { getDataDir } from "./data-output";
+import { getStalenessPolicy } from "./staleness";
+
+export const CIRCUIT_FAILURE_THRESHOLD = 5;        // ~30h at the 6-hourly cadence
+export const CIRCUIT_PROBE_INTERVAL_HOURS = 24;
+
+const HOUR_MS = 60 * 60 * 1000;
+
+export type CircuitState = "closed" | "open";
+
+export interface HealthRecord {
+    consecutive_failures: number;
+    first_failure_at_utc: string | null;   // Start of the current outage
+    last_failure_at_utc: string | null;
+    last_error_class: FailureType | null;
+    last_error: string | null;
+    last_success_at_utc: string | null;
+    last_attempt_at_utc: string | null;    // Last real run (skipped runs don't count)
+    circuit: CircuitState;
+    opened_at_utc: string | null;
+}
+
+export type HealthLedger = Record<string, HealthRecord>;   // "<game>.<type>" -> record
+
+export interface Escalation {
+    provider_id: string;
+    game: string;
+    type: string;
+    title: string;
+    age_hours: number;                     // Since last success (or outage start if never)
+    threshold_hours: number;
+    consecutive_failures: number;
+    first_failure_at_utc: string | null;
+    last_error_class: FailureType | null;
+    last_error: string | null;
+}
+
+export function getHealthPath(): string {
+    return path.join(getDataDir(), "_health", "ledger.json");
+}
+
+function emptyRecord(): HealthRecord {
+    return {
+        consecutive_failures: 0,
+        first_failure_at_utc: null,
+        last_failure_at_utc: null,
+        last_error_class: null,
+        last_error: null,
+        last_success_at_utc: null,
+        last_attempt_at_utc: null,
+        circuit: "closed",
+        opened_at_utc: null
+    };
+}
+
+export function readHealthLedger(): HealthLedger {
+    const filepath = getHealthPath();
+    if (!fs.existsSync(filepath)) return {};
+
+    try {
+        return JSON.parse(fs.readFileSync(filepath, "utf-8")) as HealthLedger;
+    } catch (error) {
+        console.warn(`[Health] Corrupt ledger, starting fresh:`, error);
+        return {};
+    }
+}
+
+export function writeHealthLedger(ledger: HealthLedger): void {
+    const filepath = getHealthPath();
+    fs.mkdirSync(path.dirname(filepath), { recursive: true });
+    fs.writeFileSync(filepath, JSON.stringify(ledger, null, 2), "utf-8");
+}
+
+export function getHealth(ledger: HealthLedger, game: string, type: string): HealthRecord {
+    return ledger[`${game}.${type}`] || emptyRecord();
+}
+
+/**
+ * Whether to run the provider now: always when closed, once per probe interval when open
+ */
+export function shouldAttempt(record: HealthRecord, now: Date = new Date()): boolean {
+    if (record.circuit === "closed" || !record.last_attempt_at_utc) return true;
+    return now.getTime() - Date.parse(record.last_attempt_at_utc) >= CIRCUIT_PROBE_INTERVAL_HOURS * HOUR_MS;
+}
+
+/**
+ * When an open circuit will next be probed
+ */
+export function getNextProbe(record: HealthRecord): string | null {
+    if (record.circuit === "closed" || !record.last_attempt_at_utc) return null;
+    return new Date(Date.parse(record.last_attempt_at_utc) + CIRCUIT_PROBE_INTERVAL_HOURS * HOUR_MS).toISOString();
+}
+
+/**
+ * Fresh data: reset the outage and close the circuit
+ */
+export function recordSuccess(ledger: HealthLedger, game: string, type: string, at: string): HealthRecord {
+    const record: HealthRecord = {
+        ...emptyRecord(),
+        last_success_at_utc: at,
+        last_attempt_at_utc: at
+    };
+    ledger[`${game}.${type}`] = record;
+    return record;
+}
+
+/**
+ * A real attempt that produced no fresh data; opens the circuit at the threshold
+ */
+export function recordFailure(ledger: HealthLedger, game: string, type: string, failureType: FailureType, explanation: string, at: string): HealthRecord {
+    const previous = getHealth(ledger, game, type);
+    const failures = previous.consecutive_failures + 1;
+    const opening = previous.circuit === "closed" && failures >= CIRCUIT_FAILURE_THRESHOLD;
+
+    const record: HealthRecord = {
+        ...previous,
+        consecutive_failures: failures,
+        first_failure_at_utc: previous.first_failure_at_utc ?? at,
+        last_failure_at_utc: at,
+        last_error_class: failureType,
+        last_error: explanation,
+        last_attempt_at_utc: at,
+        circuit: failures >= CIRCUIT_FAILURE_THRESHOLD ? "open" : "closed",
+        opened_at_utc: opening ? at : previous.opened_at_utc
+    };
+    ledger[`${game}.${type}`] = record;
+    return record;
+}
+
+/**
+ * Escalation for a non-fresh result whose data is older than its type's threshold
+ */
+export function checkEscalation(result: ProviderResult, record: HealthRecord, now: Date = new Date()): Escalation | null {
+    if (result.status === "fresh") return null;
+
+    const since = result.status === "stale"
+        ? result.last_success_at_utc
+        : record.last_success_at_utc ?? record.first_failure_at_utc;
+    if (!since) return null;
+
+    const ageHours = Math.floor((now.getTime() - Date.parse(since)) / HOUR_MS);
+    const threshold = getStalenessPolicy(result.type).escalateAfterHours;
+    if (ageHours < threshold) return null;
+
+    return {
+        provider_id: result.provider_id,
+        game: result.game,
+        type: result.type,
+        title: result.title,
+        age_hours: ageHours,
+        threshold_hours: threshold,
+        consecutive_failures: record.consecutive_failures,
+        first_failure_at_utc: record.first_failure_at_utc,
+        last_error_class: record.last_error_class,
+        last_error: record.last_error
+    };
+}
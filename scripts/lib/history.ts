@@ -0,0 +1,154 @@
+/**
+ * Historical event archive
+ *
+ * Each provider keeps an append-only store at _history/<game>.<type>.jsonl with one line
+ * per distinct nextEventUtc. Entries are never removed or reordered; a repeat sighting only
+ * refreshes last_seen_utc / seen_count. A rendered <game>.<type>.history.json timeline is
+ * written next to the live file for the site.
+ */
+
+import * as fs from "fs";
+import * as path from "path";
+import { Confidence, FreshResult } from "../types";
+import { getDataDir } from "./data-output";
+
+export interface HistoryEntry {
+    nextEventUtc: string;
+    notes?: string;
+    source_url: string;
+    confidence: Confidence;
+    first_seen_utc: string;
+    last_seen_utc: string;
+    seen_count: number;
+}
+
+export interface HistoryTimeline {
+    provider_id: string;
+    game: string;
+    type: string;
+    title: string;
+    generated_at_utc: string;
+    events: HistoryEntry[]; // Newest nextEventUtc first
+}
+
+export interface HistoryQuery {
+    since?: string;   // Inclusive lower bound on nextEventUtc (ISO)
+    until?: string;   // Inclusive upper bound on nextEventUtc (ISO)
+    limit?: number;
+}
+
+/**
+ * Get path for the append-only history store
+ */
+export function getHistoryPath(game: string, type: string): string {
+    return path.join(getDataDir(), "_history", `${game}.${type}.jsonl`);
+}
+
+/**
+ * Get path for the rendered timeline
+ */
+export function getTimelinePath(game: string, type: string): string {
+    return path.join(getDataDir(), `${game}.${type}.history.json`);
+}
+
+/**
+ * Read all history entries in store order (oldest sighting first).
+ * Corrupt lines are skipped rather than failing the run.
+ */
+export function readHistory(game: string, type: string): HistoryEntry[] {
+    const filepath = getHistoryPath(game, type);
+
+    if (!fs.existsSync(filepath)) {
+        return [];
+    }
+
+    const entries: HistoryEntry[] = [];
+    const lines = fs.readFileSync(filepath, "utf-8").split("\n");
+
+    for (const line of lines) {
+        if (!line.trim()) continue;
+        try {
+            entries.push(JSON.parse(line) as HistoryEntry);
+        } catch {
+            console.warn(`[History] Skipping corrupt line in ${game}.${type}.jsonl`);
+        }
+    }
+
+    return entries;
+}
+
+/**
+ * Filter entries by event time window, newest first
+ */
+export function queryHistory(game: string, type: string, query: HistoryQuery = {}): HistoryEntry[] {
+    const since = query.since ? Date.parse(query.since) : -Infinity;
+    const until = query.until ? Date.parse(query.until) : Infinity;
+
+    const matches = readHistory(game, type)
+        .filter(entry => {
+            const t = Date.parse(entry.nextEventUtc);
+            return t >= since && t <= until;
+        })
+        .sort((a, b) => Date.parse(b.nextEventUtc) - Date.parse(a.nextEventUtc));
+
+    return query.limit !== undefined ? matches.slice(0, query.limit) : matches;
+}
+
+/**
+ * Record a fresh observation. Only FRESH results are archived - stale data is a replay.
+ * Returns the entry as stored.
+ */
+export function recordHistory(result: FreshResult): HistoryEntry {
+    const filepath = getHistoryPath(result.game, result.type);
+    fs.mkdirSync(path.dirname(filepath), { recursive: true });
+
+    const entries = readHistory(result.game, result.type);
+    const seenAt = result.fetched_at_utc;
+    const existing = entries.find(entry => entry.nextEventUtc === result.nextEventUtc);
+
+    let stored: HistoryEntry;
+
+    if (existing) {
+        existing.last_seen_utc = seenAt;
+        existing.seen_count += 1;
+        // Keep the newest description of the event
+        existing.notes = result.notes ?? existing.notes;
+        existing.source_url = result.source_url;
+        existing.confidence = result.confidence;
+        stored = existing;
+
+        fs.writeFileSync(filepath, entries.map(entry => JSON.stringify(entry)).join("\n") + "\n", "utf-8");
+    } else {
+        stored = {
+            nextEventUtc: result.nextEventUtc,
+            notes: result.notes,
+            source_url: result.source_url,
+            confidence: result.confidence,
+            first_seen_utc: seenAt,
+            last_seen_utc: seenAt,
+            seen_count: 1
+        };
+
+        fs.appendFileSync(filepath, JSON.stringify(stored) + "\n", "utf-8");
+        console.log(`  + New ${result.game}.${result.type} event archived: ${stored.nextEventUtc}`);
+    }
+
+    writeTimeline(result);
+    return stored;
+}
+
+/**
+ * Render the timeline JSON for the site
+ */
+export function writeTimeline(meta: { provider_id: string; game: string; type: string; title: string }): void {
+    const timeline: HistoryTimeline = {
+        provider_id: meta.provider_id,
+        game: meta.game,
+        type: meta.type,
+        title: meta.title,
+        generated_at_utc: new Date().toISOString(),
+        events: queryHistory(meta.game, meta.type)
+    };
+
+    fs.writeFileSync(getTimelinePath(meta.game, meta.type), JSON.stringify(timeline, null, 2), "utf-8");
+}
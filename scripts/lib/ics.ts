@@ -0,0 +1,229 @@
+/**
+ * iCalendar (.ics) feeds for upcoming-event providers
+ *
+ * next-* and weekly-reset results become subscribable calendars: one feed per game plus a
+ * combined one. Computed schedules (result.recurrence) are a single recurring VEVENT;
+ * everything else is one VEVENT per events[] entry, or nextEventUtc when there is none.
+ * UIDs are derived from the game, type and event label (plus its occurrence number when a
+ * label repeats) so a moved date updates the existing calendar entry instead of adding a
+ * second one. Date-only results (precision day/month) become all-day events.
+ */
+
+import * as fs from "fs";
+import * as path from "path";
+import { ProviderResult } from "../types";
+import { getDataDir } from "./data-output";
+import { calendarDate } from "./dates";
+import { CatalogEntry, getPageUrl } from "../catalog";
+
+export const CALENDAR_DIR = "calendar";
+export const COMBINED_CALENDAR = "all.ics";
+
+const PRODID = "-//NextReset//Game Calendars//EN";
+const UID_DOMAIN = "nextreset.co";
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export interface CalendarEvent {
+    uid: string;
+    summary: string;
+    start: string;              // ISO instant, or YYYY-MM-DD when allDay
+    end?: string;               // Exclusive end date when allDay
+    allDay?: boolean;
+    rrule?: string;
+    description?: string;
+    url?: string;
+}
+
+/**
+ * Event types that have something to put in a calendar
+ */
+export function hasCalendar(type: string): boolean {
+    return type.startsWith("next-") || type === "weekly-reset";
+}
+
+/**
+ * Calendar file name for a catalog entry, relative to the calendar dir
+ */
+export function getCalendarFile(entry: { id: string; type: string }): string {
+    return `${entry.id}.${entry.type}.ics`;
+}
+
+/**
+ * Public path of a catalog entry's feed, e.g. "/data/calendar/lol.next-patch.ics"
+ */
+export function getCalendarPath(entry: { id: string; type: string }): string {
+    return `/data/${CALENDAR_DIR}/${getCalendarFile(entry)}`;
+}
+
+function slug(text: string): string {
+    return text.toLowerCase().replace(/[^a-z0-9]+/g, "-").replace(/^-|-$/g, "");
+}
+
+/**
+ * 2026-01-21T00:00:00.000Z -> 20260121T000000Z
+ */
+function formatUtc(iso: string): string {
+    return new Date(iso).toISOString().replace(/[-:]/g, "").replace(/\.\d{3}/, "");
+}
+
+/**
+ * DTSTART/DTEND property: a UTC date-time, or a DATE value for all-day events
+ */
+function formatTime(name: string, value: string, allDay?: boolean): string {
+    return allDay ? `${name};VALUE=DATE:${value.replace(/-/g, "")}` : `${name}:${formatUtc(value)}`;
+}
+
+/**
+ * Calendar date (YYYY-MM-DD) of an instant in the zone the source stated it in
+ */
+function toDate(iso: string, zone: string): string {
+    return calendarDate({ date: new Date(iso), precision: "day", timezone: zone, text: "" });
+}
+
+/**
+ * The day after a YYYY-MM-DD date (all-day DTEND is exclusive)
+ */
+function nextDay(date: string): string {
+    return new Date(Date.parse(date) + DAY_MS).toISOString().slice(0, 10);
+}
+
+function escapeText(text: string): string {
+    return text.replace(/\\/g, "\\\\").replace(/;/g, "\\;").replace(/,/g, "\\,").replace(/\r?\n/g, "\\n");
+}
+
+/**
+ * Fold content lines at 75 octets (RFC 5545 3.1) without splitting UTF-8 sequences
+ */
+function foldLine(line: string): string {
+    const parts: string[] = [];
+    let current = "";
+    let bytes = 0;
+    for (const char of line) {
+        const size = Buffer.byteLength(char);
+        const limit = parts.length === 0 ? 75 : 74;   // Continuation lines start with a space
+        if (bytes + size > limit) {
+            parts.push(current);
+            current = "";
+            bytes = 0;
+        }
+        current += char;
+        bytes += size;
+    }
+    parts.push(current);
+    return parts.join("\r\n ");
+}
+
+/**
+ * Calendar events for one result (empty for unavailable results and non-calendar types)
+ */
+export function toCalendarEvents(entry: CatalogEntry, result: ProviderResult | null): CalendarEvent[] {
+    if (!result || result.status === "unavailable" || !hasCalendar(entry.type)) return [];
+
+    const uidPrefix = `${entry.id}.${entry.type}`;
+    const url = getPageUrl(entry);
+    const description = [result.notes, `Source: ${result.source_url}`].filter(Boolean).join("\n");
+
+    // Only the date is known: an all-day event on the source's calendar date
+    const allDay = result.precision === "day" || result.precision === "month";
+    const zone = result.source_timezone || "UTC";
+    const timing = (start: string, end?: string): Pick<CalendarEvent, "start" | "end" | "allDay"> => allDay
+        ? { start: toDate(start, zone), end: end ? nextDay(toDate(end, zone)) : undefined, allDay }
+        : { start, end };
+
+    if (result.recurrence) {
+        return [{
+            uid: `${uidPrefix}.recurring@${UID_DOMAIN}`,
+            summary: `${entry.name} ${entry.typeTitle}`,
+            ...timing(result.nextEventUtc),
+            rrule: result.recurrence,
+            description,
+            url
+        }];
+    }
+
+    if (!result.events || result.events.length === 0) {
+        return [{
+            uid: `${uidPrefix}@${UID_DOMAIN}`,
+            summary: `${entry.name} ${entry.typeTitle}`,
+            ...timing(result.nextEventUtc),
+            description,
+            url
+        }];
+    }
+
+    // Repeated labels ("Maintenance" twice) are numbered in schedule order
+    const seen = new Map<string, number>();
+    return result.events.map(event => {
+        const label = event.start ? event.label : `${event.label} ends`;
+        const key = slug(event.label);
+        const occurrence = (seen.get(key) ?? 0) + 1;
+        seen.set(key, occurrence);
+
+        return {
+            uid: `${uidPrefix}.${key}${occurrence > 1 ? `-${occurrence}` : ""}@${UID_DOMAIN}`,
+            summary: `${entry.name}: ${label}`,
+            ...timing((event.start || event.end)!, event.start && event.end ? event.end : undefined),
+            description: [`Confidence: ${event.confidence}`, description].join("\n"),
+            url
+        };
+    });
+}
+
+/**
+ * Render a VCALENDAR document (CRLF line endings, folded)
+ */
+export function renderCalendar(name: string, events: CalendarEvent[], stamp: string): string {
+    const lines = [
+        "BEGIN:VCALENDAR",
+        "VERSION:2.0",
+        `PRODID:${PRODID}`,
+        "CALSCALE:GREGORIAN",
+        "METHOD:PUBLISH",
+        `X-WR-CALNAME:${escapeText(name)}`,
+        "REFRESH-INTERVAL;VALUE=DURATION:PT6H",
+        "X-PUBLISHED-TTL:PT6H"
+    ];
+
+    for (const event of events) {
+        lines.push(
+            "BEGIN:VEVENT",
+            `UID:${event.uid}`,
+            `DTSTAMP:${formatUtc(stamp)}`,
+            formatTime("DTSTART", event.start, event.allDay)
+        );
+        if (event.end) lines.push(formatTime("DTEND", event.end, event.allDay));
+        if (event.rrule) lines.push(`RRULE:${event.rrule}`);
+        lines.push(`SUMMARY:${escapeText(event.summary)}`);
+        if (event.description) lines.push(`DESCRIPTION:${escapeText(event.description)}`);
+        if (event.url) lines.push(`URL:${event.url}`);
+        lines.push("END:VEVENT");
+    }
+
+    lines.push("END:VCALENDAR");
+    return lines.map(foldLine).join("\r\n") + "\r\n";
+}
+
+/**
+ * Write <dataDir>/calendar/<game>.<type>.ics for every calendar type plus all.ics.
+ * Feeds are written even when empty so subscriptions keep resolving during outages.
+ */
+export function writeCalendars(entries: Array<{ entry: CatalogEntry; result: ProviderResult | null }>, stamp: string): number {
+    const dir = path.join(getDataDir(), CALENDAR_DIR);
+    fs.mkdirSync(dir, { recursive: true });
+
+    const combined: CalendarEvent[] = [];
+    let written = 0;
+
+    for (const { entry, result } of entries) {
+        if (!hasCalendar(entry.type)) continue;
+        const events = toCalendarEvents(entry, result);
+        combined.push(...events);
+        fs.writeFileSync(path.join(dir, getCalendarFile(entry)), renderCalendar(`${entry.name} ${entry.typeTitle} - NextReset`, events, stamp), "utf-8");
+        written++;
+    }
+
+    combined.sort((a, b) => Date.parse(a.start) - Date.parse(b.start));
+    fs.writeFileSync(path.join(dir, COMBINED_CALENDAR), renderCalendar("NextReset - All games", combined, stamp), "utf-8");
+
+    return written;
+}
@@ -0,0 +1,100 @@
+/**
+ * Run manifest - public/data/index.json
+ *
+ * One file holding every catalog entry's current result plus metadata about the run
+ * that produced it, so the homepage can render all cards from a single request.
+ */
+
+import * as fs from "fs";
+import * as path from "path";
+import { ProviderResult } from "../types";
+import { getDataDir, readLiveData } from "./data-output";
+import { CatalogEntry } from "../catalog";
+
+export const MANIFEST_FILE = "index.json";
+
+export interface ManifestCounts {
+    total: number;
+    fresh: number;
+    stale: number;
+    unavailable: number;
+    missing: number;   // Catalog entries with no data file yet
+}
+
+export interface ManifestEntry {
+    id: string;
+    type: string;
+    name: string;
+    path: string;                      // Page path, e.g. "lol/next-patch"
+    data: string;                      // Per-game file, e.g. "lol.next-patch.json"
+    refreshed: boolean;                // Produced by this run (false = carried over from disk)
+    result: ProviderResult | null;
+}
+
+export interface DataManifest {
+    run: {
+        id: string;
+        started_at_utc: string;
+        finished_at_utc: string;
+        providers_run: string[];
+        counts: ManifestCounts;
+    };
+    providers: ManifestEntry[];
+}
+
+/**
+ * Run id: the CI run when available, otherwise the start time
+ */
+export function createRunId(startedAt: string, env: NodeJS.ProcessEnv = process.env): string {
+    if (env.GITHUB_RUN_ID) {
+        return `gh-${env.GITHUB_RUN_ID}-${env.GITHUB_RUN_ATTEMPT || "1"}`;
+    }
+    return `local-${startedAt.replace(/[-:]/g, "").replace(/\.\d+/, "")}`;
+}
+
+/**
+ * Build the manifest for the whole catalog.
+ * Entries not run this time (--only / --skip) fall back to their live file on disk.
+ */
+export function buildManifest(
+    catalog: CatalogEntry[],
+    resultsById: Map<string, ProviderResult>,
+    run: { id: string; started_at_utc: string; finished_at_utc: string }
+): DataManifest {
+    const counts: ManifestCounts = { total: catalog.length, fresh: 0, stale: 0, unavailable: 0, missing: 0 };
+
+    const providers = catalog.map((entry): ManifestEntry => {
+        const refreshed = resultsById.get(entry.id);
+        const result = refreshed ?? readLiveData(entry.id, entry.type);
+
+        if (result) {
+            counts[result.status]++;
+        } else {
+            counts.missing++;
+        }
+
+        return {
+            id: entry.id,
+            type: entry.type,
+            name: entry.name,
+            path: entry.path,
+            data: `${entry.id}.${entry.type}.json`,
+            refreshed: refreshed !== undefined,
+            result: result ? JSON.parse(JSON.stringify(result)) : null
+        };
+    });
+
+    return {
+        run: { ...run, providers_run: Array.from(resultsById.keys()), counts },
+        providers
+    };
+}
+
+/**
+ * Write <dataDir>/index.json, returns its path
+ */
+export function writeManifest(manifest: DataManifest): string {
+    const filepath = path.join(getDataDir(), MANIFEST_FILE);
+    fs.writeFileSync(filepath, JSON.stringify(manifest, null, 2), "utf-8");
+    return filepath;
+}
@@ -0,0 +1,325 @@
+/**
+ * Webhook notifications for detected changes and provider outages
+ *
+ * Config comes from NOTIFY_CONFIG (path to a JSON file) or NOTIFY_WEBHOOKS (inline JSON,
+ * handy for CI secrets). Each target picks a payload format (discord / slack / json),
+ * optional game + event subscriptions, and every announcement is deduplicated via a
+ * persisted state file so the same event is never sent twice. Outages are read from the
+ * health ledger rather than counted here.
+ */
+
+import * as fs from "fs";
+import * as path from "path";
+import { ProviderResult } from "../types";
+import { ChangeKind, ChangeRecord } from "./changes";
+import { getDataDir } from "./data-output";
+import { Escalation, getHealth, HealthLedger, readHealthLedger } from "./health";
+
+export type WebhookFormat = "discord" | "slack" | "json";
+
+/**
+ * Notification event kinds: every ChangeKind plus provider outages and escalations
+ */
+export type NotifyEventKind = ChangeKind | "provider_stale" | "provider_escalated";
+
+export interface WebhookTarget {
+    name: string;
+    url: string;
+    format: WebhookFormat;
+    games?: string[];              // Provider ids; omitted = all games
+    events?: NotifyEventKind[];    // Omitted = DEFAULT_EVENTS
+}
+
+export interface NotifyConfig {
+    staleRunsThreshold?: number;   // Announce an outage after this many consecutive failures
+    timeoutMs?: number;
+    targets: WebhookTarget[];
+}
+
+export interface NotifyEvent {
+    kind: NotifyEventKind;
+    provider_id: string;
+    game: string;
+    type: string;
+    title: string;
+    summary: string;
+    url?: string;
+    dedupKey: string;               // Target-independent identity of this announcement
+    occurred_at_utc: string;
+}
+
+interface NotifyState {
+    sent: Record<string, string>;           // "<target>|<dedupKey>" -> sent_at_utc
+}
+
+export interface NotifySummary {
+    attempted: number;
+    sent: number;
+    failed: number;
+    skipped: number;                // Already announced
+}
+
+const DEFAULT_EVENTS: NotifyEventKind[] = [
+    ChangeKind.NewEvent,
+    ChangeKind.EventMoved,
+    ChangeKind.StatusChanged,
+    "provider_stale",
+    "provider_escalated"
+];
+const DEFAULT_STALE_RUNS_THRESHOLD = 4;   // ~1 day at the 6-hourly cadence
+const DEFAULT_TIMEOUT_MS = 10000;
+const SENT_RETENTION_DAYS = 90;
+
+/**
+ * Load config from env. Returns null when notifications are not configured.
+ */
+export function loadNotifyConfig(env: NodeJS.ProcessEnv = process.env): NotifyConfig | null {
+    let raw: string | undefined;
+
+    if (env.NOTIFY_CONFIG) {
+        raw = fs.readFileSync(path.resolve(env.NOTIFY_CONFIG), "utf-8");
+    } else if (env.NOTIFY_WEBHOOKS) {
+        raw = env.NOTIFY_WEBHOOKS;
+    }
+
+    if (!raw) {
+        return null;
+    }
+
+    const config = JSON.parse(raw) as NotifyConfig;
+    if (!Array.isArray(config.targets)) {
+        throw new Error("Notify config must have a 'targets' array");
+    }
+
+    for (const target of config.targets) {
+        if (!target.name || !target.url || !["discord", "slack", "json"].includes(target.format)) {
+            throw new Error(`Invalid webhook target: ${JSON.stringify({ ...target, url: target.url ? "<redacted>" : undefined })}`);
+        }
+    }
+
+    return config;
+}
+
+export function getNotifyStatePath(): string {
+    return path.join(getDataDir(), "_notify", "state.json");
+}
+
+function readState(): NotifyState {
+    const filepath = getNotifyStatePath();
+    if (!fs.existsSync(filepath)) {
+        return { sent: {} };
+    }
+    try {
+        const state = JSON.parse(fs.readFileSync(filepath, "utf-8")) as Partial<NotifyState>;
+        return { sent: state.sent || {} };
+    } catch (error) {
+        console.warn(`[Notify] Corrupt state file, starting fresh:`, error);
+        return { sent: {} };
+    }
+}
+
+function writeState(state: NotifyState): void {
+    const filepath = getNotifyStatePath();
+    fs.mkdirSync(path.dirname(filepath), { recursive: true });
+
+    // Forget old dedup keys so the file doesn't grow forever
+    const cutoff = Date.now() - SENT_RETENTION_DAYS * 24 * 60 * 60 * 1000;
+    for (const [key, sentAt] of Object.entries(state.sent)) {
+        if (Date.parse(sentAt) < cutoff) delete state.sent[key];
+    }
+
+    fs.writeFileSync(filepath, JSON.stringify(state, null, 2), "utf-8");
+}
+
+/**
+ * Non-fresh results whose outage (per the health ledger) reached the threshold
+ */
+function findOutages(ledger: HealthLedger, results: ProviderResult[], threshold: number, now: string): NotifyEvent[] {
+    const events: NotifyEvent[] = [];
+
+    for (const result of results) {
+        if (result.status === "fresh") continue;
+
+        const health = getHealth(ledger, result.game, result.type);
+        if (health.consecutive_failures < threshold) continue;
+
+        const key = `${result.game}.${result.type}`;
+        const why = result.status === "stale" ? result.reason : result.explanation;
+        events.push({
+            kind: "provider_stale",
+            provider_id: result.provider_id,
+            game: result.game,
+            type: result.type,
+            title: result.title,
+            summary: `${result.title}: no fresh data after ${health.consecutive_failures} consecutive failure(s) (since ${health.first_failure_at_utc}). Last error: ${why}`,
+            dedupKey: `${key}|provider_stale|${health.first_failure_at_utc}`,
+            occurred_at_utc: now
+        });
+    }
+
+    return events;
+}
+
+/**
+ * Data past its staleness threshold; announced once per outage
+ */
+function fromEscalation(escalation: Escalation, now: string): NotifyEvent {
+    const key = `${escalation.game}.${escalation.type}`;
+    return {
+        kind: "provider_escalated",
+        provider_id: escalation.provider_id,
+        game: escalation.game,
+        type: escalation.type,
+        title: escalation.title,
+        summary: `${escalation.title}: data is ${escalation.age_hours}h old (threshold ${escalation.threshold_hours}h) after ${escalation.consecutive_failures} consecutive failure(s). Last error (${escalation.last_error_class ?? "unknown"}): ${escalation.last_error ?? "n/a"}`,
+        dedupKey: `${key}|provider_escalated|${escalation.first_failure_at_utc ?? "unknown"}`,
+        occurred_at_utc: now
+    };
+}
+
+function fromChange(change: ChangeRecord): NotifyEvent {
+    const identity = change.kind === ChangeKind.StatusChanged
+        ? change.current.service_status
+        : change.current.nextEventUtc;
+
+    return {
+        kind: change.kind,
+        provider_id: change.provider_id,
+        game: change.game,
+        type: change.type,
+        title: change.title,
+        summary: change.summary,
+        url: change.current.source_url,
+        dedupKey: `${change.game}.${change.type}|${change.kind}|${identity}`,
+        occurred_at_utc: change.detected_at_utc
+    };
+}
+
+function isSubscribed(target: WebhookTarget, event: NotifyEvent): boolean {
+    const games = target.games;
+    const kinds = target.events || DEFAULT_EVENTS;
+    return (!games || games.length === 0 || games.includes(event.game)) && kinds.includes(event.kind);
+}
+
+/**
+ * Render the request body for a target format
+ */
+export function renderPayload(format: WebhookFormat, event: NotifyEvent): Record<string, unknown> {
+    switch (format) {
+        case "discord":
+            return {
+                username: "NextReset",
+                content: event.summary,
+                embeds: [{
+                    title: event.title,
+                    description: event.summary,
+                    url: event.url,
+                    color: event.kind === "provider_escalated" ? 0xef4444 : event.kind === "provider_stale" ? 0xf59e0b : 0x22c55e,
+                    timestamp: event.occurred_at_utc,
+                    footer: { text: event.kind }
+                }]
+            };
+        case "slack":
+            return {
+                text: event.summary,
+                blocks: [{
+                    type: "section",
+                    text: {
+                        type: "mrkdwn",
+                        text: `*${event.title}*\n${event.summary}${event.url ? `\n<${event.url}|Source>` : ""}`
+                    }
+                }]
+            };
+        case "json":
+            return {
+                kind: event.kind,
+                provider_id: event.provider_id,
+                game: event.game,
+                type: event.type,
+                title: event.title,
+                summary: event.summary,
+                url: event.url ?? null,
+                occurred_at_utc: event.occurred_at_utc
+            };
+    }
+}
+
+async function post(target: WebhookTarget, body: Record<string, unknown>, timeoutMs: number): Promise<void> {
+    const controller = new AbortController();
+    const id = setTimeout(() => controller.abort(), timeoutMs);
+
+    try {
+        const response = await fetch(target.url, {
+            method: "POST",
+            headers: { "Content-Type": "application/json" },
+            body: JSON.stringify(body),
+            signal: controller.signal
+        });
+        if (!response.ok) {
+            throw new Error(`HTTP ${response.status}`);
+        }
+    } finally {
+        clearTimeout(id);
+    }
+}
+
+/**
+ * Announce this run's changes, long-running outages and escalations to every subscribed target.
+ * Outages come from the health ledger (default: the persisted one) after this run's updates.
+ * Delivery failures are logged and retried next run (not marked as sent); they never throw.
+ */
+export async function notify(
+    config: NotifyConfig,
+    results: ProviderResult[],
+    changes: ChangeRecord[],
+    options: { dryRun?: boolean; escalations?: Escalation[]; ledger?: HealthLedger } = {}
+): Promise<NotifySummary> {
+    const now = new Date().toISOString();
+    const state = readState();
+    const threshold = config.staleRunsThreshold ?? DEFAULT_STALE_RUNS_THRESHOLD;
+    const timeoutMs = config.timeoutMs ?? DEFAULT_TIMEOUT_MS;
+
+    const events = [
+        ...changes.map(fromChange),
+        ...findOutages(options.ledger ?? readHealthLedger(), results, threshold, now),
+        ...(options.escalations || []).map(escalation => fromEscalation(escalation, now))
+    ];
+
+    const summary: NotifySummary = { attempted: 0, sent: 0, failed: 0, skipped: 0 };
+
+    for (const target of config.targets) {
+        for (const event of events) {
+            if (!isSubscribed(target, event)) continue;
+
+            const sentKey = `${target.name}|${event.dedupKey}`;
+            if (state.sent[sentKey]) {
+                summary.skipped++;
+                continue;
+            }
+
+            summary.attempted++;
+            const body = renderPayload(target.format, event);
+
+            if (options.dryRun) {
+                console.log(`[Notify][dry-run] ${target.name} (${target.format}): ${event.summary}`);
+                continue;
+            }
+
+            try {
+                await post(target, body, timeoutMs);
+                state.sent[sentKey] = now;
+                summary.sent++;
+                console.log(`[Notify] ${target.name}: ${event.summary}`);
+            } catch (error) {
+                summary.failed++;
+                console.warn(`[Notify] ${target.name} delivery failed: ${error instanceof Error ? error.message : String(error)}`);
+            }
+        }
+    }
+
+    if (!options.dryRun) {
+        writeState(state);
+    }
+
+    return summary;
+}
@@ -0,0 +1,92 @@
+/**
+ * Per-game Open Graph images
+ *
+ * Each game gets a 1200x630 card (game name, event type, target date, status) rendered from
+ * HTML with the Playwright Chromium the fetch layer already depends on. Pages fall back to
+ * the shared og.png for any card that could not be rendered.
+ */
+
+import { chromium } from "playwright";
+import * as fs from "fs";
+import * as path from "path";
+import { ProviderResult } from "../types";
+import { CatalogEntry } from "../catalog";
+import { escapeHtml, formatEventDate } from "./prerender";
+
+export const OG_DIR = "og";
+export const OG_WIDTH = 1200;
+export const OG_HEIGHT = 630;
+
+const STATUS_LABELS: Record<ProviderResult["status"], { text: string; color: string }> = {
+    fresh: { text: "Live", color: "#22c55e" },
+    stale: { text: "Cached", color: "#eab308" },
+    unavailable: { text: "Unavailable", color: "#64748b" }
+};
+
+/**
+ * Image path relative to public/, e.g. "og/lol.next-patch.png"
+ */
+export function getOgImageFile(entry: { id: string; type: string }): string {
+    return `${OG_DIR}/${entry.id}.${entry.type}.png`;
+}
+
+/**
+ * Standalone HTML for one card (no external assets, so rendering needs no network)
+ */
+export function renderOgCardHtml(entry: CatalogEntry, result: ProviderResult | null): string {
+    const status = result ? STATUS_LABELS[result.status] : null;
+    const when = result && result.status !== "unavailable" ? formatEventDate(result.nextEventUtc, result) : "Checking official sources";
+
+    return `<!DOCTYPE html>
+<html><head><meta charset="UTF-8"><style>
+  *{box-sizing:border-box}
+  body{margin:0;width:${OG_WIDTH}px;height:${OG_HEIGHT}px;background:#0b0f14;color:#e5e7eb;font-family:system-ui,-apple-system,"Segoe UI",sans-serif}
+  .card{position:absolute;inset:40px;border:2px solid #1f2937;border-radius:32px;background:#111827;padding:56px 64px;display:flex;flex-direction:column}
+  .brand{font-size:30px;font-weight:800;color:#22c55e;letter-spacing:.02em}
+  .kicker{margin-top:36px;font-size:26px;font-weight:700;color:#6b7280;text-transform:uppercase;letter-spacing:.14em}
+  .name{margin-top:8px;font-size:76px;font-weight:900;line-height:1.05}
+  .type{font-size:40px;font-weight:700;color:#9ca3af}
+  .footer{margin-top:auto;display:flex;align-items:center;justify-content:space-between}
+  .date{font-size:46px;font-weight:900}
+  .status{font-size:28px;font-weight:800;padding:10px 26px;border-radius:999px;border:2px solid currentColor}
+</style></head><body>
+  <div class="card">
+    <div class="brand">NextReset</div>
+    <div class="kicker">${escapeHtml(entry.kicker)}</div>
+    <div class="name">${escapeHtml(entry.name)}</div>
+    <div class="type">${escapeHtml(entry.typeTitle)}</div>
+    <div class="footer">
+      <div class="date">${escapeHtml(when)}</div>
+      ${status ? `<div class="status" style="color:${status.color}">${status.text}</div>` : ""}
+    </div>
+  </div>
+</body></html>`;
+}
+
+/**
+ * Screenshot every card with one browser. Throws if Chromium can't launch;
+ * individual card failures are logged and skipped. Returns the files written.
+ */
+export async function renderOgImages(publicDir: string, cards: Array<{ entry: CatalogEntry; result: ProviderResult | null }>): Promise<string[]> {
+    const browser = await chromium.launch({ headless: true });
+    const written: string[] = [];
+
+    try {
+        const page = await browser.newPage({ viewport: { width: OG_WIDTH, height: OG_HEIGHT } });
+        for (const { entry, result } of cards) {
+            const file = path.join(publicDir, getOgImageFile(entry));
+            try {
+                await page.setContent(renderOgCardHtml(entry, result), { waitUntil: "load" });
+                fs.mkdirSync(path.dirname(file), { recursive: true });
+                await page.screenshot({ path: file, type: "png" });
+                written.push(file);
+            } catch (error) {
+                console.warn(`⚠ OG image failed for ${entry.id}: ${error instanceof Error ? error.message : String(error)}`);
+            }
+        }
+    } finally {
+        await browser.close();
+    }
+
+    return written;
+}
@@ -0,0 +1,147 @@
+/**
+ * Server-side pre-rendering of game page data
+ *
+ * update-game-pages runs after refresh and bakes the current result into the static HTML:
+ * event date, source, confidence, last check, notes / stale reason and the meta description.
+ * The result is also embedded as JSON so app.v2.js only hydrates the live ticker instead of
+ * fetching again. Without data the page keeps its loading skeleton.
+ */
+
+import { ProviderResult, StaleResult } from "../types";
+import { CatalogEntry } from "../catalog";
+import { getAgeHours } from "./staleness";
+
+export interface PrerenderedPage {
+    description: string;
+    countdown: string;          // Inner HTML of #countdown
+    source: string;             // Inner HTML of #source
+    confidence: string;
+    confidenceClass: string;
+    updated: string;            // Inner HTML of #last-updated
+    notes: string | null;       // Text of #notes, null = hidden
+    initialData: string | null; // JSON for the embedded data script
+}
+
+const SKELETON_COUNTDOWN = `
+        <div class="countdown-label">Checking official sources...</div>
+        <div class="countdown-value countdown-skeleton">--:--:--</div>
+      `;
+
+export function escapeHtml(text: string): string {
+    return text
+        .replace(/&/g, "&amp;")
+        .replace(/</g, "&lt;")
+        .replace(/>/g, "&gt;")
+        .replace(/"/g, "&quot;")
+        .replace(/'/g, "&#39;");
+}
+
+/**
+ * Format an instant for static HTML. Date-only events are shown as the calendar date in the
+ * zone the source used (so a midnight-ET season end reads as that day, not the UTC date).
+ */
+export function formatEventDate(iso: string, result?: { precision?: string; source_timezone?: string }): string {
+    const dateOnly = result?.precision === "day" || result?.precision === "month";
+    const options: Intl.DateTimeFormatOptions = dateOnly
+        ? { month: "short", day: "numeric", year: "numeric" }
+        : { month: "short", day: "numeric", year: "numeric", hour: "2-digit", minute: "2-digit", hourCycle: "h23", timeZoneName: "short" };
+
+    let timeZone = "UTC";
+    if (dateOnly && result?.source_timezone) {
+        try {
+            new Intl.DateTimeFormat("en-US", { timeZone: result.source_timezone });
+            timeZone = result.source_timezone;
+        } catch {
+            // Offset-style zones aren't accepted everywhere; UTC is close enough for a date
+        }
+    }
+
+    return new Intl.DateTimeFormat("en-US", { ...options, timeZone }).format(new Date(iso));
+}
+
+/**
+ * "3 days ago" / "5 hours ago" (same wording as app.v2.js formatTimeSince)
+ */
+export function formatAge(ageHours: number): string {
+    const days = Math.floor(ageHours / 24);
+    if (days > 0) return `${days} day${days !== 1 ? "s" : ""} ago`;
+    if (ageHours > 0) return `${ageHours} hour${ageHours !== 1 ? "s" : ""} ago`;
+    return "just now";
+}
+
+/**
+ * Stale banner: age of the cached data, lowered confidence and the failure reason
+ */
+export function formatStaleNote(result: StaleResult): string {
+    const age = result.age_hours !== undefined ? ` from ${formatAge(result.age_hours)}` : "";
+    const lowered = result.original_confidence ? ` (confidence lowered from ${result.original_confidence})` : "";
+    return `⚠ Using cached data${age}${lowered}: ${result.reason}`;
+}
+
+/**
+ * Inline <script type="application/json"> payload (no "</script>" breakout)
+ */
+function toScriptJson(value: unknown): string {
+    return JSON.stringify(value).replace(/</g, "\\u003c").replace(/\u2028/g, "\\u2028").replace(/\u2029/g, "\\u2029");
+}
+
+export function prerenderPage(entry: CatalogEntry, result: ProviderResult | null): PrerenderedPage {
+    if (!result) {
+        return {
+            description: `Track ${entry.name} events and updates`,
+            countdown: SKELETON_COUNTDOWN,
+            source: "...",
+            confidence: "...",
+            confidenceClass: "confidence",
+            updated: "...",
+            notes: null,
+            initialData: null
+        };
+    }
+
+    const checked = `<time datetime="${result.fetched_at_utc}">${escapeHtml(formatEventDate(result.fetched_at_utc))}</time>`;
+
+    if (result.status === "unavailable") {
+        return {
+            description: `Track ${entry.name} ${entry.typeTitle.toLowerCase()} from official sources. Currently unavailable; the latest check could not read the source.`,
+            countdown: `
+        <div class="countdown-label">Status</div>
+        <div class="countdown-value unavailable">Data Unavailable</div>
+      `,
+            source: "Unavailable",
+            confidence: "none",
+            confidenceClass: "confidence confidence-none",
+            updated: checked,
+            notes: null,
+            initialData: toScriptJson(result)
+        };
+    }
+
+    const when = formatEventDate(result.nextEventUtc, result);
+    const sourceName = escapeHtml(String((result as unknown as Record<string, unknown>).sourceName || result.title));
+    const notes = result.status === "stale"
+        ? formatStaleNote(result)
+        : (result.notes || null);
+    const summary = `${entry.name} ${entry.typeTitle.toLowerCase()}: ${when}${result.notes ? ` (${result.notes})` : ""}.`;
+
+    // Stale: say the data is cached and how old it was at the latest check
+    const age = result.status === "stale"
+        ? formatAge(result.age_hours ?? getAgeHours(result.last_success_at_utc, new Date(result.fetched_at_utc)))
+        : null;
+
+    return {
+        description: age
+            ? `${summary} Cached from the last successful check ${age}; the latest check failed.`
+            : `${summary} Tracked live from official sources.`,
+        countdown: `
+        <div class="countdown-label">${escapeHtml(entry.typeTitle)}</div>
+        <div class="countdown-value${result.status === "stale" ? " stale" : ""}"><time datetime="${result.nextEventUtc}">${escapeHtml(when)}</time></div>
+      `,
+        source: `<a href="${escapeHtml(result.source_url)}" target="_blank" rel="noopener">${sourceName}</a>`,
+        confidence: result.confidence,
+        confidenceClass: `confidence confidence-${result.confidence}`,
+        updated: checked,
+        notes,
+        initialData: toScriptJson(result)
+    };
+}
@@ -0,0 +1,183 @@
+/**
+ * Persisted run log and provider health report
+ *
+ * Every (non-dry) refresh appends one line to _runs/runs.jsonl: per provider the status,
+ * timing, fetch mode / HTTP status actually used, browser sessions and the error, plus the
+ * run's browser budget. The newest MAX_RUNS lines are kept. status.json (and the /status/
+ * page built from it) is derived from this log, with failure counts from the health ledger.
+ */
+
+import * as fs from "fs";
+import * as path from "path";
+import { FailureType, ProviderResult } from "../types";
+import { getDataDir } from "./data-output";
+import { FetchTrace } from "./fetch-layer";
+import { CatalogEntry } from "../catalog";
+import { getHealth, HealthLedger } from "./health";
+
+const MAX_RUNS = 200;
+
+export interface ProviderRunRecord {
+    id: string;
+    type: string;
+    status: ProviderResult["status"];
+    elapsed_ms: number;
+    fetch_mode: "http" | "browser" | null;   // null = no fetch (computed provider / crash before fetch)
+    http_status: number | null;
+    fetches: number;
+    browser_sessions: number;
+    last_success_at_utc: string | null;
+    failure_type?: FailureType;
+    error?: string;                          // Unavailable explanation or stale reason
+}
+
+export interface RunRecord {
+    run_id: string;
+    started_at_utc: string;
+    finished_at_utc: string;
+    browser_budget: { used: number; max: number };
+    providers: ProviderRunRecord[];
+}
+
+export interface ProviderStatus {
+    id: string;
+    type: string;
+    name: string;
+    path: string;
+    status: ProviderResult["status"] | null;   // null = never run
+    consecutive_failures: number;            // From the health ledger (real attempts without fresh data)
+    last_success_at_utc: string | null;
+    last_checked_utc: string | null;
+    fetch_mode: "http" | "browser" | null;
+    http_status: number | null;
+    browser_sessions: number;
+    last_error: string | null;
+    last_error_at_utc: string | null;
+}
+
+export interface StatusReport {
+    generated_at_utc: string;
+    last_run: Omit<RunRecord, "providers"> | null;
+    runs_logged: number;
+    providers: ProviderStatus[];
+}
+
+export function getRunLogPath(): string {
+    return path.join(getDataDir(), "_runs", "runs.jsonl");
+}
+
+export function getStatusPath(): string {
+    return path.join(getDataDir(), "status.json");
+}
+
+/**
+ * One provider's line in the run record
+ */
+export function toRunRecord(entry: { id: string; type: string }, result: ProviderResult, elapsedMs: number, trace: FetchTrace | null): ProviderRunRecord {
+    const record: ProviderRunRecord = {
+        id: entry.id,
+        type: entry.type,
+        status: result.status,
+        elapsed_ms: elapsedMs,
+        fetch_mode: trace?.fetch_mode ?? null,
+        http_status: trace ? trace.http_status : null,
+        fetches: trace?.fetches ?? 0,
+        browser_sessions: trace?.browser_sessions ?? 0,
+        last_success_at_utc: result.status === "unavailable" ? null : result.last_success_at_utc
+    };
+
+    if (result.status === "unavailable") {
+        record.failure_type = result.failure_type;
+        record.error = result.explanation;
+    } else if (result.status === "stale") {
+        record.error = result.reason;
+    }
+
+    return record;
+}
+
+/**
+ * All logged runs, oldest first. Corrupt lines are skipped.
+ */
+export function readRunLog(): RunRecord[] {
+    const filepath = getRunLogPath();
+    if (!fs.existsSync(filepath)) return [];
+
+    const runs: RunRecord[] = [];
+    for (const line of fs.readFileSync(filepath, "utf-8").split("\n")) {
+        if (!line.trim()) continue;
+        try {
+            runs.push(JSON.parse(line) as RunRecord);
+        } catch {
+            console.warn(`[RunLog] Skipping corrupt line in ${filepath}`);
+        }
+    }
+    return runs;
+}
+
+/**
+ * Append a run, trimming the log to the newest MAX_RUNS
+ */
+export function appendRunLog(run: RunRecord): void {
+    const filepath = getRunLogPath();
+    fs.mkdirSync(path.dirname(filepath), { recursive: true });
+
+    const runs = [...readRunLog(), run];
+    if (runs.length > MAX_RUNS) {
+        fs.writeFileSync(filepath, runs.slice(-MAX_RUNS).map(r => JSON.stringify(r)).join("\n") + "\n", "utf-8");
+    } else {
+        fs.appendFileSync(filepath, JSON.stringify(run) + "\n", "utf-8");
+    }
+}
+
+/**
+ * Per-catalog-entry health from the run log (runs oldest first) and the health ledger
+ */
+export function buildStatusReport(catalog: CatalogEntry[], runs: RunRecord[], ledger: HealthLedger, now: Date = new Date()): StatusReport {
+    const newestFirst = [...runs].reverse();
+
+    const providers = catalog.map((entry): ProviderStatus => {
+        const history = newestFirst
+            .map(run => ({ run, record: run.providers.find(p => p.id === entry.id && p.type === entry.type) }))
+            .filter((item): item is { run: RunRecord; record: ProviderRunRecord } => item.record !== undefined);
+
+        const latest = history[0];
+        const lastFresh = history.find(item => item.record.status === "fresh");
+        const lastError = history.find(item => item.record.error !== undefined && item.record.status !== "fresh");
+
+        return {
+            id: entry.id,
+            type: entry.type,
+            name: entry.name,
+            path: entry.path,
+            status: latest ? latest.record.status : null,
+            consecutive_failures: getHealth(ledger, entry.id, entry.type).consecutive_failures,
+            last_success_at_utc: latest?.record.last_success_at_utc ?? lastFresh?.run.finished_at_utc ?? null,
+            last_checked_utc: latest ? latest.run.finished_at_utc : null,
+            fetch_mode: latest ? latest.record.fetch_mode : null,
+            http_status: latest ? latest.record.http_status : null,
+            browser_sessions: latest ? latest.record.browser_sessions : 0,
+            last_error: lastError ? lastError.record.error! : null,
+            last_error_at_utc: lastError ? lastError.run.finished_at_utc : null
+        };
+    });
+
+    const last = newestFirst[0];
+    return {
+        generated_at_utc: now.toISOString(),
+        last_run: last ? {
+            run_id: last.run_id,
+            started_at_utc: last.started_at_utc,
+            finished_at_utc: last.finished_at_utc,
+            browser_budget: last.browser_budget
+        } : null,
+        runs_logged: runs.length,
+        providers
+    };
+}
+
+export function writeStatusJson(report: StatusReport): string {
+    const filepath = getStatusPath();
+    fs.writeFileSync(filepath, JSON.stringify(report, null, 2), "utf-8");
+    return filepath;
+}
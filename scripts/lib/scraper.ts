@@ -0,0 +1,208 @@
+/**
+ * Declarative scrapers for "latest dated article" pages
+ *
+ * A ScraperSpec describes a listing page: which elements are candidate articles, how to
+ * filter them, where their title / date / link live, and when to fall back to a browser.
+ * The engine here interprets it, so a simple "last patch" provider is configuration
+ * (see providers/scraped.ts) rather than another hand-rolled cheerio loop.
+ */
+
+import * as cheerio from "cheerio";
+import { Confidence, FreshResult, Provider, ProviderMetadata } from "../types";
+import { fetchHtml, withBrowserRenderer, getBrowserBudgetRemaining } from "./fetch-layer";
+import { parseDate, parseTimeElement } from "./dates";
+import { runSources, SourceReading } from "./consensus";
+
+/**
+ * Where a candidate's date is read from. Tried in the order listed.
+ * - element: first match inside the item (datetime/content/title attributes, then its text);
+ *   with `within`, inside the item's closest ancestor matching that selector instead
+ * - text: free text of the item, or its surroundings ("context": parent, plus grandparent when short)
+ */
+export type DateSource =
+    | { element: string; within?: string }
+    | { text: "item" | "context" };
+
+/**
+ * Browser policy: "never" (HTTP only), "fallback" (browser when HTTP fails or finds nothing),
+ * "only" (the page needs a browser to render)
+ */
+export type BrowserPolicy = "never" | "fallback" | "only";
+
+export interface ScraperSpec {
+    meta: ProviderMetadata;
+    url: string;                        // Listing page
+    items: string;                      // Selector for candidate articles
+    limit?: number;                     // Only look at the first N candidates
+    keywords?: string[];                // Item text must contain one of these (case-insensitive)
+    title?: string[];                   // Selectors tried in order; "self" = the item's first line of text
+    date: DateSource[];
+    link?: string;                      // "self" = the item's own href, else selector of an <a> inside it; default: listing URL
+    pick: "newest" | "first";           // Newest dated candidate (text dates only if none has an element date), or the first in page order
+    browser?: BrowserPolicy;            // Default "never"
+    confidence: Confidence;             // For an HTTP read
+    browserConfidence?: Confidence;     // For a browser read (default: confidence)
+    timeout?: number;
+    headers?: Record<string, string>;
+    error: string;                      // Thrown when no candidate has a date
+}
+
+export interface ScrapedArticle {
+    date: Date;
+    title: string;
+    url: string;
+}
+
+const CONTEXT_MIN_LENGTH = 200;
+
+/**
+ * A candidate's date, and whether it came from an element (vs free text)
+ */
+function readDate($el: cheerio.Cheerio<any>, sources: DateSource[]): { date: Date; structured: boolean } | null {
+    for (const source of sources) {
+        if ("element" in source) {
+            const scope = source.within ? $el.closest(source.within) : $el;
+            const parsed = parseTimeElement(scope.find(source.element).first());
+            if (parsed) return { date: parsed.date, structured: true };
+            continue;
+        }
+
+        let text = $el.text();
+        if (source.text === "context") {
+            text = $el.parent().text();
+            if (text.length < CONTEXT_MIN_LENGTH) text += " " + $el.parent().parent().text();
+        }
+        const parsed = parseDate(text);
+        if (parsed) return { date: parsed.date, structured: false };
+    }
+    return null;
+}
+
+function readTitle($el: cheerio.Cheerio<any>, selectors: string[]): string {
+    for (const selector of selectors) {
+        const text = selector === "self"
+            ? $el.text().trim().split("\n")[0].trim()
+            : $el.find(selector).first().text().trim();
+        if (text) return text;
+    }
+    return "";
+}
+
+function readLink($el: cheerio.Cheerio<any>, spec: ScraperSpec): string {
+    if (!spec.link) return spec.url;
+
+    const href = spec.link === "self" ? $el.attr("href") : $el.find(spec.link).first().attr("href");
+    if (!href) return spec.url;
+
+    try {
+        return new URL(href, spec.url).href;
+    } catch {
+        return spec.url;
+    }
+}
+
+/**
+ * Apply a spec to a loaded page. Returns null when no candidate matched with a date.
+ * With pick "newest", element dates win: a free-text date (which may be any date in the
+ * card) only counts when no candidate has an element date.
+ */
+export function extractLatest($: cheerio.CheerioAPI, spec: ScraperSpec): ScrapedArticle | null {
+    const keywords = (spec.keywords || []).map(k => k.toLowerCase());
+    let candidates = $(spec.items);
+    if (spec.limit !== undefined) candidates = candidates.slice(0, spec.limit);
+
+    let structured: ScrapedArticle | null = null;
+    let text: ScrapedArticle | null = null;
+
+    candidates.each((_, elem) => {
+        if ((structured || text) && spec.pick === "first") return;
+
+        const $el = $(elem);
+        if (keywords.length > 0) {
+            const content = $el.text().toLowerCase();
+            if (!keywords.some(k => content.includes(k))) return;
+        }
+
+        const found = readDate($el, spec.date);
+        if (!found) return;
+
+        const best = found.structured ? structured : text;
+        if (best && found.date <= best.date) return;
+
+        const article = { date: found.date, title: readTitle($el, spec.title || []), url: readLink($el, spec) };
+        if (found.structured) structured = article;
+        else text = article;
+    });
+
+    return structured || text;
+}
+
+function toReading(article: ScrapedArticle, confidence: Confidence, mode: "http" | "browser", status?: number): SourceReading {
+    const reading: SourceReading = {
+        nextEventUtc: article.date.toISOString(),
+        source_url: article.url,
+        confidence,
+        fetch_mode: mode
+    };
+    if (article.title) reading.notes = article.title;
+    if (status !== undefined) reading.http_status = status;
+    return reading;
+}
+
+async function readWithBrowser(spec: ScraperSpec): Promise<SourceReading> {
+    return withBrowserRenderer(async (render) => {
+        // Hydration
+        const page = await render(spec.url, { waitUntil: "domcontentloaded", settleMs: 3000 });
+
+        const article = extractLatest(cheerio.load(page.text), spec);
+        if (!article) {
+            throw new Error(`${spec.error} (Browser)`);
+        }
+        return toReading(article, spec.browserConfidence || spec.confidence, "browser");
+    }, spec.meta.provider_id);
+}
+
+/**
+ * Run a spec and return what it found, as a consensus source reading. Throws when nothing was found.
+ */
+export async function readScraper(spec: ScraperSpec): Promise<SourceReading> {
+    const policy = spec.browser || "never";
+    if (policy === "only") {
+        return readWithBrowser(spec);
+    }
+
+    const response = await fetchHtml(spec.url, {
+        providerId: spec.meta.provider_id,
+        timeout: spec.timeout,
+        headers: spec.headers
+    });
+
+    if (response.ok) {
+        const article = extractLatest(cheerio.load(response.text), spec);
+        if (article) {
+            return toReading(article, spec.confidence, response.mode, response.status);
+        }
+    }
+
+    const failure = response.ok ? spec.error : response.error || `HTTP ${response.status}`;
+    if (policy === "never") {
+        throw new Error(failure);
+    }
+
+    if (getBrowserBudgetRemaining() <= 0) {
+        throw new Error(`${failure} and Browser budget exhausted`);
+    }
+    console.log(`[Scraper] ${spec.meta.provider_id}: ${failure}. Switching to browser...`);
+    return readWithBrowser(spec);
+}
+
+/**
+ * Run a spec as a standalone provider
+ */
+export async function runScraper(spec: ScraperSpec): Promise<FreshResult> {
+    return runSources(spec.meta, [{ name: spec.meta.title, read: () => readScraper(spec) }]);
+}
+
+export function scraperProvider(spec: ScraperSpec): Provider {
+    return () => runScraper(spec);
+}
@@ -0,0 +1,73 @@
+/**
+ * sitemap.xml and robots.txt rendering
+ *
+ * lastmod comes from the provider's last_success_at_utc (LKG when the latest run failed), so
+ * search engines see when a page's data was last confirmed rather than the build time.
+ */
+
+import { ProviderResult } from "../types";
+import { CatalogEntry, SITE_URL, getPageUrl } from "../catalog";
+
+export interface SitemapUrl {
+    loc: string;
+    priority: string;
+    lastmod: string | null;
+}
+
+/**
+ * When a page's data was last confirmed, or null if it never was
+ */
+export function getLastModified(live: ProviderResult | null, lkg: ProviderResult | null): string | null {
+    for (const result of [live, lkg]) {
+        if (result && result.status !== "unavailable") return result.last_success_at_utc;
+    }
+    return null;
+}
+
+/**
+ * W3C datetime without milliseconds, e.g. 2026-01-15T12:00:00Z
+ */
+function formatLastmod(iso: string): string {
+    return new Date(iso).toISOString().replace(/\.\d{3}Z$/, "Z");
+}
+
+function renderUrl(url: SitemapUrl): string {
+    return `  <url>
+    <loc>${url.loc}</loc>${url.lastmod ? `
+    <lastmod>${formatLastmod(url.lastmod)}</lastmod>` : ""}
+    <changefreq>daily</changefreq>
+    <priority>${url.priority}</priority>
+  </url>`;
+}
+
+/**
+ * Homepage (lastmod = newest game) followed by every catalog page
+ */
+export function renderSitemap(pages: Array<{ entry: CatalogEntry; lastmod: string | null }>): string {
+    const newest = pages
+        .map(page => page.lastmod)
+        .filter((lastmod): lastmod is string => lastmod !== null)
+        .sort()
+        .pop() ?? null;
+
+    const gameUrls = pages.map(page => renderUrl({ loc: getPageUrl(page.entry), priority: "0.8", lastmod: page.lastmod }));
+
+    return `<?xml version="1.0" encoding="UTF-8"?>
+<urlset xmlns="http://www.sitemaps.org/schemas/sitemap/0.9">
+  <!-- Homepage -->
+${renderUrl({ loc: `${SITE_URL}/`, priority: "1.0", lastmod: newest })}
+
+  <!-- Game Pages -->
+${gameUrls.join("\n  \n")}
+</urlset>
+`;
+}
+
+export function renderRobots(): string {
+    return `User-agent: *
+Allow: /
+Disallow: /data/
+
+Sitemap: ${SITE_URL}/sitemap.xml
+`;
+}
@@ -0,0 +1,144 @@
+/**
+ * Max-staleness policy for LKG data
+ *
+ * When a provider fails, its last known good result is served as stale. How much to trust it
+ * depends on the type and its age: confidence decays step-wise with hours since the last
+ * success, upcoming events that already happened are dropped, and anything past the type's
+ * max age is dropped too (the page then shows "unavailable" instead of a misleading date).
+ * The same policy sets when a provider without fresh data escalates (see health.ts).
+ */
+
+import { Confidence, FreshResult, StaleResult } from "../types";
+
+export interface StalenessPolicy {
+    decay: Array<{ afterHours: number; confidence: Confidence }>;   // Ascending; confidence is a ceiling
+    maxAgeHours: number | null;     // Older LKG is dropped (null = never)
+    expirePast: boolean;            // Drop once nextEventUtc has passed (upcoming types)
+    escalateAfterHours: number;     // Max hours without fresh data before the run escalates
+}
+
+/**
+ * Policies by result type. Exact type first, then "<prefix>-*" patterns.
+ */
+const STALENESS_POLICIES: Record<string, StalenessPolicy> = {
+    "status": {
+        decay: [{ afterHours: 6, confidence: Confidence.Medium }, { afterHours: 24, confidence: Confidence.Low }],
+        maxAgeHours: 72,
+        expirePast: false,
+        escalateAfterHours: 12
+    },
+    "weekly-reset": {
+        decay: [{ afterHours: 24, confidence: Confidence.Medium }, { afterHours: 72, confidence: Confidence.Low }],
+        maxAgeHours: null,
+        expirePast: true,
+        escalateAfterHours: 48
+    },
+    "next-*": {
+        decay: [{ afterHours: 24, confidence: Confidence.Medium }, { afterHours: 72, confidence: Confidence.Low }],
+        maxAgeHours: 30 * 24,
+        expirePast: true,
+        escalateAfterHours: 48
+    },
+    "last-*": {
+        decay: [{ afterHours: 7 * 24, confidence: Confidence.Medium }, { afterHours: 30 * 24, confidence: Confidence.Low }],
+        maxAgeHours: 90 * 24,
+        expirePast: false,
+        escalateAfterHours: 96
+    }
+};
+
+const DEFAULT_POLICY: StalenessPolicy = {
+    decay: [{ afterHours: 48, confidence: Confidence.Medium }, { afterHours: 7 * 24, confidence: Confidence.Low }],
+    maxAgeHours: null,
+    expirePast: false,
+    escalateAfterHours: 72
+};
+
+const CONFIDENCE_RANK: Record<Confidence, number> = {
+    [Confidence.High]: 3,
+    [Confidence.Medium]: 2,
+    [Confidence.Low]: 1,
+    [Confidence.None]: 0
+};
+
+/**
+ * Order two confidences: negative when a is lower than b, 0 when equal, positive when higher
+ */
+export function compareConfidence(a: Confidence, b: Confidence): number {
+    return CONFIDENCE_RANK[a] - CONFIDENCE_RANK[b];
+}
+
+/**
+ * The lower of two confidences
+ */
+export function minConfidence(a: Confidence, b: Confidence): Confidence {
+    return CONFIDENCE_RANK[a] <= CONFIDENCE_RANK[b] ? a : b;
+}
+
+/**
+ * The higher of two confidences
+ */
+export function maxConfidence(a: Confidence, b: Confidence): Confidence {
+    return CONFIDENCE_RANK[a] >= CONFIDENCE_RANK[b] ? a : b;
+}
+
+export function getStalenessPolicy(type: string): StalenessPolicy {
+    if (STALENESS_POLICIES[type]) return STALENESS_POLICIES[type];
+    const prefix = type.split("-")[0];
+    return STALENESS_POLICIES[`${prefix}-*`] || DEFAULT_POLICY;
+}
+
+/**
+ * Whole hours since the last success
+ */
+export function getAgeHours(lastSuccessUtc: string, now: Date = new Date()): number {
+    return Math.max(0, Math.floor((now.getTime() - Date.parse(lastSuccessUtc)) / (60 * 60 * 1000)));
+}
+
+/**
+ * Lower confidence to the policy's ceiling for this age (never raises it)
+ */
+export function decayConfidence(confidence: Confidence, ageHours: number, policy: StalenessPolicy): Confidence {
+    let ceiling = Confidence.High;
+    for (const step of policy.decay) {
+        if (ageHours >= step.afterHours) ceiling = step.confidence;
+    }
+    return minConfidence(confidence, ceiling);
+}
+
+/**
+ * Why this LKG result may no longer be served, or null if it still can be
+ */
+export function getExpiry(lkg: FreshResult, now: Date = new Date()): string | null {
+    const policy = getStalenessPolicy(lkg.type);
+
+    if (policy.expirePast && Date.parse(lkg.nextEventUtc) <= now.getTime()) {
+        return `last known event (${lkg.nextEventUtc}) has already passed`;
+    }
+
+    const age = getAgeHours(lkg.fetched_at_utc, now);   // Becomes last_success_at_utc when served
+    if (policy.maxAgeHours !== null && age > policy.maxAgeHours) {
+        return `last known data is ${Math.floor(age / 24)} days old (max ${Math.floor(policy.maxAgeHours / 24)})`;
+    }
+
+    return null;
+}
+
+/**
+ * Stamp a stale result with its age and decay its (and its events') confidence
+ */
+export function applyStaleness(stale: StaleResult, now: Date = new Date()): StaleResult {
+    const policy = getStalenessPolicy(stale.type);
+    const age = getAgeHours(stale.last_success_at_utc, now);
+    const confidence = decayConfidence(stale.confidence, age, policy);
+
+    const result: StaleResult = { ...stale, age_hours: age, confidence };
+    if (confidence !== stale.confidence) {
+        result.original_confidence = stale.confidence;
+    }
+    if (stale.events) {
+        result.events = stale.events.map(event => ({ ...event, confidence: decayConfidence(event.confidence, age, policy) }));
+    }
+
+    return result;
+}
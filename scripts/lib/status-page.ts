@@ -0,0 +1,112 @@
+/**
+ * /status/ page rendering
+ *
+ * A static table of every catalog entry's health, built from status.json (see lib/run-log).
+ * Server-rendered so it works without JavaScript; noindex since it's an operator view.
+ */
+
+import { ProviderStatus, StatusReport } from "./run-log";
+import { escapeHtml } from "./prerender";
+
+const BADGES: Record<NonNullable<ProviderStatus["status"]>, { text: string; className: string }> = {
+    fresh: { text: "Live", className: "badge badge-live" },
+    stale: { text: "Cached", className: "badge badge-stale" },
+    unavailable: { text: "Unavailable", className: "badge badge-unavailable" }
+};
+
+/**
+ * "Jan 15, 2026, 12:00 UTC", or an em dash for never
+ */
+export function formatStatusTime(iso: string | null): string {
+    if (!iso) return "—";
+    return new Date(iso).toLocaleString("en-US", {
+        month: "short",
+        day: "numeric",
+        year: "numeric",
+        hour: "2-digit",
+        minute: "2-digit",
+        hourCycle: "h23",
+        timeZone: "UTC"
+    }) + " UTC";
+}
+
+function renderRow(provider: ProviderStatus): string {
+    const badge = provider.status ? BADGES[provider.status] : null;
+    const fetchMode = provider.fetch_mode
+        ? `${provider.fetch_mode}${provider.browser_sessions > 0 ? ` (${provider.browser_sessions} browser)` : ""}`
+        : "—";
+    const httpStatus = provider.http_status === null ? "—" : provider.http_status === 0 ? "no response" : String(provider.http_status);
+    const lastError = provider.last_error
+        ? `${escapeHtml(provider.last_error)}<br><span class="status-muted">${formatStatusTime(provider.last_error_at_utc)}</span>`
+        : "—";
+
+    return `          <tr data-game="${provider.id}" data-type="${provider.type}">
+            <td><a href="/${provider.path}/">${escapeHtml(provider.name)}</a><br><span class="status-muted">${provider.type}</span></td>
+            <td>${badge ? `<span class="${badge.className}">${badge.text}</span>` : "Not run"}</td>
+            <td class="status-num${provider.consecutive_failures > 0 ? " status-failing" : ""}">${provider.consecutive_failures}</td>
+            <td>${formatStatusTime(provider.last_success_at_utc)}</td>
+            <td>${fetchMode}</td>
+            <td>${httpStatus}</td>
+            <td class="status-error">${lastError}</td>
+          </tr>`;
+}
+
+/**
+ * Full HTML document for the status page (report null = no runs logged yet)
+ */
+export function renderStatusPage(report: StatusReport | null): string {
+    const run = report?.last_run ?? null;
+    const summary = run
+        ? `<p class="status-summary">Last run <code>${escapeHtml(run.run_id)}</code> finished ${formatStatusTime(run.finished_at_utc)}
+        · browser budget ${run.browser_budget.used}/${run.browser_budget.max} used
+        · ${report!.runs_logged} run(s) logged</p>`
+        : `<p class="status-summary">No runs recorded yet.</p>`;
+    const rows = report ? report.providers.map(renderRow).join("\n") : "";
+
+    return `<!DOCTYPE html>
+<html lang="en">
+<head>
+  <meta charset="UTF-8">
+  <meta name="viewport" content="width=device-width, initial-scale=1.0">
+  <meta name="robots" content="noindex">
+  <meta name="description" content="Health of every NextReset data source: last success, failures, fetch mode and errors.">
+  <title>Source Status - NextReset</title>
+  <link rel="icon" type="image/png" href="/favicon.png">
+  <style>
+    body{margin:0;background:#0b0f14;color:#e5e7eb;font-family:system-ui,-apple-system,sans-serif;min-height:100vh}
+    .container{max-width:980px;margin:0 auto;padding:22px}
+  </style>
+  <link rel="stylesheet" href="/assets/styles.v3.css">
+</head>
+<body>
+  <div class="container">
+    <a href="/" class="back-link">← Back to Home</a>
+    <h1 class="game-title">Source Status</h1>
+    ${summary}
+${rows ? `    <div class="status-table-wrap">
+      <table class="status-table">
+        <thead>
+          <tr>
+            <th>Game</th>
+            <th>Status</th>
+            <th>Failures</th>
+            <th>Last Success</th>
+            <th>Fetch</th>
+            <th>HTTP</th>
+            <th>Last Error</th>
+          </tr>
+        </thead>
+        <tbody>
+${rows}
+        </tbody>
+      </table>
+    </div>
+` : ""}
+    <footer>
+      <p>Failures = consecutive attempts without fresh data (skipped open-circuit runs don't count).${report ? ` Generated ${formatStatusTime(report.generated_at_utc)}.` : ""}</p>
+    </footer>
+  </div>
+</body>
+</html>
+`;
+}
@@ -0,0 +1,143 @@
+/**
+ * Steam news provider family
+ *
+ * Every Steam app's announcements are served keyless by the ISteamNews/GetNewsForApp API.
+ * Posts made as a "Patch Notes" event are tagged "patchnotes", which is how updates are told
+ * apart from events, sales and community posts (untagged posts fall back to their title).
+ * Used as a second source next to official sites, and as one-line "last-update" providers
+ * (see steamLastUpdate and the catalog).
+ */
+
+import { Confidence, Provider, ProviderMetadata } from "../types";
+import { fetchHtml } from "./fetch-layer";
+import { runSources, SourceReading } from "./consensus";
+
+export type SteamNewsKind = "update" | "event";
+
+export interface SteamNewsItem {
+    title: string;
+    url: string;
+    published: Date;
+    tags: string[];
+    kind: SteamNewsKind;
+    version?: string;           // Build/patch identifier from the title, updates only
+}
+
+/** The parts of a GetNewsForApp response read here; everything else is ignored */
+interface SteamNewsResponse {
+    appnews?: { newsitems?: unknown[] };
+}
+
+export const STEAM_NEWS_COUNT = 20;
+
+const PATCH_NOTES_TAG = "patchnotes";
+const UPDATE_TITLE = /\b(update|patch|hotfix|release notes|changelog)(e?s)?\b/i;
+
+// "Update 39.2", "Patch 7.38c", "Title Update #9", "v1.2.3", "Build 21234567" (not "Update 1/13")
+const KEYWORD_VERSION = /\b(?:version|patch|update|hotfix|build|v)\s*#?\s*(\d+(?:\.\d+)*[a-z]?)\b(?![/.\d])/i;
+// "7.38c Gameplay Update", "Patch Notes 12.00"
+const BARE_VERSION = /\b(\d+\.\d+(?:\.\d+)*[a-z]?)\b(?![/.\d])/i;
+
+export function getSteamNewsUrl(appId: number): string {
+    return `https://api.steampowered.com/ISteamNews/GetNewsForApp/v2/?appid=${appId}&count=${STEAM_NEWS_COUNT}&feeds=steam_community_announcements`;
+}
+
+/**
+ * Update or event: the "patchnotes" tag wins, otherwise the title decides
+ */
+export function classifySteamNews(title: string, tags: string[]): SteamNewsKind {
+    if (tags.includes(PATCH_NOTES_TAG)) return "update";
+    return UPDATE_TITLE.test(title) ? "update" : "event";
+}
+
+/**
+ * Build/patch identifier in a title ("39.2", "7.38c", "21234567"), or null
+ */
+export function extractVersion(title: string): string | null {
+    const match = title.match(KEYWORD_VERSION) || title.match(BARE_VERSION);
+    return match ? match[1] : null;
+}
+
+/**
+ * Parse a GetNewsForApp response, newest first. Throws on a response without items.
+ */
+export function parseSteamNews(jsonText: string): SteamNewsItem[] {
+    let data: SteamNewsResponse | null;
+    try {
+        data = JSON.parse(jsonText) as SteamNewsResponse | null;
+    } catch {
+        throw new Error("Invalid JSON in Steam news response");
+    }
+
+    const raw = data?.appnews?.newsitems;
+    if (!Array.isArray(raw) || raw.length === 0) {
+        throw new Error("No items in Steam news response");
+    }
+
+    const items = raw.flatMap((entry: unknown): SteamNewsItem[] => {
+        if (typeof entry !== "object" || entry === null) return [];
+        const item = entry as Record<string, unknown>;
+
+        // Unix seconds
+        const published = typeof item.date === "number" ? new Date(item.date * 1000) : null;
+        if (!published || isNaN(published.getTime())) return [];
+
+        const title = typeof item.title === "string" ? item.title.trim() : "";
+        const url = typeof item.url === "string" ? item.url : "";
+        const tags = Array.isArray(item.tags) ? item.tags.map(String) : [];
+        const kind = classifySteamNews(title, tags);
+
+        const parsed: SteamNewsItem = { title, url, published, tags, kind };
+        const version = kind === "update" ? extractVersion(title) : null;
+        if (version) parsed.version = version;
+        return [parsed];
+    });
+
+    return items.sort((a, b) => b.published.getTime() - a.published.getTime());
+}
+
+/**
+ * Fetch and parse an app's news
+ */
+export async function fetchSteamNews(appId: number, providerId?: string): Promise<{ items: SteamNewsItem[]; status: number; url: string }> {
+    const url = getSteamNewsUrl(appId);
+    const response = await fetchHtml(url, { providerId, headers: { "Accept": "application/json" } });
+    if (!response.ok) {
+        throw new Error(`Steam news HTTP ${response.status}`);
+    }
+
+    return { items: parseSteamNews(response.text), status: response.status, url };
+}
+
+/**
+ * The app's newest update as a consensus source reading. Tagged patch notes are High confidence,
+ * title matches Medium.
+ */
+export async function readSteamNews(appId: number, providerId: string): Promise<SourceReading> {
+    const { items, status } = await fetchSteamNews(appId, providerId);
+
+    const latest = items.find(item => item.kind === "update");
+    if (!latest) {
+        throw new Error("No updates in Steam news");
+    }
+
+    const reading: SourceReading = {
+        nextEventUtc: latest.published.toISOString(),
+        source_url: latest.url || `https://store.steampowered.com/news/app/${appId}`,
+        confidence: latest.tags.includes(PATCH_NOTES_TAG) ? Confidence.High : Confidence.Medium,
+        notes: latest.title,
+        fetch_mode: "http",
+        http_status: status
+    };
+    if (latest.version) reading.version = latest.version;
+
+    return reading;
+}
+
+/**
+ * One-line "last-update" provider for a game whose updates are announced on Steam
+ */
+export function steamLastUpdate(game: string, name: string, appId: number): Provider {
+    const meta: ProviderMetadata = { provider_id: game, game, type: "last-update", title: `${name} Last Update` };
+    return () => runSources(meta, [{ name: "Steam news", read: () => readSteamNews(appId, game) }]);
+}
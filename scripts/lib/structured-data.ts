@@ -0,0 +1,56 @@
+/**
+ * schema.org JSON-LD for game pages
+ *
+ * Upcoming types (next-*, weekly-reset) describe the event itself as an `Event`; last-* and
+ * status pages describe the game as a `SoftwareApplication` whose dateModified is the last
+ * update. Nothing is emitted without fresh data (stale or unavailable results) - stale
+ * markup is worse than none.
+ */
+
+import { ProviderResult } from "../types";
+import { CatalogEntry, getPageUrl } from "../catalog";
+import { isUpcomingType } from "./changes";
+
+export function buildJsonLd(entry: CatalogEntry, result: ProviderResult | null, imageUrl: string): Record<string, unknown> | null {
+    if (!result || result.status !== "fresh") return null;
+
+    const url = getPageUrl(entry);
+    const name = `${entry.name} ${entry.typeTitle}`;
+
+    if (isUpcomingType(entry.type)) {
+        const current = result.events?.find(event => event.start === result.nextEventUtc || event.end === result.nextEventUtc);
+        return {
+            "@context": "https://schema.org",
+            "@type": "Event",
+            name: current && current.label !== name ? `${entry.name}: ${current.label}` : name,
+            description: result.notes || `${name} from official sources`,
+            startDate: current?.start || result.nextEventUtc,
+            ...(current?.end ? { endDate: current.end } : {}),
+            eventStatus: "https://schema.org/EventScheduled",
+            eventAttendanceMode: "https://schema.org/OnlineEventAttendanceMode",
+            location: { "@type": "VirtualLocation", url },
+            image: [imageUrl],
+            url,
+            about: { "@type": "VideoGame", name: entry.name }
+        };
+    }
+
+    return {
+        "@context": "https://schema.org",
+        "@type": "SoftwareApplication",
+        name: entry.name,
+        applicationCategory: "GameApplication",
+        dateModified: result.nextEventUtc,
+        ...(result.notes ? { description: result.notes } : {}),
+        releaseNotes: result.source_url,
+        image: imageUrl,
+        url
+    };
+}
+
+/**
+ * <script type="application/ld+json"> body, safe to inline
+ */
+export function renderJsonLd(data: Record<string, unknown>): string {
+    return JSON.stringify(data, null, 2).replace(/</g, "\\u003c");
+}
@@ -0,0 +1,270 @@
+/**
+ * Runtime validation of provider output
+ *
+ * Checks the FreshResult / StaleResult / UnavailableResult unions field by field, including
+ * ISO formats, per-type plausibility windows for nextEventUtc and known extension fields.
+ * Anything invalid is downgraded to ParseFailed by the orchestrator and never reaches _lkg.
+ */
+
+import { Confidence, FailureType, ProviderResult } from "../types";
+
+export interface ValidationIssue {
+    path: string;
+    message: string;
+}
+
+export interface ValidateOptions {
+    expected?: { game: string; type: string };
+    checkPlausibility?: boolean;   // Default true; off for old-but-valid LKG reads
+    now?: Date;
+}
+
+interface PlausibilityWindow {
+    pastDays: number;
+    futureDays: number;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Allowed distance of nextEventUtc from "now", by result type.
+ * Exact type first, then "<prefix>-*" patterns.
+ */
+const PLAUSIBILITY_WINDOWS: Record<string, PlausibilityWindow> = {
+    "weekly-reset": { pastDays: 1, futureDays: 8 },
+    "status": { pastDays: 90, futureDays: 1 },
+    "next-*": { pastDays: 2, futureDays: 730 },
+    "last-*": { pastDays: 730, futureDays: 1 }
+};
+
+const DEFAULT_WINDOW: PlausibilityWindow = { pastDays: 730, futureDays: 730 };
+
+const BASE_FIELDS = new Set([
+    "provider_id", "game", "type", "title", "status", "fetched_at_utc", "http_status", "fetch_mode",
+    "nextEventUtc", "source_url", "confidence", "notes", "last_success_at_utc", "reason",
+    "failure_type", "explanation", "source_timezone", "precision", "regions", "default_region", "events",
+    "recurrence", "age_hours", "original_confidence", "version", "service_status"
+]);
+
+export const PRECISIONS = ["second", "minute", "hour", "day", "month"];
+
+type FieldCheck = (value: unknown) => string | null;
+
+const RRULE_PATTERN = /^FREQ=(DAILY|WEEKLY|MONTHLY|YEARLY)(;[A-Z]+=[A-Z0-9,+-]+)*$/;
+const ISO_PATTERN = /^\d{4}-\d{2}-\d{2}T\d{2}:\d{2}:\d{2}(\.\d{1,3})?(Z|[+-]\d{2}:\d{2})$/;
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+const isString: FieldCheck = v => typeof v === "string" ? null : "must be a string";
+const isIsoOrNull: FieldCheck = v => v === null ? null : checkIso(v);
+const isDateOrNull: FieldCheck = v => v === null || (typeof v === "string" && DATE_PATTERN.test(v)) ? null : "must be YYYY-MM-DD or null";
+const isStringOrNull: FieldCheck = v => v === null || typeof v === "string" ? null : "must be a string or null";
+
+/**
+ * Known provider extension fields (spread in as "custom fields")
+ */
+const EXTENSION_FIELDS: Record<string, FieldCheck> = {
+    currentSeasonEnds: isDateOrNull,
+    nextSeasonStart: isIsoOrNull,
+    nextSeasonEstimate: isDateOrNull,
+    nextSeasonEstimateFriendly: isStringOrNull,
+    sourceName: isString,
+    provider: isString
+};
+
+function checkIso(value: unknown): string | null {
+    if (typeof value !== "string" || !ISO_PATTERN.test(value) || isNaN(Date.parse(value))) {
+        return `must be an ISO 8601 timestamp (got ${JSON.stringify(value)})`;
+    }
+    return null;
+}
+
+function checkNonEmpty(value: unknown): string | null {
+    return typeof value === "string" && value.trim().length > 0 ? null : "must be a non-empty string";
+}
+
+function checkUrl(value: unknown): string | null {
+    if (typeof value !== "string") return "must be a URL string";
+    try {
+        const url = new URL(value);
+        return url.protocol === "http:" || url.protocol === "https:" ? null : "must be an http(s) URL";
+    } catch {
+        return `must be an absolute URL (got ${JSON.stringify(value)})`;
+    }
+}
+
+function checkEnum<T extends string>(values: T[]): FieldCheck {
+    return v => values.includes(v as T) ? null : `must be one of ${values.join(", ")}`;
+}
+
+/**
+ * Fields of a nested object, or none for anything else
+ */
+function fieldsOf(value: unknown): Record<string, unknown> {
+    return typeof value === "object" && value !== null ? value as Record<string, unknown> : {};
+}
+
+/**
+ * Values must survive a JSON round-trip unchanged (no Date objects, NaN, functions...)
+ */
+function checkJsonSafe(value: unknown): string | null {
+    if (value === null || typeof value === "string" || typeof value === "boolean") return null;
+    if (typeof value === "number") return Number.isFinite(value) ? null : "must be a finite number";
+    if (Array.isArray(value)) {
+        for (const item of value) {
+            const issue = checkJsonSafe(item);
+            if (issue) return issue;
+        }
+        return null;
+    }
+    if (typeof value === "object" && Object.getPrototypeOf(value) === Object.prototype) {
+        for (const item of Object.values(value as Record<string, unknown>)) {
+            const issue = checkJsonSafe(item);
+            if (issue) return issue;
+        }
+        return null;
+    }
+    return `must be JSON-serializable (got ${typeof value})`;
+}
+
+export function getPlausibilityWindow(type: string): PlausibilityWindow {
+    if (PLAUSIBILITY_WINDOWS[type]) return PLAUSIBILITY_WINDOWS[type];
+    const prefix = type.split("-")[0];
+    return PLAUSIBILITY_WINDOWS[`${prefix}-*`] || DEFAULT_WINDOW;
+}
+
+/**
+ * Validate a provider result. Returns an empty array when valid.
+ */
+export function validateResult(result: unknown, options: ValidateOptions = {}): ValidationIssue[] {
+    const issues: ValidationIssue[] = [];
+    const check = (path: string, issue: string | null) => {
+        if (issue) issues.push({ path, message: issue });
+    };
+
+    if (!result || typeof result !== "object" || Array.isArray(result)) {
+        return [{ path: "", message: "must be an object" }];
+    }
+
+    const r = result as Record<string, any>;
+
+    check("status", checkEnum(["fresh", "stale", "unavailable"])(r.status));
+    check("provider_id", checkNonEmpty(r.provider_id));
+    check("game", checkNonEmpty(r.game));
+    check("type", checkNonEmpty(r.type));
+    check("title", checkNonEmpty(r.title));
+    check("fetched_at_utc", checkIso(r.fetched_at_utc));
+
+    if (r.http_status !== undefined) {
+        check("http_status", Number.isInteger(r.http_status) && r.http_status >= 100 && r.http_status <= 599 ? null : "must be an HTTP status code");
+    }
+    if (r.fetch_mode !== undefined) {
+        check("fetch_mode", checkEnum(["http", "browser"])(r.fetch_mode));
+    }
+
+    if (options.expected) {
+        if (r.game !== options.expected.game) check("game", `must be "${options.expected.game}"`);
+        if (r.type !== options.expected.type) check("type", `must be "${options.expected.type}"`);
+    }
+
+    if (r.status === "fresh" || r.status === "stale") {
+        check("nextEventUtc", checkIso(r.nextEventUtc));
+        check("source_url", checkUrl(r.source_url));
+        check("confidence", checkEnum(Object.values(Confidence))(r.confidence));
+        check("last_success_at_utc", checkIso(r.last_success_at_utc));
+        if (r.notes !== undefined) check("notes", isString(r.notes));
+        if (r.version !== undefined) check("version", checkNonEmpty(r.version));
+        if (r.service_status !== undefined) check("service_status", checkNonEmpty(r.service_status));
+        if (r.status === "stale") {
+            check("reason", isString(r.reason));
+            if (r.age_hours !== undefined) check("age_hours", Number.isInteger(r.age_hours) && r.age_hours >= 0 ? null : "must be a non-negative integer");
+            if (r.original_confidence !== undefined) check("original_confidence", checkEnum(Object.values(Confidence))(r.original_confidence));
+        }
+
+        if (r.source_timezone !== undefined) check("source_timezone", checkNonEmpty(r.source_timezone));
+        if (r.precision !== undefined) check("precision", checkEnum(PRECISIONS)(r.precision));
+        if (r.regions !== undefined) {
+            if (!Array.isArray(r.regions)) {
+                check("regions", "must be an array");
+            } else {
+                r.regions.forEach((entry: unknown, i: number) => {
+                    const region = fieldsOf(entry);
+                    check(`regions[${i}].region`, checkNonEmpty(region.region));
+                    check(`regions[${i}].label`, checkNonEmpty(region.label));
+                    check(`regions[${i}].utc`, checkIso(region.utc));
+                    check(`regions[${i}].timezone`, checkNonEmpty(region.timezone));
+                });
+            }
+        }
+        if (r.default_region !== undefined) {
+            const known = Array.isArray(r.regions) && r.regions.some((entry: unknown) => fieldsOf(entry).region === r.default_region);
+            check("default_region", known ? null : "must match one of regions[].region");
+        }
+
+        if (r.events !== undefined) {
+            if (!Array.isArray(r.events)) {
+                check("events", "must be an array");
+            } else {
+                let previous = -Infinity;
+                r.events.forEach((entry: unknown, i: number) => {
+                    const event = fieldsOf(entry);
+                    check(`events[${i}].label`, checkNonEmpty(event.label));
+                    check(`events[${i}].start`, isIsoOrNull(event.start));
+                    if (event.end !== undefined) check(`events[${i}].end`, isIsoOrNull(event.end));
+                    check(`events[${i}].confidence`, checkEnum(Object.values(Confidence))(event.confidence));
+
+                    const bound = event.start || event.end;
+                    const at = typeof bound === "string" ? Date.parse(bound) : NaN;
+                    if (isNaN(at)) {
+                        check(`events[${i}]`, "must have a start or end");
+                    } else if (at < previous) {
+                        check(`events[${i}]`, "must be in chronological order");
+                    } else {
+                        previous = at;
+                    }
+                });
+            }
+        }
+
+        if (r.recurrence !== undefined) {
+            check("recurrence", typeof r.recurrence === "string" && RRULE_PATTERN.test(r.recurrence) ? null : "must be an RRULE, e.g. FREQ=WEEKLY;BYDAY=TH");
+        }
+
+        const eventIssue = checkIso(r.nextEventUtc);
+        if (!eventIssue && options.checkPlausibility !== false && typeof r.type === "string") {
+            const now = (options.now || new Date()).getTime();
+            const event = Date.parse(r.nextEventUtc);
+            const window = getPlausibilityWindow(r.type);
+
+            if (event < now - window.pastDays * DAY_MS || event > now + window.futureDays * DAY_MS) {
+                check("nextEventUtc", `${r.nextEventUtc} is outside the plausible window for "${r.type}" (-${window.pastDays}d / +${window.futureDays}d)`);
+            }
+        }
+    } else if (r.status === "unavailable") {
+        check("nextEventUtc", r.nextEventUtc === null ? null : "must be null");
+        check("failure_type", checkEnum(Object.values(FailureType))(r.failure_type));
+        check("explanation", isString(r.explanation));
+    }
+
+    // Extension fields: known ones are type-checked, unknown ones must at least be JSON-safe
+    for (const [key, value] of Object.entries(r)) {
+        if (BASE_FIELDS.has(key) || value === undefined) continue;   // undefined is dropped by JSON
+        const known = EXTENSION_FIELDS[key];
+        check(key, known ? known(value) : checkJsonSafe(value));
+    }
+
+    return issues;
+}
+
+/**
+ * One-line description of validation issues
+ */
+export function formatIssues(issues: ValidationIssue[]): string {
+    return issues.map(issue => issue.path ? `${issue.path} ${issue.message}` : issue.message).join("; ");
+}
+
+/**
+ * Type guard for callers that only need a yes/no
+ */
+export function isValidResult(result: unknown, options: ValidateOptions = {}): result is ProviderResult {
+    return validateResult(result, options).length === 0;
+}
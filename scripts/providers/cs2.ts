@@ -1,14 +1,15 @@
 /**
  * Counter-Strike 2 Last Patch Provider
  * 
- * Primary: Official CS2 Updates Page (Browser)
- * Fallback: Steam RSS Feed (HTTP)
+ * Sources (consensus, see lib/consensus):
+ * 1. Official CS2 Updates Page (Browser)
+ * 2. Steam news API (HTTP)
  */
 
-import * as cheerio from "cheerio";
-import { FailureType, Confidence, ProviderResult, ProviderMetadata } from "../types";
-import { fetchHtml, withBrowserPage, getBrowserBudgetRemaining, sleep } from "../lib/fetch-layer";
-import { XMLParser } from "fast-xml-parser";
+import { Confidence, ProviderResult, ProviderMetadata } from "../types";
+import { readScraper, ScraperSpec } from "../lib/scraper";
+import { runSources, ProviderSource } from "../lib/consensus";
+import { readSteamNews } from "../lib/steam";
 
 const META: ProviderMetadata = {
     provider_id: "cs2",
@@ -17,140 +18,27 @@ const META: ProviderMetadata = {
     title: "Counter-Strike 2 Last Update"
 };
 
-export async function run(): Promise<ProviderResult> {
-    // Try Official Site (Browser) first
-    if (getBrowserBudgetRemaining() > 0) {
-        try {
-            return await withBrowserPage(async (page) => {
-                const url = "https://www.counter-strike.net/news/updates";
-                console.log("[CS2] Navigating to official site...");
-
-                await page.goto(url, { waitUntil: 'domcontentloaded', timeout: 30000 });
-
-                // Don't strict wait for selectors, updates page lists are sometimes static or simple
-                // Just wait a moment for any hydration
-                await sleep(3000);
-
-                const content = await page.content();
-                const $ = cheerio.load(content);
-
-                let latestDate: Date | null = null;
-                let latestTitle = "";
-                let latestUrl = url;
-
-                // Structure on counter-strike.net is often:
-                // <div class="blog_post"> ... <div class="date">...</div> ... </div>
-                // OR just look for the first text that looks like a date.
-                // The page is usually chronological.
-
-                // Strategy: Find all dates, take the most recent (which should be the first)
-
-                // Try specific selectors first just in case
-                const candidates = $('.blog_post, .release_notes_post, a[href*="/news/entry/"]');
-
-                candidates.each((_, elem) => {
-                    if (latestDate) return;
-
-                    const $el = $(elem);
-                    const dateText = $el.find('.date').text() || $el.find('time').text();
-                    const titleText = $el.find('.title').text() || $el.text().slice(0, 50);
-
-                    if (dateText) {
-                        const d = new Date(dateText);
-                        if (!isNaN(d.getTime())) {
-                            latestDate = d;
-                            latestTitle = titleText.trim();
-                            const href = $el.find('a').attr('href');
-                            if (href) latestUrl = href;
-                        }
-                    }
-                });
-
-                // Fallback: Scan text for dates if selectors failed
-                if (!latestDate) {
-                    const text = $('body').text();
-                    // Match "Release Notes for 11/13/2023" or "2023.11.13" or "November 13, 2023"
-                    const match = text.match(/([A-Z][a-z]+ \d{1,2}, \d{4})/);
-                    if (match) {
-                        latestDate = new Date(match[1]);
-                        latestTitle = "Counter-Strike 2 Update";
-                    }
-                }
-
-                if (!latestDate) {
-                    throw new Error("Could not find any dated articles on CS2 official page");
-                }
-
-                const finalDate = latestDate as unknown as Date;
-
-                return {
-                    ...META,
-                    status: "fresh",
-                    nextEventUtc: finalDate.toISOString(),
-                    fetched_at_utc: new Date().toISOString(),
-                    source_url: latestUrl,
-                    confidence: Confidence.High,
-                    fetch_mode: "browser",
-                    notes: latestTitle,
-                    last_success_at_utc: new Date().toISOString()
-                };
-            });
-        } catch (error) {
-            console.warn(`[CS2] Official site fetch failed... Falling back to RSS.`);
-            // Fall through to RSS
-        }
-    } else {
-        console.log(`[CS2] Browser budget low, skipping official site. Using RSS fallback.`);
-    }
-
-    // Fallback: Steam RSS
-    const rssUrl = "https://store.steampowered.com/feeds/news/app/730/?l=english";
-    try {
-        const response = await fetchHtml(rssUrl);
-        if (!response.ok) {
-            throw new Error(`RSS HTTP ${response.status}`);
-        }
-
-        const parser = new XMLParser({ ignoreAttributes: false });
-        const xml = parser.parse(response.text);
-
-        // RSS structure: rss -> channel -> item[]
-        const items = xml?.rss?.channel?.item;
-        if (!Array.isArray(items) || items.length === 0) {
-            throw new Error("Invalid RSS feed format");
-        }
-
-        // Find first item that is an Update (ignore generic community announcements if possible)
-        // Steam news includes "events", etc.
-        // We look for "Update" or "Patch" in title
-
-        let latestEntry = items.find((item: any) =>
-            /Update/i.test(item.title) || /Patch/i.test(item.title) || /Release Notes/i.test(item.title)
-        );
-
-        // If no strict update found, take the very first item as it's likely news
-        if (!latestEntry) {
-            latestEntry = items[0];
-        }
-
-        const pubDate = new Date(latestEntry.pubDate);
-        if (isNaN(pubDate.getTime())) {
-            throw new Error("Invalid date in RSS item");
-        }
+const STEAM_APP_ID = 730;
+
+// The updates page renders client-side: <div class="blog_post"> ... <div class="date">...</div>, newest first
+const OFFICIAL_SITE: ScraperSpec = {
+    meta: META,
+    url: "https://www.counter-strike.net/news/updates",
+    items: '.blog_post, .release_notes_post, a[href*="/news/entry/"]',
+    title: [".title", "self"],
+    date: [{ element: ".date" }, { element: "time" }],
+    link: "a",
+    pick: "first",
+    browser: "only",
+    confidence: Confidence.High,
+    error: "Could not find any dated articles on CS2 official page"
+};
 
-        return {
-            ...META,
-            status: "fresh",
-            nextEventUtc: pubDate.toISOString(),
-            fetched_at_utc: new Date().toISOString(),
-            last_success_at_utc: new Date().toISOString(), // Fresh = now
-            source_url: latestEntry.link || rssUrl,
-            confidence: Confidence.High,
-            notes: latestEntry.title,
-            fetch_mode: "http"
-        };
+const SOURCES: ProviderSource[] = [
+    { name: "Official site", read: () => readScraper(OFFICIAL_SITE) },
+    { name: "Steam news", read: () => readSteamNews(STEAM_APP_ID, META.provider_id) }
+];
 
-    } catch (error) {
-        throw error;
-    }
+export async function run(): Promise<ProviderResult> {
+    return runSources(META, SOURCES);
 }
@@ -5,7 +5,8 @@
  */
 
 import { FailureType, Confidence, ProviderResult, ProviderMetadata } from "../types";
-import { fetchHtml, withBrowserPage } from "../lib/fetch-layer";
+import { fetchHtml } from "../lib/fetch-layer";
+import { parseDate, calendarDate } from "../lib/dates";
 
 const META: ProviderMetadata = {
     provider_id: "fortnite",
@@ -16,12 +17,6 @@ const META: ProviderMetadata = {
 
 const SOURCE_URL = "https://www.fortnite.com/battle-pass";
 
-// Months map for deterministic parsing
-const MONTH_MAP: Record<string, number> = {
-    'january': 0, 'february': 1, 'march': 2, 'april': 3, 'may': 4, 'june': 5,
-    'july': 6, 'august': 7, 'september': 8, 'october': 9, 'november': 10, 'december': 11
-};
-
 export async function run(): Promise<ProviderResult> {
     try {
         console.log(`[Fortnite] Fetching ${SOURCE_URL}...`);
@@ -49,7 +44,7 @@ export async function run(): Promise<ProviderResult> {
                 .trim();
         }
 
-        const regex = /Ends(?:\s+on)?[:\s]+([A-Z][a-z]+\s+\d{1,2},\s+\d{4})(?:\s+(Eastern\s+Time|ET))?/i;
+        const regex = /Ends(?:\s+on)?[:\s]+([A-Z][a-z]+\s+\d{1,2},\s+\d{4})(?:\s+(Eastern\s+Time|ET|Pacific\s+Time|PT|UTC))?/i;
         const match = text.match(regex);
 
         if (!match) {
@@ -57,37 +52,25 @@ export async function run(): Promise<ProviderResult> {
         }
 
         const matchedText = match[0];
-        const datePart = match[1];
-        const isET = !!match[2];
-
         console.log(`[Fortnite] Matched text: "${matchedText}"`);
 
-        // Deterministic Parsing
-        const dateMatch = datePart.match(/([A-Z][a-z]+)\s+(\d{1,2}),\s+(\d{4})/i);
-        if (!dateMatch) {
-            throw new Error(`Failed to parse date parts from: ${datePart}`);
-        }
-
-        const monthName = dateMatch[1].toLowerCase();
-        const day = parseInt(dateMatch[2], 10);
-        const year = parseInt(dateMatch[3], 10);
-        const monthIndex = MONTH_MAP[monthName];
-
-        if (monthIndex === undefined) {
-            throw new Error(`Unknown month: ${monthName}`);
+        // "Eastern Time" anchors the end date at midnight ET rather than UTC
+        const parsed = parseDate(matchedText);
+        if (!parsed) {
+            throw new Error(`Failed to parse date from: ${matchedText}`);
         }
 
-        // Construct date at midnight UTC for stability
-        const seasonEndDate = new Date(Date.UTC(year, monthIndex, day, 0, 0, 0));
-        const dateStr = seasonEndDate.toISOString().split('T')[0];
+        const seasonEndDate = parsed.date;
+        const dateStr = calendarDate(parsed);
 
         // Calculate next season estimate (End + 1)
-        const nextSeasonEstimate = new Date(seasonEndDate);
-        nextSeasonEstimate.setUTCDate(seasonEndDate.getUTCDate() + 1);
+        const nextSeasonEstimate = new Date(`${dateStr}T00:00:00.000Z`);
+        nextSeasonEstimate.setUTCDate(nextSeasonEstimate.getUTCDate() + 1);
         const nextSeasonEstimateStr = nextSeasonEstimate.toISOString().split('T')[0];
         const nextSeasonEstimateFriendly = nextSeasonEstimate.toLocaleDateString('en-US', {
-            month: 'long', day: 'numeric', year: 'numeric'
+            month: 'long', day: 'numeric', year: 'numeric', timeZone: 'UTC'
         });
+        const nextSeasonStartEstimate = parseDate(nextSeasonEstimateStr, { timezone: parsed.timezone });
 
         // Return FRESH result
         // Orchestrator handles writing to _lkg
@@ -101,11 +84,20 @@ export async function run(): Promise<ProviderResult> {
             confidence: Confidence.High,
             http_status: response.status,
             fetch_mode: response.mode,
+            source_timezone: parsed.timezone,
+            precision: parsed.precision,
+            events: [
+                { label: "Season ends", start: seasonEndDate.toISOString(), confidence: Confidence.High },
+                ...(nextSeasonStartEstimate ? [{
+                    label: "Next season starts (estimated)",
+                    start: nextSeasonStartEstimate.date.toISOString(),
+                    confidence: Confidence.Low
+                }] : [])
+            ],
 
             // Custom fields (preserved in type assertion)
             ...{
                 currentSeasonEnds: dateStr,
-                timezone: isET ? "America/New_York" : null,
                 nextSeasonStart: null,
                 nextSeasonEstimate: nextSeasonEstimateStr,
                 nextSeasonEstimateFriendly: nextSeasonEstimateFriendly,
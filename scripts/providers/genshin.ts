@@ -7,6 +7,7 @@
 import * as cheerio from "cheerio";
 import { FailureType, Confidence, ProviderResult, ProviderMetadata } from "../types";
 import { fetchHtml } from "../lib/fetch-layer";
+import { parseDate, regionalTimes, ParsedDate } from "../lib/dates";
 
 const META: ProviderMetadata = {
     provider_id: "genshin",
@@ -15,6 +16,14 @@ const META: ProviderMetadata = {
     title: "Genshin Impact Next Banner End"
 };
 
+// Banners end at the same "server time" on every server; nextEventUtc uses Asia (the earliest)
+const SERVERS = [
+    { region: "asia", label: "Asia / TW, HK, MO", timezone: "UTC+8" },
+    { region: "europe", label: "Europe", timezone: "UTC+1" },
+    { region: "america", label: "America", timezone: "UTC-5" }
+];
+const DEFAULT_SERVER = SERVERS[0];
+
 export async function run(): Promise<ProviderResult> {
     const url = "https://genshin.hoyoverse.com/en/news";
 
@@ -30,7 +39,8 @@ export async function run(): Promise<ProviderResult> {
 
         const finalListingUrl = response.url || url;
         const now = new Date();
-        let bannerEndDate: Date | null = null;
+        let bannerEnd: ParsedDate | null = null;
+        let bannerStart: ParsedDate | null = null;
         let bannerName = "";
         let articleUrl: string | null = null;
 
@@ -64,32 +74,24 @@ export async function run(): Promise<ProviderResult> {
                 const artText = $art("article, .article-body, main, #main-content").text() || $art("body").text();
 
                 // Look for explicit end time in the article body
-                // Often looks like "Event End Time: 2024/01/30 14:59:59"
+                // Often looks like "Event End Time: 2024/01/30 14:59:59 (server time)"
                 const endPatterns = [
-                    /End\s+Time[:\s]+(\d{4}[\/\-]\d{2}[\/\-]\d{2}\s+\d{2}:\d{2}:\d{2})/i,
-                    /End\s+Time[:\s]+(\d{4}[\/\-]\d{2}[\/\-]\d{2}\s+\d{2}:\d{2})/i,
-                    /until\s+(\d{4}[\/\-]\d{2}[\/\-]\d{2}\s+\d{2}:\d{2}:\d{2})/i,
-                    /(\d{4}[\/\-]\d{2}[\/\-]\d{2}\s+\d{2}:\d{2}:\d{2})/
+                    /End\s+Time[:\s]+([^\n]+)/i,
+                    /until\s+([^\n]+)/i,
+                    /(\d{4}[\/\-]\d{2}[\/\-]\d{2}\s+\d{2}:\d{2}:\d{2}[^\n]*)/
                 ];
 
+                // Start is often "After the Version X.Y update" (no date), so it may stay null
+                const startMatch = artText.match(/Start\s+Time[:\s]+([^\n]+)/i);
+                bannerStart = startMatch ? parseDate(startMatch[1], { now, timezone: DEFAULT_SERVER.timezone, serverTimezone: DEFAULT_SERVER.timezone }) : null;
+
                 for (const pattern of endPatterns) {
                     const match = artText.match(pattern);
-                    if (match) {
-                        const dateStr = match[1].replace(/\//g, '-');
-                        const date = new Date(dateStr);
-
-                        if (!isNaN(date.getTime())) {
-                            // Date Validation Guardrail
-                            const twoYearsAgo = new Date();
-                            twoYearsAgo.setFullYear(now.getFullYear() - 2);
-                            const twoYearsFuture = new Date();
-                            twoYearsFuture.setFullYear(now.getFullYear() + 2);
-
-                            if (date > now && date <= twoYearsFuture) {
-                                bannerEndDate = date;
-                                break;
-                            }
-                        }
+                    const parsed = match ? parseDate(match[1], { now, timezone: DEFAULT_SERVER.timezone, serverTimezone: DEFAULT_SERVER.timezone }) : null;
+
+                    if (parsed && parsed.date > now) {
+                        bannerEnd = parsed;
+                        break;
                     }
                 }
                 // Update articleUrl to final URL
@@ -97,20 +99,30 @@ export async function run(): Promise<ProviderResult> {
             }
         }
 
-        if (!bannerEndDate) {
+        if (!bannerEnd) {
             throw new Error(`Could not extract explicit banner end date from Genshin news. Source: ${articleUrl || finalListingUrl}`);
         }
 
         return {
             ...META,
             status: "fresh",
-            nextEventUtc: bannerEndDate.toISOString(),
+            nextEventUtc: bannerEnd.date.toISOString(),
             fetched_at_utc: now.toISOString(),
             last_success_at_utc: now.toISOString(),
             source_url: articleUrl || finalListingUrl,
             confidence: Confidence.Medium,
             http_status: response.status,
             fetch_mode: response.mode,
+            source_timezone: bannerEnd.timezone,
+            precision: bannerEnd.precision,
+            regions: regionalTimes(bannerEnd, SERVERS),
+            default_region: DEFAULT_SERVER.region,
+            events: [{
+                label: bannerName || "Event Wish",
+                start: bannerStart ? bannerStart.date.toISOString() : null,
+                end: bannerEnd.date.toISOString(),
+                confidence: Confidence.Medium
+            }],
             notes: bannerName || undefined
         };
     } catch (error) {
@@ -14,6 +14,9 @@ const META: ProviderMetadata = {
     title: "GTA Online Weekly Reset"
 };
 
+const UPCOMING_RESETS = 4;
+const WEEK_MS = 7 * 24 * 60 * 60 * 1000;
+
 export async function run(): Promise<ProviderResult> {
     try {
         const now = new Date();
@@ -45,6 +48,12 @@ export async function run(): Promise<ProviderResult> {
             last_success_at_utc: now.toISOString(),
             source_url: "https://www.rockstargames.com/gta-online",
             confidence: Confidence.High,
+            events: Array.from({ length: UPCOMING_RESETS }, (_, i) => ({
+                label: "Weekly reset",
+                start: new Date(nextReset.getTime() + i * WEEK_MS).toISOString(),
+                confidence: Confidence.High
+            })),
+            recurrence: "FREQ=WEEKLY;BYDAY=TH",
             notes: "Weekly reset occurs every Thursday at 10:00 UTC"
         };
     } catch (error) {
@@ -7,6 +7,7 @@
 import * as cheerio from "cheerio";
 import { FailureType, Confidence, ProviderResult, ProviderMetadata } from "../types";
 import { fetchHtml } from "../lib/fetch-layer";
+import { parseDate, regionalTimes, ParsedDate } from "../lib/dates";
 
 const META: ProviderMetadata = {
     provider_id: "lol",
@@ -16,10 +17,17 @@ const META: ProviderMetadata = {
 };
 
 interface PatchInfo {
-    date: Date;
+    parsed: ParsedDate;
     patchName: string;
 }
 
+// The schedule lists dates only; patch day starts at local midnight on each shard
+const SHARDS = [
+    { region: "kr", label: "Korea", timezone: "Asia/Seoul" },
+    { region: "euw", label: "Europe West", timezone: "Europe/Berlin" },
+    { region: "na", label: "North America", timezone: "America/Los_Angeles" }
+];
+
 export async function run(): Promise<ProviderResult> {
     const url = "https://support-leagueoflegends.riotgames.com/hc/en-us/articles/360018987893-League-of-Legends-Patch-Schedule";
 
@@ -38,7 +46,7 @@ export async function run(): Promise<ProviderResult> {
         // Create a date for "today at midnight UTC" to avoid rejecting today's patches
         const todayUtc = new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), now.getUTCDate()));
 
-        let bestPatch: PatchInfo | null = null;
+        const upcoming: PatchInfo[] = [];
 
         // Strictly target the schedule table
         const table = $("table").first();
@@ -50,47 +58,42 @@ export async function run(): Promise<ProviderResult> {
                     const dateStr = $(cells[1]).text().trim();
 
                     if (patchName && dateStr) {
-                        // Extract date from string like "Wednesday, Jan 10, 2024" or just "Jan 10, 2024"
-                        const dateMatch = dateStr.match(/([A-Z][a-z]+\s+\d{1,2},?\s+\d{4})/);
-                        if (dateMatch) {
-                            const parsedDate = new Date(dateMatch[1]);
-
-                            if (!isNaN(parsedDate.getTime())) {
-                                // Date Validation Guardrail (already somewhat covered by schedule logic)
-                                const twoYearsAgo = new Date();
-                                twoYearsAgo.setFullYear(now.getFullYear() - 2);
-                                const twoYearsFuture = new Date();
-                                twoYearsFuture.setFullYear(now.getFullYear() + 2);
-
-                                if (parsedDate >= twoYearsAgo && parsedDate <= twoYearsFuture) {
-                                    // select the first date that is >= today (UTC)
-                                    if (parsedDate >= todayUtc && (!bestPatch || parsedDate < bestPatch.date)) {
-                                        bestPatch = { date: parsedDate, patchName };
-                                    }
-                                }
-                            }
+                        // "Wednesday, Jan 10, 2024" or just "Jan 10, 2024"
+                        const parsed = parseDate(dateStr, { now });
+
+                        // keep every patch on or after today (UTC)
+                        if (parsed && parsed.date >= todayUtc) {
+                            upcoming.push({ parsed, patchName });
                         }
                     }
                 }
             });
         }
 
-        if (!bestPatch) {
+        upcoming.sort((a, b) => a.parsed.date.getTime() - b.parsed.date.getTime());
+        const finalPatch = upcoming[0];
+
+        if (!finalPatch) {
             throw new Error(`Could not find upcoming patch date in schedule table. Source: ${finalSourceUrl}`);
         }
 
-        const finalPatch = bestPatch as PatchInfo;
-
         return {
             ...META,
             status: "fresh",
-            nextEventUtc: finalPatch.date.toISOString(),
+            nextEventUtc: finalPatch.parsed.date.toISOString(),
             fetched_at_utc: now.toISOString(),
             last_success_at_utc: now.toISOString(),
             source_url: finalSourceUrl,
             confidence: Confidence.High,
             http_status: response.status,
             fetch_mode: response.mode,
+            precision: finalPatch.parsed.precision,
+            regions: regionalTimes(finalPatch.parsed, SHARDS),
+            events: upcoming.map(patch => ({
+                label: `Patch ${patch.patchName}`,
+                start: patch.parsed.date.toISOString(),
+                confidence: Confidence.High
+            })),
             notes: finalPatch.patchName ? `Patch ${finalPatch.patchName}` : undefined
         };
     } catch (error) {
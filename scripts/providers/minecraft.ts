@@ -6,7 +6,8 @@
 
 import * as cheerio from "cheerio";
 import { FailureType, Confidence, ProviderResult, ProviderMetadata } from "../types";
-import { fetchHtml, withBrowserPage, sleep } from "../lib/fetch-layer";
+import { fetchHtml, withBrowserRenderer } from "../lib/fetch-layer";
+import { parseDate, parseTimeElement, parseJsonLdDate } from "../lib/dates";
 
 const META: ProviderMetadata = {
     provider_id: "minecraft",
@@ -43,72 +44,26 @@ export async function run(): Promise<ProviderResult> {
  * Handle listing and article fetch in a single browser session
  */
 async function runWithBrowserSession(listingUrl: string): Promise<ProviderResult> {
-    try {
-        return await withBrowserPage(async (page) => {
-            // 1. Visit listing
-            await page.goto(listingUrl, { waitUntil: 'load', timeout: 30000 });
-            await page.waitForSelector('.article-list, .article-list-item, article, a[href*="/articles/"]', { timeout: 10000 }).catch(() => { });
-            await sleep(2000);
-            const listingHtml = await page.content();
-            const finalListingUrl = page.url();
-
-            const articleUrl = extractArticleUrl(listingHtml, listingUrl);
-
-            if (!articleUrl || articleUrl === listingUrl || articleUrl === finalListingUrl) {
-                throw new Error("Could not extract valid article URL in browser session.");
-            }
-
-            // 2. Visit article
-            console.log(`[Minecraft] Following link in same session: ${articleUrl}`);
-            await page.goto(articleUrl, { waitUntil: 'load', timeout: 30000 });
-            await sleep(1000); // Wait for potential dynamic load
-            const finalArticleUrl = page.url();
-
-            // Extract via Page Locator for robustness
-            const getDate = async (sel: string) => {
-                const loc = page.locator(sel).first();
-                if (await loc.count() > 0) {
-                    return (await loc.getAttribute('datetime')) || (await loc.getAttribute('title')) || (await loc.innerText());
-                }
-                return null;
-            };
+    return withBrowserRenderer(async (render) => {
+        // 1. Visit listing
+        const listing = await render(listingUrl, {
+            waitFor: '.article-list, .article-list-item, article, a[href*="/articles/"]',
+            settleMs: 2000
+        });
+        const finalListingUrl = listing.url || listingUrl;
 
-            let extractedDate = (await getDate('time')) || (await getDate('.article-meta time')) || (await getDate('.date')) || (await getDate('.article-date'));
+        const articleUrl = extractArticleUrl(listing.text, listingUrl);
 
-            if (!extractedDate) {
-                const bodyText = await page.innerText('body');
-                const broadRegex = /(Jan|Feb|Mar|Apr|May|Jun|Jul|Aug|Sep|Oct|Nov|Dec)[a-z]*\s+\d{1,2},?\s+\d{4}/i;
-                const match = bodyText.match(broadRegex);
-                if (match) extractedDate = match[0];
-            }
+        if (!articleUrl || articleUrl === listingUrl || articleUrl === finalListingUrl) {
+            throw new Error("Could not extract valid article URL in browser session.");
+        }
 
-            const extractedTitle = await page.locator('h1, h2, .article-title, .title').first().innerText().catch(() => "");
-            const finalHtml = await page.content();
-
-            // If found a date, use it
-            if (extractedDate) {
-                const parsed = new Date(extractedDate);
-                if (!isNaN(parsed.getTime())) {
-                    return {
-                        ...META,
-                        status: "fresh",
-                        nextEventUtc: parsed.toISOString(),
-                        fetched_at_utc: new Date().toISOString(),
-                        last_success_at_utc: new Date().toISOString(),
-                        source_url: finalArticleUrl,
-                        confidence: Confidence.High,
-                        http_status: 200,
-                        fetch_mode: "browser",
-                        notes: extractedTitle || undefined
-                    };
-                }
-            }
+        // 2. Visit article (wait for potential dynamic load)
+        console.log(`[Minecraft] Following link in same session: ${articleUrl}`);
+        const article = await render(articleUrl, { settleMs: 1000 });
 
-            return await parseWithHtml(finalHtml, finalArticleUrl, 200, "browser");
-        });
-    } catch (err: any) {
-        throw err;
-    }
+        return await parseWithHtml(article.text, article.url || articleUrl, article.status || 200, "browser");
+    }, META.provider_id);
 }
 
 /**
@@ -116,6 +71,7 @@ async function runWithBrowserSession(listingUrl: string): Promise<ProviderResult
  */
 async function parseWithHtml(html: string, sourceUrl: string, status: number, mode: "http" | "browser"): Promise<ProviderResult> {
     const $ = cheerio.load(html);
+    const jsonLdDate = parseJsonLdDate($);
     $("script, style, noscript").remove();
 
     // If sourceUrl is the listing, we need to extract and fetch article (only for HTTP flow)
@@ -135,52 +91,16 @@ async function parseWithHtml(html: string, sourceUrl: string, status: number, mo
     let releaseTitle = "";
 
     const artTimeEl = $("time, .date, .published-at, meta[property='article:published_time'], .article-meta time, .article-date").first();
-    const artDatetime = artTimeEl.attr("datetime") || artTimeEl.attr("content") || artTimeEl.text().trim() || artTimeEl.attr("title");
-
-    if (artDatetime) {
-        const parsedDate = new Date(artDatetime);
-        const now = new Date();
-        const twoYearsAgo = new Date();
-        twoYearsAgo.setFullYear(now.getFullYear() - 2);
-        const twoYearsFuture = new Date();
-        twoYearsFuture.setFullYear(now.getFullYear() + 2);
-
-        if (!isNaN(parsedDate.getTime()) && parsedDate >= twoYearsAgo && parsedDate <= twoYearsFuture) {
-            releaseDate = parsedDate;
-            releaseTitle = $("h1, h2, .article-title, .title").first().text().trim();
-        }
+    const artDate = parseTimeElement(artTimeEl);
+
+    if (artDate) {
+        releaseDate = artDate.date;
+        releaseTitle = $("h1, h2, .article-title, .title").first().text().trim();
     }
 
-    // Final fallback: JSON-LD or regex
+    // Final fallback: JSON-LD or any date in the body text
     if (!releaseDate) {
-        // Try JSON-LD
-        const ldJson = $("script[type='application/ld+json']").toArray();
-        for (const script of ldJson) {
-            try {
-                const data = JSON.parse($(script).html() || "");
-                const date = data.datePublished || data.dateModified || data.uploadDate;
-                if (date) {
-                    const parsed = new Date(date);
-                    if (!isNaN(parsed.getTime())) {
-                        releaseDate = parsed;
-                        break;
-                    }
-                }
-            } catch (e) { }
-        }
-
-        if (!releaseDate) {
-            const bodyText = $("body").text();
-            // Broader regex: supports Jan/January and optional comma
-            const broadRegex = /(Jan|Feb|Mar|Apr|May|Jun|Jul|Aug|Sep|Oct|Nov|Dec)[a-z]*\s+\d{1,2},?\s+\d{4}/i;
-            const dateMatch = bodyText.match(broadRegex);
-            if (dateMatch) {
-                const parsed = new Date(dateMatch[0]);
-                if (!isNaN(parsed.getTime())) {
-                    releaseDate = parsed;
-                }
-            }
-        }
+        releaseDate = (jsonLdDate || parseDate($("body").text()))?.date || null;
     }
 
     if (!releaseDate) {
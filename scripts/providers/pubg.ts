@@ -1,13 +1,17 @@
 /**
  * PUBG Last Patch Provider
  * 
- * Fetches latest patch date from official patch notes.
+ * Fetches latest patch date from official patch notes, cross-checked against the
+ * game's Steam news (consensus, see lib/consensus).
  * Robustness: Falls back to individual article page if listing date is missing.
  */
 
 import * as cheerio from "cheerio";
 import { FailureType, Confidence, ProviderResult, ProviderMetadata } from "../types";
-import { fetchHtml, withBrowserPage, sleep, getBrowserBudgetRemaining } from "../lib/fetch-layer";
+import { fetchHtml, withBrowserRenderer, getBrowserBudgetRemaining } from "../lib/fetch-layer";
+import { parseDate, parseTimeElement, parseJsonLdDate, ParsedDate } from "../lib/dates";
+import { runSources, ProviderSource, SourceReading } from "../lib/consensus";
+import { readSteamNews } from "../lib/steam";
 
 const META: ProviderMetadata = {
     provider_id: "pubg",
@@ -16,7 +20,9 @@ const META: ProviderMetadata = {
     title: "PUBG Last Patch"
 };
 
-export async function run(): Promise<ProviderResult> {
+const STEAM_APP_ID = 578080;
+
+async function readPatchNotes(): Promise<SourceReading> {
     const listingUrl = "https://pubg.com/en/news?category=patch_notes";
 
     try {
@@ -49,12 +55,8 @@ export async function run(): Promise<ProviderResult> {
 
                     // Try to find date in the same container or card
                     const card = $_(el).closest("article, .news-item, .card, div");
-                    const dateText = card.text();
-                    const dateMatch = dateText.match(/\d{4}\.\d{2}\.\d{2}/);
-                    if (dateMatch) {
-                        const parsed = new Date(dateMatch[0].replace(/\./g, '-'));
-                        if (!isNaN(parsed.getTime())) foundDate = parsed;
-                    }
+                    const parsed = parseDate(card.text());
+                    if (parsed) foundDate = parsed.date;
                 }
             });
             return { foundUrl, foundDate };
@@ -67,11 +69,10 @@ export async function run(): Promise<ProviderResult> {
         // Fallback to browser if no article URL found on listing (likely SPA)
         if (!articleUrl && getBrowserBudgetRemaining() > 0) {
             console.log(`[PUBG] No article URL found via HTTP. Trying browser fallback...`);
-            const browserResult = await withBrowserPage(async (page) => {
-                await page.goto(listingUrl, { waitUntil: 'load', timeout: 30000 });
-                await sleep(2000); // Wait for JS rendering
-                return extractData(await page.content());
-            });
+            const browserResult = await withBrowserRenderer(async (render) => {
+                const page = await render(listingUrl, { settleMs: 2000 }); // Wait for JS rendering
+                return extractData(page.text);
+            }, META.provider_id);
             articleUrl = browserResult.foundUrl;
             if (browserResult.foundDate) lastPatchDate = browserResult.foundDate;
         }
@@ -102,93 +103,34 @@ export async function run(): Promise<ProviderResult> {
         }
 
         const $art = cheerio.load(articleResponse.text);
+        const jsonLdDate = parseJsonLdDate($art);
         $art("script, style, noscript").remove();
 
         // Update articleUrl to final URL (respecting redirects)
         articleUrl = articleResponse.url || articleUrl;
 
         // Date Extraction Logic: Header-first, then <time>
-        let artDatetime: string | undefined;
+        let artDate: ParsedDate | null = null;
 
         // 1. Search near title/header container
         const headerContainer = $art("header, .article-header, .news-detail__header").first();
         if (headerContainer.length > 0) {
-            const timeEl = headerContainer.find("time, .date, .published-at").first();
-            artDatetime = timeEl.attr("datetime") || timeEl.text().trim();
+            artDate = parseTimeElement(headerContainer.find("time, .date, .published-at").first());
         }
 
         // 2. Fallback to common meta tags or any time element
-        if (!artDatetime) {
-            const fallbackTimeEl = $art("time, meta[property='article:published_time'], meta[name='publish-date'], .date").first();
-            artDatetime = fallbackTimeEl.attr("datetime") || fallbackTimeEl.attr("content") || fallbackTimeEl.text().trim();
+        if (!artDate) {
+            artDate = parseTimeElement($art("time, meta[property='article:published_time'], meta[name='publish-date'], .date").first());
         }
 
-        if (artDatetime) {
-            // Clean up common PUBG date noise (e.g. "PATCH NOTES 2026.01.06")
-            let cleanDate = artDatetime.replace(/PATCH NOTES/i, "").trim();
-
-            // If year is missing (e.g. "January 7"), append current year
-            if (/^(January|February|March|April|May|June|July|August|September|October|November|December)\s+\d{1,2}$/i.test(cleanDate)) {
-                cleanDate += `, ${new Date().getFullYear()}`;
-            }
-
-            const parsedDate = new Date(cleanDate);
-
-            // Date Validation Guardrail
-            const now = new Date();
-            const twoYearsAgo = new Date();
-            twoYearsAgo.setFullYear(now.getFullYear() - 2);
-            const twoYearsFuture = new Date();
-            twoYearsFuture.setFullYear(now.getFullYear() + 2);
-
-            if (!isNaN(parsedDate.getTime()) && parsedDate >= twoYearsAgo && parsedDate <= twoYearsFuture) {
-                lastPatchDate = parsedDate;
-                patchTitle = $art("h1, h2, .article-title, .title").first().text().trim();
-            } else {
-                console.log(`[PUBG] Invalid date candidate: ${artDatetime}`);
-            }
-        }
-
-        // Final fallback: Regex search in text if all else fails
-        if (!lastPatchDate) {
-            const text = $art(".news-detail__content, .article-content, body").text();
-            const dateMatch = text.match(/(January|February|March|April|May|June|July|August|September|October|November|December)\s+\d{1,2},\s+\d{4}/i);
-            if (dateMatch) {
-                const parsed = new Date(dateMatch[0]);
-                if (!isNaN(parsed.getTime())) {
-                    lastPatchDate = parsed;
-                }
-            }
+        if (artDate) {
+            lastPatchDate = artDate.date;
+            patchTitle = $art("h1, h2, .article-title, .title").first().text().trim();
         }
 
-        // Final fallback: JSON-LD or regex search
+        // Final fallback: JSON-LD, then any date in the article text
         if (!lastPatchDate) {
-            // Try JSON-LD
-            const ldJson = $art("script[type='application/ld+json']").toArray();
-            for (const script of ldJson) {
-                try {
-                    const data = JSON.parse($art(script).html() || "");
-                    const date = data.datePublished || data.dateModified;
-                    if (date) {
-                        const parsed = new Date(date);
-                        if (!isNaN(parsed.getTime())) {
-                            lastPatchDate = parsed;
-                            break;
-                        }
-                    }
-                } catch (e) { }
-            }
-
-            if (!lastPatchDate) {
-                const text = $art(".news-detail__content, .article-content, body").text();
-                const dateMatch = text.match(/(January|February|March|April|May|June|July|August|September|October|November|December)\s+\d{1,2},?\s+\d{4}/i);
-                if (dateMatch) {
-                    const parsed = new Date(dateMatch[0]);
-                    if (!isNaN(parsed.getTime())) {
-                        lastPatchDate = parsed;
-                    }
-                }
-            }
+            lastPatchDate = (jsonLdDate || parseDate($art(".news-detail__content, .article-content, body").text()))?.date || null;
         }
 
         if (!lastPatchDate || isNaN(lastPatchDate.getTime())) {
@@ -196,11 +138,7 @@ export async function run(): Promise<ProviderResult> {
         }
 
         return {
-            ...META,
-            status: "fresh",
             nextEventUtc: lastPatchDate.toISOString(),
-            fetched_at_utc: new Date().toISOString(),
-            last_success_at_utc: new Date().toISOString(),
             source_url: articleUrl,
             confidence: Confidence.High,
             http_status: articleResponse.status,
@@ -211,3 +149,12 @@ export async function run(): Promise<ProviderResult> {
         throw error;
     }
 }
+
+const SOURCES: ProviderSource[] = [
+    { name: "PUBG patch notes", read: readPatchNotes },
+    { name: "Steam news", read: () => readSteamNews(STEAM_APP_ID, META.provider_id) }
+];
+
+export async function run(): Promise<ProviderResult> {
+    return runSources(META, SOURCES);
+}
@@ -6,6 +6,7 @@
 
 import { FailureType, Confidence, ProviderResult, ProviderMetadata } from "../types";
 import { fetchHtml } from "../lib/fetch-layer";
+import { parseDate } from "../lib/dates";
 
 const META: ProviderMetadata = {
     provider_id: "roblox",
@@ -38,14 +39,11 @@ export async function run(): Promise<ProviderResult> {
             throw new Error("No updated timestamp found in Roblox status JSON");
         }
 
-        let updatedDate: Date;
-        if (typeof updated === "number") {
-            updatedDate = new Date(updated * 1000);
-        } else {
-            updatedDate = new Date(updated);
-        }
+        const updatedDate = typeof updated === "number"
+            ? new Date(updated * 1000)
+            : parseDate(String(updated), { window: null })?.date;
 
-        if (isNaN(updatedDate.getTime())) {
+        if (!updatedDate || isNaN(updatedDate.getTime())) {
             throw new Error(`Invalid date format in Roblox status: ${updated}`);
         }
 
@@ -59,7 +57,8 @@ export async function run(): Promise<ProviderResult> {
             confidence: Confidence.High,
             http_status: response.status,
             fetch_mode: response.mode,
-            notes: `Current status: ${status}`
+            notes: `Current status: ${status}`,
+            service_status: status
         };
     } catch (error) {
         throw error;
@@ -0,0 +1,53 @@
+/**
+ * Declarative "latest dated article" providers
+ *
+ * Each spec is interpreted by lib/scraper. Adding a simple "last patch" game = one spec here
+ * + its catalog entry.
+ */
+
+import { Confidence } from "../types";
+import { ScraperSpec } from "../lib/scraper";
+
+export const SCRAPER_SPECS: Record<string, ScraperSpec> = {
+    // Newest dated card on the game updates listing
+    "valorant": {
+        meta: { provider_id: "valorant", game: "valorant", type: "last-patch", title: "VALORANT Last Patch" },
+        url: "https://playvalorant.com/en-us/news/game-updates/",
+        items: "article, .article-card, a[href*='patch-notes']",
+        limit: 10,
+        title: ["h2, h3, .title"],
+        date: [{ element: "time" }, { text: "item" }],
+        pick: "newest",
+        confidence: Confidence.Medium,
+        error: "Could not extract patch date from VALORANT news page"
+    },
+
+    // Newest dated Warzone entry among all CoD patch notes
+    "warzone": {
+        meta: { provider_id: "warzone", game: "warzone", type: "last-patch", title: "Call of Duty Warzone Last Patch" },
+        url: "https://www.callofduty.com/patchnotes",
+        items: "article, .patch-note, .card, a",
+        keywords: ["warzone"],
+        title: ["h2, h3, .title"],
+        date: [{ element: "time" }, { text: "item" }],
+        pick: "newest",
+        confidence: Confidence.Medium,
+        timeout: 15000,
+        error: "Could not extract Warzone patch date from CoD patch notes"
+    },
+
+    // First Title Update link on the EA Forums Game Info Hub (listed newest first)
+    "ea-sports-fc": {
+        meta: { provider_id: "ea-sports-fc", game: "ea-sports-fc", type: "last-title-update", title: "EA SPORTS FC Last Title Update" },
+        url: "https://forums.ea.com/category/ea-sports-fc-en/blog/ea-sports-fc-game-info-hub-en",
+        items: "a",
+        keywords: ["title update", "patch notes", "update notes", "version"],
+        title: ["self"],
+        // Surrounding text first ("Jan 13, 2026" or "3 days ago"), then the card's <time>
+        date: [{ text: "context" }, { element: "time, [class*=\"date\"]", within: "li, div[class*=\"entry\"], div[class*=\"row\"]" }],
+        link: "self",
+        pick: "first",
+        confidence: Confidence.Medium,
+        error: "Could not find any 'Title Update' articles with dates on EA Forums"
+    }
+};
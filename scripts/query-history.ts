@@ -0,0 +1,54 @@
+import { parseArgs } from "util";
+import { CATALOG } from "./catalog";
+import { setDataDir } from "./lib/data-output";
+import { queryHistory } from "./lib/history";
+
+/**
+ * Query the historical event archive
+ *
+ * Usage: node build/query-history.js <game> [--since <iso>] [--until <iso>] [--limit <n>] [--json] [--data-dir <dir>]
+ */
+
+const { values, positionals } = parseArgs({
+    args: process.argv.slice(2),
+    allowPositionals: true,
+    options: {
+        since: { type: "string" },
+        until: { type: "string" },
+        limit: { type: "string" },
+        json: { type: "boolean", default: false },
+        "data-dir": { type: "string" }
+    }
+});
+
+const game = positionals[0];
+const entry = CATALOG.find(e => e.id === game);
+
+if (!entry) {
+    console.error(`Usage: node build/query-history.js <game> [--since <iso>] [--until <iso>] [--limit <n>] [--json]`);
+    console.error(`Known games: ${CATALOG.map(e => e.id).join(", ")}`);
+    process.exit(1);
+}
+
+if (values["data-dir"]) {
+    setDataDir(values["data-dir"]);
+}
+
+const events = queryHistory(entry.id, entry.type, {
+    since: values.since,
+    until: values.until,
+    limit: values.limit ? parseInt(values.limit, 10) : undefined
+});
+
+if (values.json) {
+    console.log(JSON.stringify(events, null, 2));
+} else if (events.length === 0) {
+    console.log(`No history recorded for ${entry.name} (${entry.type}).`);
+} else {
+    console.log(`${entry.name} ${entry.typeTitle} - ${events.length} event(s)\n`);
+    for (const event of events) {
+        console.log(`${event.nextEventUtc}  ${event.notes || "-"}`);
+        console.log(`  seen ${event.seen_count}x, ${event.first_seen_utc} → ${event.last_seen_utc}`);
+        console.log(`  ${event.source_url}`);
+    }
+}
@@ -1,81 +1,202 @@
-import { FailureType, ProviderResult, StaleResult, UnavailableResult, Provider } from "./types";
-import { writeLiveJson, writeLkgJson, readLkgData, ensureDataDirs } from "./lib/data-output";
-
-// Import all providers
-import * as fortnite from "./providers/fortnite";
-import * as lol from "./providers/lol";
-import * as valorant from "./providers/valorant";
-import * as cs2 from "./providers/cs2";
-import * as minecraft from "./providers/minecraft";
-import * as roblox from "./providers/roblox";
-import * as gta from "./providers/gta";
-import * as warzone from "./providers/warzone";
-import * as genshin from "./providers/genshin";
-import * as pubg from "./providers/pubg";
-import * as rdr2 from "./providers/rdr2";
-import * as eafc from "./providers/eafc";
+import { FailureType, ProviderResult, StaleResult, UnavailableResult } from "./types";
+import * as fs from "fs";
+import * as path from "path";
+import { parseArgs } from "util";
+import { writeLiveJson, writeLkgJson, readLkgData, ensureDataDirs, setDataDir, getDataDir } from "./lib/data-output";
+import { withTimeout, mapWithConcurrency, TimeoutError } from "./lib/concurrency";
+import { setCassette, getCassette, CassetteConfig } from "./lib/cassette";
+import { recordHistory, writeTimeline } from "./lib/history";
+import { detectChanges, readPreviousResult, writeChangesJson, ChangeRecord, ChangeKind } from "./lib/changes";
+import { loadNotifyConfig, notify } from "./lib/notifier";
+import { validateResult, formatIssues } from "./lib/validate";
+import { applyStaleness, getExpiry } from "./lib/staleness";
+import { buildManifest, writeManifest, createRunId } from "./lib/manifest";
+import { keepPreviousReading } from "./lib/consensus";
+import { writeCalendars } from "./lib/ics";
+import { writeFeeds } from "./lib/feeds";
+import { appendRunLog, readRunLog, buildStatusReport, writeStatusJson, toRunRecord } from "./lib/run-log";
+import { getFetchTrace, getBrowserBudgetUsage, setProviderSignal, clearProviderSignal } from "./lib/fetch-layer";
+import {
+    readHealthLedger, writeHealthLedger, getHealth, shouldAttempt, getNextProbe,
+    recordSuccess, recordFailure, checkEscalation, Escalation, HealthLedger
+} from "./lib/health";
+import { CATALOG, CatalogEntry } from "./catalog";
 
 /**
- * Provider Registry
- * explicit metadata allows LKG lookups even if provider crashes
+ * Orchestrator settings (overridable via env for CI tuning)
  */
-interface RegistryEntry {
-    id: string;
-    type: string;
-    name: string;
-    run: Provider;
+const CONCURRENCY = parseInt(process.env.REFRESH_CONCURRENCY || "4", 10) || 4;
+const PROVIDER_TIMEOUT_MS = parseInt(process.env.PROVIDER_TIMEOUT_MS || "120000", 10) || 120000;
+
+const USAGE = `Usage: node build/refresh-all.js [options]
+
+Options:
+  --only <ids>            Comma-separated provider ids to run (e.g. fortnite,lol)
+  --skip <ids>            Comma-separated provider ids to skip
+  --dry-run               Print results instead of writing live/LKG JSON
+  --force                 Run providers even if their circuit is open
+  --out-dir <dir>         Data output root (default: public/data)
+  --summary-json <file>   Write the run summary as JSON
+  --record <dir>          Record every fetch (URL, status, body, mode) into <dir>
+  --replay <dir>          Serve fetches from a recorded <dir> instead of the network
+  -h, --help              Show this help`;
+
+interface CliOptions {
+    only: string[];
+    skip: string[];
+    dryRun: boolean;
+    force: boolean;
+    outDir?: string;
+    summaryJson?: string;
+    cassette?: CassetteConfig;
 }
 
-const REGISTRY: RegistryEntry[] = [
-    { id: "fortnite", type: "next-season", name: "Fortnite", run: fortnite.run },
-    { id: "lol", type: "next-patch", name: "League of Legends", run: lol.run },
-    { id: "valorant", type: "last-patch", name: "VALORANT", run: valorant.run },
-    { id: "cs2", type: "last-update", name: "Counter-Strike 2", run: cs2.run },
-    { id: "minecraft", type: "last-release", name: "Minecraft", run: minecraft.run },
-    { id: "roblox", type: "status", name: "Roblox", run: roblox.run },
-    { id: "gta", type: "weekly-reset", name: "GTA Online", run: gta.run },
-    { id: "warzone", type: "last-patch", name: "Warzone", run: warzone.run },
-    { id: "genshin", type: "next-banner", name: "Genshin Impact", run: genshin.run },
-    { id: "pubg", type: "last-patch", name: "PUBG", run: pubg.run },
-    { id: "red-dead-redemption-2", type: "last-update", name: "Red Dead Redemption 2", run: rdr2.run },
-    { id: "ea-sports-fc", type: "last-title-update", name: "EA SPORTS FC", run: eafc.run }
-];
+interface RunSummary {
+    run_id: string;
+    started_at_utc: string;
+    finished_at_utc: string;
+    dry_run: boolean;
+    data_dir: string;
+    total: number;
+    fresh: number;
+    stale: number;
+    unavailable: number;
+    changes: ChangeRecord[];
+    escalations: Escalation[];
+    providers: Array<{
+        id: string;
+        type: string;
+        status: ProviderResult["status"];
+        elapsed_ms: number;
+        nextEventUtc: string | null;
+        message?: string;
+    }>;
+}
 
-async function main() {
-    console.log("=".repeat(60));
-    console.log("NextReset Data Refresh (LKG Enabled)");
-    console.log("=".repeat(60));
+function splitIds(value: string | undefined): string[] {
+    return (value || "").split(",").map(id => id.trim()).filter(Boolean);
+}
 
-    try {
-        ensureDataDirs();
-    } catch (error) {
-        console.error("❌ Fatal: Cannot create data directories");
-        console.error(error);
-        process.exit(1);
+function parseCliOptions(argv: string[]): CliOptions {
+    const { values } = parseArgs({
+        args: argv,
+        options: {
+            only: { type: "string" },
+            skip: { type: "string" },
+            "dry-run": { type: "boolean", default: false },
+            force: { type: "boolean", default: false },
+            "out-dir": { type: "string" },
+            "summary-json": { type: "string" },
+            record: { type: "string" },
+            replay: { type: "string" },
+            help: { type: "boolean", short: "h", default: false }
+        }
+    });
+
+    if (values.help) {
+        console.log(USAGE);
+        process.exit(0);
+    }
+
+    if (values.record && values.replay) {
+        throw new Error("--record and --replay are mutually exclusive");
     }
 
-    const results: ProviderResult[] = [];
+    const options: CliOptions = {
+        only: splitIds(values.only),
+        skip: splitIds(values.skip),
+        dryRun: !!values["dry-run"],
+        force: !!values.force,
+        outDir: values["out-dir"],
+        summaryJson: values["summary-json"],
+        cassette: values.record ? { mode: "record", dir: values.record }
+            : values.replay ? { mode: "replay", dir: values.replay }
+            : undefined
+    };
 
-    // Run providers sequentially
-    for (const entry of REGISTRY) {
-        const startTime = Date.now();
-        console.log(`\n[${new Date().toISOString()}] Running ${entry.name}...`);
+    const knownIds = new Set(CATALOG.map(entry => entry.id));
+    const unknown = [...options.only, ...options.skip].filter(id => !knownIds.has(id));
+    if (unknown.length > 0) {
+        throw new Error(`Unknown provider id(s): ${unknown.join(", ")}. Known: ${[...knownIds].join(", ")}`);
+    }
+
+    return options;
+}
 
-        let result: ProviderResult;
+/**
+ * Apply --only / --skip to the catalog
+ */
+function selectEntries(options: CliOptions): CatalogEntry[] {
+    return CATALOG.filter(entry =>
+        (options.only.length === 0 || options.only.includes(entry.id)) &&
+        !options.skip.includes(entry.id)
+    );
+}
+
+/**
+ * Run a single catalog entry with timeout + LKG fallback, writing its live (and LKG) JSON.
+ * Entries with an open circuit skip the fetch (straight to LKG) until their next probe.
+ * A fresh reading of the previous release keeps the previous date (see keepPreviousReading).
+ */
+async function runEntry(entry: CatalogEntry, options: CliOptions, ledger: HealthLedger, previous: ProviderResult | null): Promise<ProviderResult> {
+    const startTime = Date.now();
+    const health = getHealth(ledger, entry.id, entry.type);
+    const attempt = options.force || shouldAttempt(health);
+
+    let result: ProviderResult;
+
+    if (!attempt) {
+        console.log(`\n[${new Date().toISOString()}] Skipping ${entry.name} (circuit open)...`);
+        result = {
+            provider_id: entry.id,
+            game: entry.id,
+            type: entry.type,
+            title: entry.name,
+            status: "unavailable",
+            nextEventUtc: null,
+            failure_type: health.last_error_class ?? FailureType.Unavailable,
+            explanation: `Circuit open after ${health.consecutive_failures} consecutive failures (last: ${health.last_error}); next probe after ${getNextProbe(health)}`,
+            fetched_at_utc: new Date().toISOString()
+        };
+    } else {
+        console.log(`\n[${new Date().toISOString()}] Running ${entry.name}${health.circuit === "open" ? " (circuit probe)" : ""}...`);
 
         try {
-            // 1. Attempt Fresh Run
-            result = await entry.run();
+            // 1. Attempt Fresh Run (hard wall-clock deadline; its fetches / browser pages are aborted on timeout)
+            const controller = new AbortController();
+            setProviderSignal(entry.id, controller.signal);
+            try {
+                result = await withTimeout(entry.run(), PROVIDER_TIMEOUT_MS, controller);
+            } finally {
+                clearProviderSignal(entry.id, controller.signal);
+            }
 
-            // Validate result shape (providers might return Partial internally, but we expect ProviderResult)
-            if (!result || !result.status) {
-                throw new Error("Provider returned invalid/empty result");
+            // Runtime schema check: invalid output is downgraded so it never reaches live/LKG
+            const issues = validateResult(result, { expected: { game: entry.id, type: entry.type } });
+            if (issues.length > 0) {
+                const explanation = `Invalid provider output: ${formatIssues(issues)}`;
+                console.error(`✗ ${entry.name} failed validation: ${formatIssues(issues)}`);
+
+                result = {
+                    provider_id: entry.id,
+                    game: entry.id,
+                    type: entry.type,
+                    title: entry.name,
+                    status: "unavailable",
+                    nextEventUtc: null,
+                    failure_type: FailureType.ParseFailed,
+                    explanation,
+                    fetched_at_utc: new Date().toISOString()
+                };
+            } else if (result.status === "fresh") {
+                result = keepPreviousReading(previous, result);
             }
 
         } catch (error) {
             // 2. Catch Crash -> Create Unavailable (temp) -> Fallback Logic will handle logic below
             const reason = error instanceof Error ? error.message : String(error);
-            console.error(`✗ ${entry.name} crashed: ${reason}`);
+            const timedOut = error instanceof TimeoutError;
+            console.error(`✗ ${entry.name} ${timedOut ? "timed out" : "crashed"}: ${reason}`);
 
             result = {
                 provider_id: entry.id,
@@ -85,72 +206,237 @@ async function main() {
                 status: "unavailable",
                 nextEventUtc: null,
                 failure_type: FailureType.Unavailable,
-                explanation: `Crashed: ${reason}`,
+                explanation: timedOut ? reason : `Crashed: ${reason}`,
                 fetched_at_utc: new Date().toISOString()
             };
         }
+    }
 
-        const elapsed = Date.now() - startTime;
+    const elapsed = Date.now() - startTime;
 
-        // 3. Global LKG Safety Net
+    // Health ledger tracks real attempts only (persisted by main unless dry-run)
+    if (attempt) {
         if (result.status === "fresh") {
-            // Success!
-            console.log(`✓ ${entry.name} succeeded in ${elapsed}ms`);
+            recordSuccess(ledger, entry.id, entry.type, result.fetched_at_utc);
+        } else {
+            const failureType = result.status === "unavailable" ? result.failure_type : FailureType.Unavailable;
+            const explanation = result.status === "unavailable" ? result.explanation : result.reason;
+            const record = recordFailure(ledger, entry.id, entry.type, failureType, explanation, result.fetched_at_utc);
+            if (record.circuit === "open" && health.circuit === "closed") {
+                console.warn(`⚠ ${entry.name} circuit opened after ${record.consecutive_failures} consecutive failures`);
+            }
+        }
+    }
 
-            // Explicit Dual-Write
+    // 3. Global LKG Safety Net
+    if (result.status === "fresh") {
+        // Success!
+        console.log(`✓ ${entry.name} succeeded in ${elapsed}ms`);
+
+        // Explicit Dual-Write
+        if (!options.dryRun) {
             writeLiveJson(result);
             writeLkgJson(result);
+            recordHistory(result);
+        }
 
-        } else {
-            // Failed (Unavailable from crash OR explicit 'unavailable' from provider)
-            // Attempt to recover using LKG
-            const lkg = readLkgData(entry.id, entry.type);
-
-            if (lkg && lkg.status === "fresh") {
-                // RECOVERY: Downgrade to Stale
-                const staleResult: StaleResult = {
-                    ...lkg,
-                    status: "stale",
-                    fetched_at_utc: new Date().toISOString(), // Current run
-                    last_success_at_utc: lkg.fetched_at_utc, // Original success
-                    reason: result.status === "unavailable" ? result.explanation : (result as StaleResult).reason || "Unknown failure",
-                    provider_id: entry.id,
-                    game: entry.id,
-                    type: entry.type,
-                    title: entry.name
-                };
+    } else {
+        // Failed (Unavailable from crash OR explicit 'unavailable' from provider)
+        // Attempt to recover using LKG
+        // Expired LKG (past upcoming event, or older than the type's max age) is not served
+        const lkg = readLkgData(entry.id, entry.type);
+        const expiry = lkg && lkg.status === "fresh" ? getExpiry(lkg) : null;
+
+        if (lkg && lkg.status === "fresh" && !expiry) {
+            // RECOVERY: Downgrade to Stale, confidence decayed with age
+            const staleResult: StaleResult = applyStaleness({
+                ...lkg,
+                status: "stale",
+                fetched_at_utc: new Date().toISOString(), // Current run
+                last_success_at_utc: lkg.fetched_at_utc, // Original success
+                reason: result.status === "unavailable" ? result.explanation : (result as StaleResult).reason || "Unknown failure",
+                provider_id: entry.id,
+                game: entry.id,
+                type: entry.type,
+                title: entry.name
+            });
 
-                console.warn(`⚠ ${entry.name} failed but recovered with LKG data (${elapsed}ms)`);
-                console.warn(`  Reason: ${staleResult.reason}`);
+            console.warn(`⚠ ${entry.name} failed but recovered with LKG data (${elapsed}ms)`);
+            console.warn(`  Reason: ${staleResult.reason}`);
+            console.warn(`  Age: ${staleResult.age_hours}h, confidence ${staleResult.confidence}${staleResult.original_confidence ? ` (was ${staleResult.original_confidence})` : ""}`);
 
-                result = staleResult;
+            result = staleResult;
+            if (!options.dryRun) {
                 writeLiveJson(staleResult); // Only write live, NEVER overwrite LKG with stale
+            }
 
+        } else {
+            // CATASTROPHE: No (usable) LKG available
+            if (expiry) {
+                console.error(`✗ ${entry.name} failed and LKG data expired: ${expiry} (${elapsed}ms)`);
             } else {
-                // CATASTROPHE: No LKG available
                 console.error(`✗ ${entry.name} failed and NO LKG data found (${elapsed}ms)`);
+            }
+
+            // Ensure result is marked unavailable
+            if (result.status !== "unavailable") {
+                // Should not really happen if we follow types, but ensure shape
+                result = {
+                    provider_id: entry.id,
+                    game: entry.id,
+                    type: entry.type,
+                    title: entry.name,
+                    status: "unavailable",
+                    nextEventUtc: null,
+                    failure_type: FailureType.Unavailable,
+                    explanation: (result as any).reason || "Unknown failure",
+                    fetched_at_utc: new Date().toISOString()
+                };
+            }
 
-                // Ensure result is marked unavailable
-                if (result.status !== "unavailable") {
-                    // Should not really happen if we follow types, but ensure shape
-                    result = {
-                        provider_id: entry.id,
-                        game: entry.id,
-                        type: entry.type,
-                        title: entry.name,
-                        status: "unavailable",
-                        nextEventUtc: null,
-                        failure_type: FailureType.Unavailable,
-                        explanation: (result as any).reason || "Unknown failure",
-                        fetched_at_utc: new Date().toISOString()
-                    };
-                }
+            if (expiry && result.status === "unavailable") {
+                result = { ...result, explanation: `${result.explanation} (cached data dropped: ${expiry})` };
+            }
 
+            if (!options.dryRun) {
                 writeLiveJson(result);
             }
         }
+    }
+
+    if (!options.dryRun && result.status !== "fresh") {
+        // Keep the timeline available even when this run produced nothing new
+        writeTimeline({ provider_id: entry.id, game: entry.id, type: entry.type, title: entry.name });
+    }
+
+    if (options.dryRun) {
+        console.log(`[dry-run] ${entry.id}.${entry.type}:\n${JSON.stringify(result, null, 2)}`);
+    }
+
+    return result;
+}
+
+async function main() {
+    let options: CliOptions;
+    try {
+        options = parseCliOptions(process.argv.slice(2));
+    } catch (error) {
+        console.error(`❌ ${error instanceof Error ? error.message : String(error)}`);
+        console.error(USAGE);
+        process.exit(1);
+    }
+
+    console.log("=".repeat(60));
+    console.log(`NextReset Data Refresh (LKG Enabled)${options.dryRun ? " [DRY RUN]" : ""}`);
+    console.log("=".repeat(60));
+
+    if (options.outDir) {
+        setDataDir(options.outDir);
+    }
+
+    // CLI flags override CASSETTE_MODE / CASSETTE_DIR
+    if (options.cassette) {
+        setCassette(options.cassette);
+    }
+
+    if (!options.dryRun) {
+        try {
+            ensureDataDirs();
+        } catch (error) {
+            console.error("❌ Fatal: Cannot create data directories");
+            console.error(error);
+            process.exit(1);
+        }
+    }
+
+    const entries = selectEntries(options);
+    const startedAt = new Date().toISOString();
+    const runId = createRunId(startedAt);
+    const elapsedById: Record<string, number> = {};
+    const ledger = readHealthLedger();
 
-        results.push(result);
+    console.log(`Run: ${runId}`);
+    console.log(`Data dir: ${getDataDir()}`);
+    const cassette = getCassette();
+    if (cassette) {
+        console.log(`Cassette: ${cassette.mode} (${cassette.dir})`);
+    }
+    console.log(`Providers: ${entries.map(entry => entry.id).join(", ")}`);
+    console.log(`Concurrency: ${CONCURRENCY}, per-provider timeout: ${PROVIDER_TIMEOUT_MS}ms`);
+
+    // Snapshot previous outputs before anything is overwritten (for change detection)
+    const previousById = new Map(entries.map(entry => [entry.id, readPreviousResult(entry.id, entry.type)]));
+
+    // Run providers concurrently under a fixed pool size
+    // Catalog metadata allows LKG lookups even if provider crashes
+    const results = await mapWithConcurrency(entries, CONCURRENCY, async (entry) => {
+        const startTime = Date.now();
+        const result = await runEntry(entry, options, ledger, previousById.get(entry.id) ?? null);
+        elapsedById[entry.id] = Date.now() - startTime;
+        return result;
+    });
+
+    // Change Detection
+    const changes: ChangeRecord[] = [];
+    results.forEach((result, i) => {
+        if (result.status === "fresh") {
+            changes.push(...detectChanges(previousById.get(entries[i].id) ?? null, result));
+        }
+    });
+
+    if (!options.dryRun) {
+        const changesPath = writeChangesJson(changes, startedAt);
+        console.log(`\nWrote ${path.basename(changesPath)} (${changes.length} change(s))`);
+    }
+
+    // Health ledger + escalation (data older than its type's staleness threshold)
+    const escalations = results
+        .map((result, i) => checkEscalation(result, getHealth(ledger, entries[i].id, entries[i].type)))
+        .filter((escalation): escalation is Escalation => escalation !== null);
+
+    if (!options.dryRun) {
+        writeHealthLedger(ledger);
+    }
+
+    // Notifications (never fatal)
+    try {
+        const notifyConfig = loadNotifyConfig();
+        if (notifyConfig) {
+            const sent = await notify(notifyConfig, results, changes, { dryRun: options.dryRun, escalations, ledger });
+            console.log(`Notifications: ${sent.sent} sent, ${sent.failed} failed, ${sent.skipped} already announced`);
+        }
+    } catch (error) {
+        console.error(`⚠ Notifier error: ${error instanceof Error ? error.message : String(error)}`);
+    }
+
+    // Manifest (every catalog entry's current result for the homepage), calendar, update feeds and run log
+    if (!options.dryRun) {
+        const resultsById = new Map(results.map((result, i) => [entries[i].id, result]));
+        const manifest = buildManifest(CATALOG, resultsById, {
+            id: runId,
+            started_at_utc: startedAt,
+            finished_at_utc: new Date().toISOString()
+        });
+        const manifestPath = writeManifest(manifest);
+        console.log(`Wrote ${path.basename(manifestPath)} (${manifest.providers.length} provider(s))`);
+
+        const current = CATALOG.map((entry, i) => ({ entry, result: manifest.providers[i].result }));
+        const calendars = writeCalendars(current, manifest.run.finished_at_utc);
+        console.log(`Wrote ${calendars} calendar feed(s) + combined`);
+        const feeds = writeFeeds(current, manifest.run.finished_at_utc);
+        console.log(`Wrote Atom/RSS for ${feeds} game(s) + global`);
+
+        // Run log + status.json (for the /status/ page)
+        appendRunLog({
+            run_id: runId,
+            started_at_utc: startedAt,
+            finished_at_utc: manifest.run.finished_at_utc,
+            browser_budget: getBrowserBudgetUsage(),
+            providers: results.map((result, i) => toRunRecord(entries[i], result, elapsedById[entries[i].id] ?? 0, getFetchTrace(entries[i].id)))
+        });
+        const status = buildStatusReport(CATALOG, readRunLog(), ledger);
+        writeStatusJson(status);
+        console.log(`Wrote status.json (${status.runs_logged} run(s) logged)`);
     }
 
     // Summary & Exit Logic
@@ -168,6 +454,19 @@ async function main() {
     console.log(`⚠ Stale (LKG): ${staleCount}`);
     console.log(`✗ Unavailable: ${unavailableCount}`);
 
+    const notable = changes.filter(c => c.kind !== ChangeKind.FirstSeen);
+    if (notable.length > 0) {
+        console.log("\nChanges Detected:");
+        notable.forEach(c => console.log(`  - [${c.kind}] ${c.summary}`));
+    }
+
+    if (escalations.length > 0) {
+        console.log("\nEscalated (data older than threshold):");
+        escalations.forEach(e => {
+            console.log(`  - ${e.title}: ${e.age_hours}h old (threshold ${e.threshold_hours}h), ${e.consecutive_failures} consecutive failure(s), last error: ${e.last_error_class ?? "unknown"}`);
+        });
+    }
+
     if (unavailableCount > 0) {
         console.log("\nUnavailable Providers:");
         results.filter(r => r.status === "unavailable").forEach(r => {
@@ -175,14 +474,47 @@ async function main() {
         });
     }
 
+    if (options.summaryJson) {
+        const summary: RunSummary = {
+            run_id: runId,
+            started_at_utc: startedAt,
+            finished_at_utc: new Date().toISOString(),
+            dry_run: options.dryRun,
+            data_dir: getDataDir(),
+            total,
+            fresh: freshCount,
+            stale: staleCount,
+            unavailable: unavailableCount,
+            changes,
+            escalations,
+            providers: results.map((r, i) => ({
+                id: entries[i].id,
+                type: entries[i].type,
+                status: r.status,
+                elapsed_ms: elapsedById[entries[i].id] ?? 0,
+                nextEventUtc: r.nextEventUtc,
+                message: r.status === "unavailable" ? r.explanation : (r.status === "stale" ? r.reason : undefined)
+            }))
+        };
+
+        const summaryPath = path.resolve(options.summaryJson);
+        fs.mkdirSync(path.dirname(summaryPath), { recursive: true });
+        fs.writeFileSync(summaryPath, JSON.stringify(summary, null, 2), "utf-8");
+        console.log(`\nSummary written to ${summaryPath}`);
+    }
+
     // Exit Code Logic
     // Fail only if > 50% are unavailable (catastrophic)
+    // Any provider past its staleness threshold = Escalated (Exit 2)
     // 0 unavailable = Perfect/Safe (Exit 0)
     const failureRatio = total > 0 ? unavailableCount / total : 0;
 
     if (failureRatio > 0.5) {
         console.error(`\n❌ Catastrophic failure: ${unavailableCount}/${total} providers unavailable.`);
         process.exit(1);
+    } else if (escalations.length > 0) {
+        console.error(`\n⚠ Escalated: ${escalations.length} provider(s) past their staleness threshold.`);
+        process.exit(2);
     } else {
         console.log(`\n✓ Refresh completed successfully.`);
         process.exit(0);
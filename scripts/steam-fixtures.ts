@@ -0,0 +1,96 @@
+import * as fs from "fs";
+import * as path from "path";
+import { parseArgs } from "util";
+import { CassetteEntry, getCassettePath } from "./lib/cassette";
+import { getSteamNewsUrl } from "./lib/steam";
+
+/**
+ * Turn a recorded GetNewsForApp response into a test fixture
+ *
+ * Record first (any provider that reads the app's Steam news), then trim:
+ *   node build/refresh-all.js --only pubg --record ./cassettes --dry-run
+ *   node build/steam-fixtures.js pubg 578080 --cassette ./cassettes [--items <n>]
+ *
+ * With --all, every existing steam-news-<appId>.json fixture is regenerated (record a run of
+ * every Steam-backed provider first). Fixtures missing from the cassette are reported and kept.
+ *
+ * Writes scripts/test/fixtures/<game>/steam-news-<appId>.json with the newest items only and
+ * each post's contents cut to an excerpt; every other field is kept as Steam served it.
+ */
+
+const FIXTURES_DIR = path.join(__dirname, "../scripts/test/fixtures");
+const EXCERPT_LENGTH = 80;
+
+const { values, positionals } = parseArgs({
+    args: process.argv.slice(2),
+    allowPositionals: true,
+    options: {
+        cassette: { type: "string", default: "cassettes" },
+        items: { type: "string", default: "5" },
+        all: { type: "boolean", default: false }
+    }
+});
+
+const limit = parseInt(values.items!, 10);
+
+/**
+ * Trim the recorded response for one app into its fixture. Returns false when not recorded.
+ */
+function writeFixture(game: string, appId: number): boolean {
+    const url = getSteamNewsUrl(appId);
+    const cassettePath = getCassettePath(path.resolve(values.cassette!), url, 0);
+
+    if (!fs.existsSync(cassettePath)) {
+        console.error(`No recording of ${url} in ${values.cassette}`);
+        return false;
+    }
+
+    const entry = JSON.parse(fs.readFileSync(cassettePath, "utf-8")) as CassetteEntry;
+    if (!entry.ok) {
+        console.error(`Recorded fetch of ${url} failed (HTTP ${entry.status}): ${entry.error || "no error recorded"}`);
+        return false;
+    }
+
+    const response = JSON.parse(entry.body) as { appnews?: { newsitems?: Record<string, unknown>[] } };
+    const newsitems = (response.appnews?.newsitems || [])
+        .slice(0, limit)
+        .map(item => {
+            const contents = typeof item.contents === "string" && item.contents.length > EXCERPT_LENGTH
+                ? `${item.contents.slice(0, EXCERPT_LENGTH).trimEnd()}...`
+                : item.contents;
+            return { ...item, contents };
+        });
+
+    const fixture = { appnews: { ...response.appnews, newsitems } };
+    const out = path.join(FIXTURES_DIR, game, `steam-news-${appId}.json`);
+
+    fs.mkdirSync(path.dirname(out), { recursive: true });
+    fs.writeFileSync(out, JSON.stringify(fixture, null, 2) + "\n", "utf-8");
+    console.log(`✓ ${out}: ${newsitems.length} item(s) recorded ${entry.recorded_at_utc}`);
+    return true;
+}
+
+/**
+ * Every existing Steam fixture as [game, appId]
+ */
+function existingFixtures(): Array<[string, number]> {
+    return fs.readdirSync(FIXTURES_DIR).flatMap(game =>
+        fs.readdirSync(path.join(FIXTURES_DIR, game)).flatMap((file): Array<[string, number]> => {
+            const match = file.match(/^steam-news-(\d+)\.json$/);
+            return match ? [[game, parseInt(match[1], 10)]] : [];
+        })
+    );
+}
+
+const [game, appIdArg] = positionals;
+const appId = parseInt(appIdArg, 10);
+
+if (values.all) {
+    const missing = existingFixtures().filter(([fixtureGame, fixtureAppId]) => !writeFixture(fixtureGame, fixtureAppId));
+    if (missing.length > 0) process.exit(1);
+} else if (!game || isNaN(appId)) {
+    console.error(`Usage: node build/steam-fixtures.js <game> <appId> | --all [--cassette <dir>] [--items <n>]`);
+    process.exit(1);
+} else if (!writeFixture(game, appId)) {
+    process.exit(1);
+}
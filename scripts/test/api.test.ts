@@ -0,0 +1,99 @@
+/**
+ * Versioned public API (/api/v1/)
+ */
+
+import { describe, it, beforeEach, afterEach } from "node:test";
+import * as assert from "node:assert/strict";
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+import { Confidence, FailureType, FreshResult, UnavailableResult } from "../types";
+import { CATALOG } from "../catalog";
+import { toApiResult, getApiSchema, writeApi, SCHEMA_VERSION } from "../lib/api";
+
+const NOW = "2026-01-15T12:00:00.000Z";
+
+const FRESH: FreshResult = {
+    provider_id: "lol",
+    game: "lol",
+    type: "next-patch",
+    title: "League of Legends Next Patch",
+    status: "fresh",
+    nextEventUtc: "2026-01-21T00:00:00.000Z",
+    source_url: "https://example.com/schedule",
+    confidence: Confidence.High,
+    fetched_at_utc: NOW,
+    last_success_at_utc: NOW,
+    notes: "Patch 26.2"
+};
+
+const UNAVAILABLE: UnavailableResult = {
+    provider_id: "pubg",
+    game: "pubg",
+    type: "last-patch",
+    title: "PUBG Last Patch",
+    status: "unavailable",
+    nextEventUtc: null,
+    failure_type: FailureType.Blocked,
+    explanation: "HTTP 403",
+    fetched_at_utc: NOW
+};
+
+type SchemaBranch = { properties: Record<string, unknown>; required: string[] };
+
+function branch(status: string): SchemaBranch {
+    const branches = (getApiSchema().oneOf as SchemaBranch[]);
+    return branches.find(b => (b.properties.status as { const: string }).const === status)!;
+}
+
+describe("toApiResult", () => {
+    it("adds schema_version and the deprecated v0 aliases", () => {
+        const api = toApiResult(FRESH);
+        assert.equal(api.schema_version, SCHEMA_VERSION);
+        assert.equal(api.fetched_at_utc, NOW);
+        assert.equal(api.lastUpdatedUtc, NOW);
+        assert.deepEqual(api.source, { url: "https://example.com/schedule" });
+    });
+
+    it("has no source alias for unavailable results", () => {
+        const api = toApiResult(UNAVAILABLE);
+        assert.equal(api.source, undefined);
+        assert.equal(api.lastUpdatedUtc, NOW);
+    });
+
+    it("produces documents carrying every field the schema requires", () => {
+        for (const [result, status] of [[FRESH, "fresh"], [UNAVAILABLE, "unavailable"]] as const) {
+            const api = toApiResult(result) as unknown as Record<string, unknown>;
+            const { required, properties } = branch(status);
+            assert.deepEqual(required.filter(key => api[key] === undefined), [], status);
+            assert.deepEqual(Object.keys(api).filter(key => !(key in properties)), [], status);
+        }
+    });
+});
+
+describe("writeApi", () => {
+    let dir: string;
+
+    beforeEach(() => {
+        dir = fs.mkdtempSync(path.join(os.tmpdir(), "nextreset-api-"));
+    });
+
+    afterEach(() => {
+        fs.rmSync(dir, { recursive: true, force: true });
+    });
+
+    it("writes schema, index and one document per game with data", () => {
+        const lol = CATALOG.find(entry => entry.id === "lol")!;
+        const gta = CATALOG.find(entry => entry.id === "gta")!;
+        const index = writeApi(dir, [{ entry: lol, result: FRESH }, { entry: gta, result: null }], null);
+
+        assert.deepEqual(index.games.map(game => [game.id, game.status]), [["lol", "fresh"], ["gta", null]]);
+        assert.equal(index.games[0].url, "https://nextreset.co/api/v1/lol/next-patch.json");
+        assert.ok(fs.existsSync(path.join(dir, "schema.json")));
+        assert.ok(fs.existsSync(path.join(dir, "lol", "next-patch.json")));
+        assert.equal(fs.existsSync(path.join(dir, "gta", "weekly-reset.json")), false);
+
+        const doc = JSON.parse(fs.readFileSync(path.join(dir, "lol", "next-patch.json"), "utf-8"));
+        assert.equal(doc.schema_version, SCHEMA_VERSION);
+    });
+});
@@ -0,0 +1,110 @@
+/**
+ * Cassette record/replay round-trip
+ */
+
+process.env.TZ = "UTC";
+
+import { describe, it, before, after, afterEach } from "node:test";
+import * as assert from "node:assert/strict";
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+import { startFixtureServer, FixtureServer } from "./helpers/fixture-server";
+import { Confidence } from "../types";
+import { setCassette, recordFetch } from "../lib/cassette";
+import { fetchHtml, setBrowserBudget, getBrowserBudgetUsage, getFetchTrace, resetFetchTraces } from "../lib/fetch-layer";
+import { readScraper, ScraperSpec } from "../lib/scraper";
+import * as fortnite from "../providers/fortnite";
+
+const FORTNITE_URL = "https://www.fortnite.com/battle-pass";
+
+let server: FixtureServer;
+let dir: string;
+
+before(async () => {
+    server = await startFixtureServer();
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), "nextreset-cassette-"));
+});
+
+after(async () => {
+    await server.close();
+    fs.rmSync(dir, { recursive: true, force: true });
+});
+
+afterEach(() => {
+    setCassette(null);
+    setBrowserBudget(0);
+});
+
+describe("cassette", () => {
+    it("replays a recorded provider run without the network", async () => {
+        server.setRoutes({ [FORTNITE_URL]: { file: "fortnite/battle-pass.html" } });
+        setCassette({ mode: "record", dir });
+        const recorded = await fortnite.run();
+
+        server.setRoutes({});
+        setCassette({ mode: "replay", dir });
+        const replayed = await fortnite.run();
+
+        assert.equal(server.requests.length, 0);
+        assert.equal(replayed.nextEventUtc, recorded.nextEventUtc);
+        assert.equal(replayed.status, "fresh");
+        assert.equal(replayed.http_status, 200);
+    });
+
+    it("replays repeated requests for the same URL in recorded order", async () => {
+        const url = "https://example.com/status";
+
+        server.setRoutes({ [url]: { body: "first" } });
+        setCassette({ mode: "record", dir });
+        await fetchHtml(url);
+        server.setRoutes({ [url]: { body: "second" } });
+        await fetchHtml(url);
+
+        setCassette({ mode: "replay", dir });
+        assert.equal((await fetchHtml(url)).text, "first");
+        assert.equal((await fetchHtml(url)).text, "second");
+    });
+
+    it("replays a rendered browser page without launching a browser", async () => {
+        const spec: ScraperSpec = {
+            meta: { provider_id: "rendered", game: "rendered", type: "last-update", title: "Rendered Last Update" },
+            url: "https://example.com/updates",
+            items: "article",
+            title: ["h2"],
+            date: [{ element: "time" }],
+            pick: "newest",
+            browser: "only",
+            confidence: Confidence.Medium,
+            error: "Nothing rendered"
+        };
+
+        // What withBrowserRenderer records for a page it loaded
+        setCassette({ mode: "record", dir });
+        recordFetch(spec.url, {
+            ok: true, status: 200, mode: "browser", url: spec.url,
+            text: `<article><h2>Release Notes</h2><time datetime="2026-01-13T22:30:00Z">Jan 13</time></article>`
+        });
+
+        setCassette({ mode: "replay", dir });
+        setBrowserBudget(1);
+        resetFetchTraces();
+        const reading = await readScraper(spec);
+
+        assert.equal(reading.nextEventUtc, "2026-01-13T22:30:00.000Z");
+        assert.equal(reading.fetch_mode, "browser");
+        assert.deepEqual(getBrowserBudgetUsage(), { used: 1, max: 1 });
+        assert.equal(getFetchTrace("rendered")?.browser_sessions, 1);
+
+        // The replayed run takes the same budget as the recorded one
+        await assert.rejects(readScraper(spec), /Browser budget exhausted/);
+    });
+
+    it("reports a missing recording as an unavailable fetch", async () => {
+        setCassette({ mode: "replay", dir });
+        const result = await fetchHtml("https://example.com/never-recorded");
+
+        assert.equal(result.ok, false);
+        assert.match(result.error || "", /No cassette entry/);
+    });
+});
@@ -0,0 +1,100 @@
+/**
+ * Change detection between runs
+ */
+
+import { describe, it } from "node:test";
+import * as assert from "node:assert/strict";
+import { Confidence, FreshResult, StaleResult } from "../types";
+import { detectChanges, ChangeKind } from "../lib/changes";
+
+const NOW = new Date("2026-01-15T12:00:00.000Z");
+
+function fresh(game: string, type: string, nextEventUtc: string, extra: Partial<FreshResult> = {}): FreshResult {
+    return {
+        provider_id: game,
+        game,
+        type,
+        title: `${game} ${type}`,
+        status: "fresh",
+        nextEventUtc,
+        source_url: "https://example.com",
+        confidence: Confidence.High,
+        fetched_at_utc: NOW.toISOString(),
+        last_success_at_utc: NOW.toISOString(),
+        ...extra
+    };
+}
+
+function kinds(records: { kind: ChangeKind }[]): ChangeKind[] {
+    return records.map(r => r.kind);
+}
+
+describe("detectChanges", () => {
+    it("reports first_seen when there is no previous data", () => {
+        const changes = detectChanges(null, fresh("valorant", "last-patch", "2026-01-13T17:00:00.000Z"), NOW);
+        assert.deepEqual(kinds(changes), [ChangeKind.FirstSeen]);
+    });
+
+    it("reports nothing when the answer is unchanged", () => {
+        const prev = fresh("valorant", "last-patch", "2026-01-13T17:00:00.000Z");
+        const changes = detectChanges(prev, fresh("valorant", "last-patch", "2026-01-13T17:00:00.000Z"), NOW);
+        assert.deepEqual(changes, []);
+    });
+
+    it("detects a new patch for last-* types", () => {
+        const prev = fresh("valorant", "last-patch", "2025-12-16T17:00:00.000Z");
+        const changes = detectChanges(prev, fresh("valorant", "last-patch", "2026-01-13T17:00:00.000Z", { notes: "Patch 12.00" }), NOW);
+        assert.deepEqual(kinds(changes), [ChangeKind.NewEvent]);
+        assert.match(changes[0].summary, /Patch 12\.00/);
+    });
+
+    it("detects a moved season end while it is still upcoming", () => {
+        const prev = fresh("fortnite", "next-season", "2026-03-07T00:00:00.000Z");
+        const changes = detectChanges(prev, fresh("fortnite", "next-season", "2026-03-14T00:00:00.000Z"), NOW);
+        assert.deepEqual(kinds(changes), [ChangeKind.EventMoved]);
+        assert.match(changes[0].summary, /\+7d/);
+    });
+
+    it("treats an upcoming date after the previous one passed as a new event", () => {
+        const prev = fresh("lol", "next-patch", "2026-01-07T00:00:00.000Z");
+        const changes = detectChanges(prev, fresh("lol", "next-patch", "2026-01-21T00:00:00.000Z"), NOW);
+        assert.deepEqual(kinds(changes), [ChangeKind.NewEvent]);
+    });
+
+    it("compares previous stale (LKG) data too", () => {
+        const prev: StaleResult = {
+            ...fresh("lol", "next-patch", "2026-01-21T00:00:00.000Z"),
+            status: "stale",
+            reason: "HTTP 503"
+        };
+        const changes = detectChanges(prev, fresh("lol", "next-patch", "2026-01-22T00:00:00.000Z"), NOW);
+        assert.deepEqual(kinds(changes), [ChangeKind.EventMoved]);
+    });
+
+    it("compares a decayed stale result at its original confidence", () => {
+        const prev: StaleResult = {
+            ...fresh("cs2", "last-update", "2026-01-13T22:30:00.000Z", { confidence: Confidence.Low }),
+            status: "stale",
+            reason: "HTTP 503",
+            age_hours: 80,
+            original_confidence: Confidence.High
+        };
+        const changes = detectChanges(prev, fresh("cs2", "last-update", "2026-01-13T22:30:00.000Z"), NOW);
+        assert.deepEqual(changes, []);
+    });
+
+    it("detects status changes and ignores the status page timestamp", () => {
+        const prev = fresh("roblox", "status", "2026-01-15T06:00:00.000Z", { notes: "Current status: Operational" });
+        const curr = fresh("roblox", "status", "2026-01-15T11:42:00.000Z", { notes: "Current status: Degraded Performance", service_status: "Degraded Performance" });
+
+        const changes = detectChanges(prev, curr, NOW);
+        assert.deepEqual(kinds(changes), [ChangeKind.StatusChanged]);
+        assert.match(changes[0].summary, /"Operational" to "Degraded Performance"/);
+    });
+
+    it("detects confidence drops", () => {
+        const prev = fresh("cs2", "last-update", "2026-01-13T22:30:00.000Z");
+        const changes = detectChanges(prev, fresh("cs2", "last-update", "2026-01-13T22:30:00.000Z", { confidence: Confidence.Medium }), NOW);
+        assert.deepEqual(kinds(changes), [ChangeKind.ConfidenceDropped]);
+    });
+});
@@ -0,0 +1,53 @@
+/**
+ * Provider deadlines: timeouts abort the provider's in-flight work
+ */
+
+import { describe, it } from "node:test";
+import * as assert from "node:assert/strict";
+import * as http from "node:http";
+import { AddressInfo } from "node:net";
+import { withTimeout, TimeoutError } from "../lib/concurrency";
+import { fetchHtml, setProviderSignal } from "../lib/fetch-layer";
+
+describe("withTimeout", () => {
+    it("aborts the controller with the TimeoutError", async () => {
+        const controller = new AbortController();
+        const never = new Promise<void>(() => { });
+
+        await assert.rejects(withTimeout(never, 20, controller), TimeoutError);
+        assert.ok(controller.signal.aborted);
+        assert.ok(controller.signal.reason instanceof TimeoutError);
+    });
+
+    it("leaves the controller alone when the work finishes in time", async () => {
+        const controller = new AbortController();
+        assert.equal(await withTimeout(Promise.resolve(42), 1000, controller), 42);
+        assert.equal(controller.signal.aborted, false);
+    });
+});
+
+describe("provider abort signals", () => {
+    it("cancels a hanging fetch when the provider's signal aborts", async () => {
+        // Accepts connections but never answers
+        const server = http.createServer(() => { });
+        await new Promise<void>(resolve => server.listen(0, "127.0.0.1", resolve));
+        const url = `http://127.0.0.1:${(server.address() as AddressInfo).port}/`;
+
+        const controller = new AbortController();
+        setProviderSignal("hung", controller.signal);
+        try {
+            const started = Date.now();
+            const pending = fetchHtml(url, { providerId: "hung", timeout: 10000 });
+            setTimeout(() => controller.abort(new TimeoutError(50)), 50);
+
+            await assert.rejects(pending, TimeoutError);
+            assert.ok(Date.now() - started < 5000);
+
+            // Later work of the timed-out provider fails fast
+            await assert.rejects(fetchHtml(url, { providerId: "hung" }), TimeoutError);
+        } finally {
+            server.closeAllConnections();
+            await new Promise(resolve => server.close(resolve));
+        }
+    });
+});
@@ -0,0 +1,152 @@
+/**
+ * Multi-source consensus engine
+ */
+
+import { describe, it, beforeEach, afterEach } from "node:test";
+import * as assert from "node:assert/strict";
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+import { Confidence, ProviderMetadata } from "../types";
+import { CATALOG } from "../catalog";
+import { resolveConsensus, runSources, keepPreviousReading, isSameEvent, ProviderSource, SourceReading } from "../lib/consensus";
+import { detectChanges } from "../lib/changes";
+import { recordHistory, readHistory } from "../lib/history";
+import { getFeedItems } from "../lib/feeds";
+import { setDataDir, DEFAULT_DATA_DIR } from "../lib/data-output";
+
+const META: ProviderMetadata = { provider_id: "cs2", game: "cs2", type: "last-update", title: "Counter-Strike 2 Last Update" };
+
+function reading(nextEventUtc: string, confidence: Confidence = Confidence.High, notes?: string): SourceReading {
+    return { nextEventUtc, source_url: "https://example.com", confidence, notes };
+}
+
+function source(name: string, result: SourceReading | Error): ProviderSource {
+    return { name, read: async () => { if (result instanceof Error) throw result; return result; } };
+}
+
+describe("resolveConsensus", () => {
+    it("keeps a lone source's own confidence", () => {
+        const { confidence } = resolveConsensus([{ name: "Steam news", reading: reading("2026-01-13T22:30:00.000Z", Confidence.Medium) }]);
+        assert.equal(confidence, Confidence.Medium);
+    });
+
+    it("raises agreement within the window to High when a source is High", () => {
+        const { primary, confidence, notes } = resolveConsensus([
+            { name: "Official site", reading: reading("2026-01-13T00:00:00.000Z", Confidence.Medium, "Release Notes for 1/13/2026") },
+            { name: "Steam news", reading: reading("2026-01-13T22:30:00.000Z", Confidence.High) }
+        ]);
+
+        assert.equal(primary.name, "Official site");
+        assert.equal(confidence, Confidence.High);
+        assert.equal(notes, "Release Notes for 1/13/2026");
+    });
+
+    it("keeps two agreeing weak sources below High", () => {
+        const medium = resolveConsensus([
+            { name: "A", reading: reading("2026-01-13T00:00:00.000Z", Confidence.Medium) },
+            { name: "B", reading: reading("2026-01-13T17:00:00.000Z", Confidence.Medium) }
+        ]);
+        assert.equal(medium.confidence, Confidence.Medium);
+
+        const low = resolveConsensus([
+            { name: "A", reading: reading("2026-01-13T00:00:00.000Z", Confidence.Low) },
+            { name: "B", reading: reading("2026-01-13T17:00:00.000Z", Confidence.Low) }
+        ]);
+        assert.equal(low.confidence, Confidence.Medium);
+    });
+
+    it("drops to Medium and lists every date on disagreement", () => {
+        const { confidence, notes } = resolveConsensus([
+            { name: "Official site", reading: reading("2026-01-13T00:00:00.000Z", Confidence.High, "Release Notes for 1/13/2026") },
+            { name: "Steam news", reading: reading("2026-01-08T21:15:00.000Z") }
+        ]);
+
+        assert.equal(confidence, Confidence.Medium);
+        assert.equal(notes, "Release Notes for 1/13/2026. Sources disagree: Official site 2026-01-13 00:00 UTC, Steam news 2026-01-08 21:15 UTC");
+    });
+
+    it("never raises a Low primary on disagreement", () => {
+        const { confidence } = resolveConsensus([
+            { name: "A", reading: reading("2026-01-13T00:00:00.000Z", Confidence.Low) },
+            { name: "B", reading: reading("2026-01-01T00:00:00.000Z") }
+        ]);
+        assert.equal(confidence, Confidence.Low);
+    });
+});
+
+describe("runSources", () => {
+    it("uses the highest-priority source that answered", async () => {
+        const result = await runSources(META, [
+            source("Official site", new Error("Browser budget exhausted")),
+            source("Steam news", { ...reading("2026-01-13T22:30:00.000Z"), fetch_mode: "http", http_status: 200 })
+        ]);
+
+        assert.equal(result.status, "fresh");
+        assert.equal(result.nextEventUtc, "2026-01-13T22:30:00.000Z");
+        assert.equal(result.fetch_mode, "http");
+        assert.equal(result.http_status, 200);
+    });
+
+    it("consults sources concurrently but keeps priority order", async () => {
+        const slow: ProviderSource = {
+            name: "Official site",
+            read: () => new Promise(resolve => setTimeout(() => resolve(reading("2026-01-13T00:00:00.000Z", Confidence.High)), 30))
+        };
+        let started = 0;
+        const fast: ProviderSource = { name: "Steam news", read: async () => { started = Date.now(); return reading("2026-01-13T22:30:00.000Z"); } };
+
+        const before = Date.now();
+        const result = await runSources(META, [slow, fast]);
+        assert.ok(started - before < 30);
+        assert.equal(result.nextEventUtc, "2026-01-13T00:00:00.000Z");
+    });
+
+    it("throws with every source's error when all fail", async () => {
+        await assert.rejects(
+            runSources(META, [source("Official site", new Error("timeout")), source("Steam news", new Error("RSS HTTP 503"))]),
+            /All sources failed \(Official site: timeout; Steam news: RSS HTTP 503\)/
+        );
+    });
+});
+
+describe("keepPreviousReading", () => {
+    let dir: string;
+
+    beforeEach(() => {
+        dir = fs.mkdtempSync(path.join(os.tmpdir(), "nextreset-consensus-"));
+        setDataDir(dir);
+    });
+
+    afterEach(() => {
+        setDataDir(DEFAULT_DATA_DIR);
+        fs.rmSync(dir, { recursive: true, force: true });
+    });
+
+    const official = reading("2026-01-13T00:00:00.000Z", Confidence.High, "Release Notes for 1/13/2026");
+    const steam = { ...reading("2026-01-13T22:30:00.000Z", Confidence.High), version: "1.41.2" };
+
+    it("records nothing new when a source drops out between runs", async () => {
+        const first = await runSources(META, [source("Official site", official), source("Steam news", steam)]);
+        const second = keepPreviousReading(first, await runSources(META, [source("Official site", new Error("HTTP 503")), source("Steam news", steam)]));
+
+        assert.equal(second.nextEventUtc, first.nextEventUtc);
+        assert.deepEqual(detectChanges(first, second), []);
+
+        recordHistory(first);
+        recordHistory(second);
+        assert.equal(readHistory("cs2", "last-update").length, 1);
+
+        const entry = CATALOG.find(e => e.id === "cs2")!;
+        assert.equal(getFeedItems(entry, second).length, 1);
+    });
+
+    it("takes the new date for a different release", async () => {
+        const first = await runSources(META, [source("Steam news", steam)]);
+        const next = { ...reading("2026-01-13T23:45:00.000Z"), version: "1.41.3" };
+        const second = keepPreviousReading(first, await runSources(META, [source("Steam news", next)]));
+
+        assert.equal(second.nextEventUtc, "2026-01-13T23:45:00.000Z");
+        assert.equal(isSameEvent(first, { nextEventUtc: "2026-01-14T01:00:00.000Z" }), false);
+    });
+});
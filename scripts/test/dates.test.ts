@@ -0,0 +1,94 @@
+/**
+ * Shared date extraction
+ *
+ * Runs under a non-UTC host zone to prove results never depend on it.
+ */
+
+process.env.TZ = "Asia/Tokyo";
+
+import { describe, it } from "node:test";
+import * as assert from "node:assert/strict";
+import * as cheerio from "cheerio";
+import { parseDate, parseTimeElement, parseJsonLdDate, calendarDate, normalizeZone } from "../lib/dates";
+
+const NOW = new Date("2026-01-15T12:00:00.000Z");
+
+function iso(text: string, options = {}): string | null {
+    return parseDate(text, { now: NOW, ...options })?.date.toISOString() ?? null;
+}
+
+describe("parseDate", () => {
+    it("parses absolute formats to UTC regardless of host TZ", () => {
+        assert.equal(iso("Wednesday, Jan 21, 2026"), "2026-01-21T00:00:00.000Z");
+        assert.equal(iso("PATCH NOTES 2026.01.06"), "2026-01-06T00:00:00.000Z");
+        assert.equal(iso("1/13/2026"), "2026-01-13T00:00:00.000Z");
+        assert.equal(iso("7 March 2026"), "2026-03-07T00:00:00.000Z");
+        assert.equal(iso("Tue, 13 Jan 2026 22:30:00 +0000"), "2026-01-13T22:30:00.000Z");
+        assert.equal(iso("2025-12-09T16:00:00Z"), "2025-12-09T16:00:00.000Z");
+    });
+
+    it("applies zone qualifiers, DST-aware for ET / PT", () => {
+        assert.equal(iso("March 7, 2026 Eastern Time"), "2026-03-07T05:00:00.000Z");
+        assert.equal(iso("July 4, 2026 8pm ET"), "2026-07-05T00:00:00.000Z");
+        assert.equal(iso("1/13/2026 10:00 AM PT"), "2026-01-13T18:00:00.000Z");
+        assert.equal(iso("Jan 20, 2026 09:00 PST"), "2026-01-20T17:00:00.000Z");
+        assert.equal(iso("2026/02/03 04:00 UTC+8"), "2026-02-02T20:00:00.000Z");
+    });
+
+    it("resolves server time via the caller's serverTimezone", () => {
+        assert.equal(iso("End Time: 2026/02/03 14:59:59 (server time)", { serverTimezone: "UTC+8" }), "2026-02-03T06:59:59.000Z");
+        assert.equal(iso("2026-01-20 10:00", { timezone: "America/New_York" }), "2026-01-20T15:00:00.000Z");
+    });
+
+    it("reports the precision the source gave", () => {
+        assert.equal(parseDate("Jan 21, 2026", { now: NOW })?.precision, "day");
+        assert.equal(parseDate("Jan 21, 2026 10 AM", { now: NOW })?.precision, "hour");
+        assert.equal(parseDate("2026-01-21 10:30", { now: NOW })?.precision, "minute");
+        assert.equal(parseDate("2026-01-21T10:30:15Z", { now: NOW })?.precision, "second");
+        assert.equal(parseDate("Season 2 arrives in May 2026", { now: NOW })?.precision, "month");
+    });
+
+    it("parses relative dates against now, truncated to their precision", () => {
+        assert.equal(iso("posted 3 days ago"), "2026-01-12T00:00:00.000Z");
+        assert.equal(iso("an hour ago"), "2026-01-15T11:00:00.000Z");
+        assert.equal(iso("yesterday"), "2026-01-14T00:00:00.000Z");
+    });
+
+    it("infers a missing year only for standalone dates", () => {
+        assert.equal(iso("January 7"), "2026-01-07T00:00:00.000Z");
+        assert.equal(iso("December 30"), "2025-12-30T00:00:00.000Z");
+        assert.equal(iso("Squads of May 3 players"), null);
+    });
+
+    it("rejects impossible and implausible dates", () => {
+        assert.equal(iso("February 30, 2026"), null);
+        assert.equal(iso("Ends: January 1, 2020"), null);
+        assert.equal(iso("Ends: January 1, 2020", { window: null }), "2020-01-01T00:00:00.000Z");
+        assert.equal(iso("Patch 1.21.11"), null);
+    });
+
+    it("picks the earliest date in the text", () => {
+        assert.equal(iso("Title Update #9 Jan 13, 2026 — previous: Dec 16, 2025"), "2026-01-13T00:00:00.000Z");
+    });
+});
+
+describe("element and JSON-LD helpers", () => {
+    it("prefers the datetime attribute over the visible text", () => {
+        const $ = cheerio.load(`<time datetime="2025-12-09T16:00:00Z">3 months ago</time>`);
+        assert.equal(parseTimeElement($("time"), { now: NOW })?.date.toISOString(), "2025-12-09T16:00:00.000Z");
+        assert.equal(parseTimeElement($("span"), { now: NOW }), null);
+    });
+
+    it("reads JSON-LD dates including @graph", () => {
+        const $ = cheerio.load(`<script type="application/ld+json">{"@graph":[{"@type":"WebPage"},{"@type":"Article","datePublished":"2026-01-06T01:00:00+09:00"}]}</script>`);
+        assert.equal(parseJsonLdDate($, { now: NOW })?.date.toISOString(), "2026-01-05T16:00:00.000Z");
+    });
+
+    it("reports calendar dates in the source zone", () => {
+        const parsed = parseDate("March 7, 2026 ET", { now: NOW })!;
+        assert.equal(parsed.timezone, "America/New_York");
+        assert.equal(calendarDate(parsed), "2026-03-07");
+        assert.equal(normalizeZone("GMT-5"), "-05:00");
+        assert.equal(normalizeZone("Mars/Olympus"), null);
+    });
+});
@@ -0,0 +1,102 @@
+/**
+ * Atom / RSS feeds of detected updates
+ */
+
+import { describe, it, beforeEach, afterEach } from "node:test";
+import * as assert from "node:assert/strict";
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+import { XMLParser } from "fast-xml-parser";
+import { Confidence, FreshResult } from "../types";
+import { CATALOG } from "../catalog";
+import { getFeedItems, writeFeeds, getItemId } from "../lib/feeds";
+import { recordHistory } from "../lib/history";
+import { setDataDir, DEFAULT_DATA_DIR } from "../lib/data-output";
+
+function fresh(game: string, type: string, nextEventUtc: string, fetchedAt: string, notes?: string): FreshResult {
+    return {
+        provider_id: game,
+        game,
+        type,
+        title: `${game} ${type}`,
+        status: "fresh",
+        nextEventUtc,
+        source_url: `https://example.com/${game}/${nextEventUtc.slice(0, 10)}`,
+        confidence: Confidence.High,
+        fetched_at_utc: fetchedAt,
+        last_success_at_utc: fetchedAt,
+        notes
+    };
+}
+
+const entry = (id: string) => CATALOG.find(e => e.id === id)!;
+const parser = new XMLParser({ ignoreAttributes: false });
+
+describe("feeds", () => {
+    let dir: string;
+
+    beforeEach(() => {
+        dir = fs.mkdtempSync(path.join(os.tmpdir(), "nextreset-feeds-"));
+        setDataDir(dir);
+    });
+
+    afterEach(() => {
+        setDataDir(DEFAULT_DATA_DIR);
+        fs.rmSync(dir, { recursive: true, force: true });
+    });
+
+    it("keeps one item per patch across re-scrapes", () => {
+        recordHistory(fresh("cs2", "last-update", "2026-01-06T01:00:00.000Z", "2026-01-06T06:00:00.000Z", "Release notes for 1/5/2026"));
+        recordHistory(fresh("cs2", "last-update", "2026-01-13T22:30:00.000Z", "2026-01-14T00:00:00.000Z"));
+        const current = fresh("cs2", "last-update", "2026-01-13T22:30:00.000Z", "2026-01-15T12:00:00.000Z", "Release notes for 1/13/2026");
+        recordHistory(current);
+
+        const items = getFeedItems(entry("cs2"), current);
+        assert.deepEqual(items.map(item => [item.id, item.title, item.updated]), [
+            ["tag:nextreset.co,2026:cs2/last-update/2026-01-13T22:30:00.000Z", "Counter-Strike 2: Release notes for 1/13/2026", "2026-01-14T00:00:00.000Z"],
+            ["tag:nextreset.co,2026:cs2/last-update/2026-01-06T01:00:00.000Z", "Counter-Strike 2: Release notes for 1/5/2026", "2026-01-06T06:00:00.000Z"]
+        ]);
+    });
+
+    it("includes the current result before it reaches history and skips non last-* types", () => {
+        const stale = { ...fresh("pubg", "last-patch", "2026-01-13T17:00:00.000Z", "2026-01-15T12:00:00.000Z"), status: "stale" as const, reason: "HTTP 403" };
+        const items = getFeedItems(entry("pubg"), stale);
+        assert.equal(items.length, 1);
+        assert.equal(items[0].title, "PUBG: New Patch (2026-01-13)");
+
+        assert.deepEqual(getFeedItems(entry("lol"), fresh("lol", "next-patch", "2026-01-21T00:00:00.000Z", "2026-01-15T12:00:00.000Z")), []);
+    });
+
+    it("writes well-formed global and per-game Atom + RSS with stable ids", () => {
+        const cs2 = fresh("cs2", "last-update", "2026-01-13T22:30:00.000Z", "2026-01-14T00:00:00.000Z", "Fixes & <changes>");
+        const valorant = fresh("valorant", "last-patch", "2026-01-06T17:00:00.000Z", "2026-01-07T00:00:00.000Z", "Patch 12.00");
+        recordHistory(cs2);
+        recordHistory(valorant);
+
+        const written = writeFeeds([
+            { entry: entry("cs2"), result: cs2 },
+            { entry: entry("valorant"), result: valorant },
+            { entry: entry("gta"), result: null }
+        ], "2026-01-15T12:00:00.000Z");
+        assert.equal(written, 2);
+
+        const feedsDir = path.join(dir, "feeds");
+        assert.deepEqual(fs.readdirSync(feedsDir).sort(), [
+            "atom.xml", "cs2.last-update.atom.xml", "cs2.last-update.rss.xml", "rss.xml",
+            "valorant.last-patch.atom.xml", "valorant.last-patch.rss.xml"
+        ]);
+
+        const atom = parser.parse(fs.readFileSync(path.join(feedsDir, "atom.xml"), "utf-8")).feed;
+        assert.equal(atom.updated, "2026-01-14T00:00:00.000Z");
+        assert.deepEqual(atom.entry.map((e: { id: string }) => e.id), [
+            getItemId(entry("cs2"), cs2.nextEventUtc),
+            getItemId(entry("valorant"), valorant.nextEventUtc)
+        ]);
+        assert.equal(atom.entry[0].title, "Counter-Strike 2: Fixes & <changes>");
+
+        const rss = parser.parse(fs.readFileSync(path.join(feedsDir, "cs2.last-update.rss.xml"), "utf-8")).rss.channel;
+        assert.equal(rss.item.guid["#text"], getItemId(entry("cs2"), cs2.nextEventUtc));
+        assert.equal(rss.item.pubDate, "Tue, 13 Jan 2026 22:30:00 GMT");
+    });
+});
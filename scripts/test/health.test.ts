@@ -0,0 +1,125 @@
+/**
+ * Provider health ledger, circuit breaker and staleness escalation
+ */
+
+import { describe, it, beforeEach, afterEach } from "node:test";
+import * as assert from "node:assert/strict";
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+import { Confidence, FailureType, StaleResult, UnavailableResult } from "../types";
+import { setDataDir, DEFAULT_DATA_DIR } from "../lib/data-output";
+import {
+    readHealthLedger, writeHealthLedger, getHealth, shouldAttempt, getNextProbe, recordSuccess, recordFailure,
+    checkEscalation, CIRCUIT_FAILURE_THRESHOLD, HealthLedger
+} from "../lib/health";
+import { getStalenessPolicy } from "../lib/staleness";
+
+const hoursAfter = (iso: string, hours: number) => new Date(Date.parse(iso) + hours * 60 * 60 * 1000).toISOString();
+const T0 = "2026-01-15T00:00:00.000Z";
+
+/**
+ * N failures six hours apart starting at T0
+ */
+function fail(ledger: HealthLedger, runs: number): void {
+    for (let i = 0; i < runs; i++) {
+        recordFailure(ledger, "pubg", "last-patch", FailureType.Blocked, "HTTP 403", hoursAfter(T0, i * 6));
+    }
+}
+
+function stalePubg(lastSuccess: string): StaleResult {
+    return {
+        provider_id: "pubg", game: "pubg", type: "last-patch", title: "PUBG Last Patch", status: "stale",
+        nextEventUtc: "2026-01-08T02:00:00.000Z", source_url: "https://pubg.com/en/news", confidence: Confidence.Medium,
+        fetched_at_utc: hoursAfter(T0, 100), last_success_at_utc: lastSuccess, reason: "HTTP 403"
+    };
+}
+
+describe("circuit breaker", () => {
+    it("opens after the failure threshold and probes once per interval", () => {
+        const ledger: HealthLedger = {};
+        fail(ledger, CIRCUIT_FAILURE_THRESHOLD - 1);
+        assert.equal(getHealth(ledger, "pubg", "last-patch").circuit, "closed");
+
+        fail(ledger, 1);
+        const record = getHealth(ledger, "pubg", "last-patch");
+        assert.equal(record.circuit, "open");
+        assert.equal(record.first_failure_at_utc, T0);
+        assert.equal(record.last_error_class, FailureType.Blocked);
+
+        const lastAttempt = record.last_attempt_at_utc!;
+        assert.equal(shouldAttempt(record, new Date(hoursAfter(lastAttempt, 6))), false);
+        assert.equal(shouldAttempt(record, new Date(hoursAfter(lastAttempt, 24))), true);
+        assert.equal(getNextProbe(record), hoursAfter(lastAttempt, 24));
+    });
+
+    it("closes and resets on success", () => {
+        const ledger: HealthLedger = {};
+        fail(ledger, CIRCUIT_FAILURE_THRESHOLD + 2);
+        const record = recordSuccess(ledger, "pubg", "last-patch", hoursAfter(T0, 60));
+
+        assert.equal(record.circuit, "closed");
+        assert.equal(record.consecutive_failures, 0);
+        assert.equal(record.first_failure_at_utc, null);
+        assert.equal(shouldAttempt(record), true);
+    });
+});
+
+describe("health ledger file", () => {
+    let dir: string;
+
+    beforeEach(() => {
+        dir = fs.mkdtempSync(path.join(os.tmpdir(), "nextreset-health-"));
+        setDataDir(dir);
+    });
+
+    afterEach(() => {
+        setDataDir(DEFAULT_DATA_DIR);
+        fs.rmSync(dir, { recursive: true, force: true });
+    });
+
+    it("round-trips and survives corruption", () => {
+        const ledger: HealthLedger = {};
+        fail(ledger, 2);
+        writeHealthLedger(ledger);
+        assert.equal(getHealth(readHealthLedger(), "pubg", "last-patch").consecutive_failures, 2);
+
+        fs.writeFileSync(path.join(dir, "_health", "ledger.json"), "{oops");
+        assert.deepEqual(readHealthLedger(), {});
+    });
+});
+
+describe("escalation", () => {
+    it("uses the staleness policy's per-type thresholds", () => {
+        assert.equal(getStalenessPolicy("status").escalateAfterHours, 12);
+        assert.equal(getStalenessPolicy("next-banner").escalateAfterHours, 48);
+        assert.equal(getStalenessPolicy("last-title-update").escalateAfterHours, 96);
+        assert.equal(getStalenessPolicy("something-else").escalateAfterHours, 72);
+    });
+
+    it("escalates stale data past the threshold", () => {
+        const ledger: HealthLedger = {};
+        fail(ledger, 3);
+        const record = getHealth(ledger, "pubg", "last-patch");
+        const now = new Date(hoursAfter(T0, 100));
+
+        assert.equal(checkEscalation(stalePubg(hoursAfter(T0, 10)), record, now), null);
+
+        const escalation = checkEscalation(stalePubg(T0), record, now)!;
+        assert.equal(escalation.age_hours, 100);
+        assert.equal(escalation.threshold_hours, 96);
+        assert.equal(escalation.consecutive_failures, 3);
+    });
+
+    it("measures never-successful providers from the start of the outage", () => {
+        const ledger: HealthLedger = {};
+        fail(ledger, 1);
+        const unavailable: UnavailableResult = {
+            provider_id: "roblox", game: "roblox", type: "status", title: "Roblox Status", status: "unavailable",
+            nextEventUtc: null, failure_type: FailureType.Unavailable, explanation: "Crashed", fetched_at_utc: T0
+        };
+
+        assert.equal(checkEscalation(unavailable, getHealth(ledger, "pubg", "last-patch"), new Date(hoursAfter(T0, 11))), null);
+        assert.equal(checkEscalation(unavailable, getHealth(ledger, "pubg", "last-patch"), new Date(hoursAfter(T0, 13)))?.threshold_hours, 12);
+    });
+});
@@ -0,0 +1,90 @@
+/**
+ * Local stand-in for provider sources
+ *
+ * Serves recorded HTML/RSS/JSON fixtures keyed by the original URL, and points
+ * the fetch layer at it so providers run fully offline.
+ */
+
+import * as fs from "fs";
+import * as http from "http";
+import * as path from "path";
+import { AddressInfo } from "net";
+import { setUrlRewriter, setBrowserBudget } from "../../lib/fetch-layer";
+
+export const FIXTURES_DIR = path.join(__dirname, "../../../scripts/test/fixtures");
+
+export interface FixtureRoute {
+    file?: string;          // Path relative to FIXTURES_DIR
+    body?: string;          // Inline body (used when no file)
+    status?: number;
+    contentType?: string;
+}
+
+export interface FixtureServer {
+    baseUrl: string;
+    requests: string[];     // Original URLs requested, in order
+    setRoutes(routes: Record<string, FixtureRoute>): void;
+    close(): Promise<void>;
+}
+
+const CONTENT_TYPES: Record<string, string> = {
+    ".html": "text/html; charset=utf-8",
+    ".xml": "application/rss+xml; charset=utf-8",
+    ".json": "application/json; charset=utf-8"
+};
+
+/**
+ * Read a fixture file as UTF-8
+ */
+export function readFixture(file: string): string {
+    return fs.readFileSync(path.join(FIXTURES_DIR, file), "utf-8");
+}
+
+/**
+ * Start the stand-in and route all fetchHtml calls through it.
+ * The browser budget is zeroed so providers take their HTTP-only paths.
+ */
+export async function startFixtureServer(): Promise<FixtureServer> {
+    let routes: Record<string, FixtureRoute> = {};
+    const requests: string[] = [];
+
+    const server = http.createServer((req, res) => {
+        const original = decodeURIComponent((req.url || "/").slice(1));
+        requests.push(original);
+
+        const route = routes[original];
+        if (!route) {
+            res.writeHead(404, { "Content-Type": "text/plain" });
+            res.end(`No fixture for ${original}`);
+            return;
+        }
+
+        const body = route.file ? readFixture(route.file) : (route.body ?? "");
+        const ext = route.file ? path.extname(route.file) : "";
+        res.writeHead(route.status ?? 200, {
+            "Content-Type": route.contentType || CONTENT_TYPES[ext] || "text/plain; charset=utf-8"
+        });
+        res.end(body);
+    });
+
+    await new Promise<void>(resolve => server.listen(0, "127.0.0.1", resolve));
+    const { port } = server.address() as AddressInfo;
+    const baseUrl = `http://127.0.0.1:${port}`;
+
+    setUrlRewriter(url => `${baseUrl}/${encodeURIComponent(url)}`);
+    setBrowserBudget(0);
+
+    return {
+        baseUrl,
+        requests,
+        setRoutes(next) {
+            routes = next;
+            requests.length = 0;
+        },
+        close() {
+            setUrlRewriter(null);
+            server.closeAllConnections();
+            return new Promise<void>((resolve, reject) => server.close(err => err ? reject(err) : resolve()));
+        }
+    };
+}
@@ -0,0 +1,55 @@
+/**
+ * Local stand-in for webhook receivers (Discord / Slack / generic JSON)
+ *
+ * Captures every POSTed body; can be told to fail to exercise retry-next-run behaviour.
+ */
+
+import * as http from "http";
+import { AddressInfo } from "net";
+
+export interface ReceivedWebhook {
+    path: string;
+    body: any;
+}
+
+export interface WebhookServer {
+    url(pathname: string): string;
+    received: ReceivedWebhook[];
+    failWith(status: number | null): void;
+    close(): Promise<void>;
+}
+
+export async function startWebhookServer(): Promise<WebhookServer> {
+    const received: ReceivedWebhook[] = [];
+    let failStatus: number | null = null;
+
+    const server = http.createServer((req, res) => {
+        let raw = "";
+        req.on("data", chunk => raw += chunk);
+        req.on("end", () => {
+            if (failStatus) {
+                res.writeHead(failStatus);
+                res.end();
+                return;
+            }
+            received.push({ path: req.url || "/", body: raw ? JSON.parse(raw) : null });
+            res.writeHead(204);
+            res.end();
+        });
+    });
+
+    await new Promise<void>(resolve => server.listen(0, "127.0.0.1", resolve));
+    const { port } = server.address() as AddressInfo;
+
+    return {
+        url: pathname => `http://127.0.0.1:${port}${pathname}`,
+        received,
+        failWith(status) {
+            failStatus = status;
+        },
+        close() {
+            server.closeAllConnections();
+            return new Promise<void>((resolve, reject) => server.close(err => err ? reject(err) : resolve()));
+        }
+    };
+}
@@ -0,0 +1,76 @@
+/**
+ * Historical event archive
+ */
+
+import { describe, it, beforeEach, afterEach } from "node:test";
+import * as assert from "node:assert/strict";
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+import { Confidence, FreshResult } from "../types";
+import { setDataDir, DEFAULT_DATA_DIR } from "../lib/data-output";
+import { recordHistory, readHistory, queryHistory, getHistoryPath, getTimelinePath } from "../lib/history";
+
+let dir: string;
+
+function fresh(nextEventUtc: string, fetchedAt: string, notes?: string): FreshResult {
+    return {
+        provider_id: "lol",
+        game: "lol",
+        type: "next-patch",
+        title: "League of Legends Next Patch",
+        status: "fresh",
+        nextEventUtc,
+        source_url: "https://example.com/schedule",
+        confidence: Confidence.High,
+        notes,
+        fetched_at_utc: fetchedAt,
+        last_success_at_utc: fetchedAt
+    };
+}
+
+beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), "nextreset-history-"));
+    setDataDir(dir);
+});
+
+afterEach(() => {
+    setDataDir(DEFAULT_DATA_DIR);
+    fs.rmSync(dir, { recursive: true, force: true });
+});
+
+describe("history", () => {
+    it("deduplicates repeat sightings of the same event", () => {
+        recordHistory(fresh("2026-01-21T00:00:00.000Z", "2026-01-15T00:00:00.000Z", "Patch 26.2"));
+        recordHistory(fresh("2026-01-21T00:00:00.000Z", "2026-01-15T06:00:00.000Z", "Patch 26.2"));
+
+        const entries = readHistory("lol", "next-patch");
+        assert.equal(entries.length, 1);
+        assert.equal(entries[0].seen_count, 2);
+        assert.equal(entries[0].first_seen_utc, "2026-01-15T00:00:00.000Z");
+        assert.equal(entries[0].last_seen_utc, "2026-01-15T06:00:00.000Z");
+    });
+
+    it("appends new events and renders a newest-first timeline", () => {
+        recordHistory(fresh("2026-01-21T00:00:00.000Z", "2026-01-15T00:00:00.000Z", "Patch 26.2"));
+        recordHistory(fresh("2026-02-04T00:00:00.000Z", "2026-01-22T00:00:00.000Z", "Patch 26.3"));
+
+        const lines = fs.readFileSync(getHistoryPath("lol", "next-patch"), "utf-8").trim().split("\n");
+        assert.equal(lines.length, 2);
+
+        const timeline = JSON.parse(fs.readFileSync(getTimelinePath("lol", "next-patch"), "utf-8"));
+        assert.deepEqual(timeline.events.map((e: any) => e.notes), ["Patch 26.3", "Patch 26.2"]);
+    });
+
+    it("filters by event window and limit", () => {
+        recordHistory(fresh("2026-01-07T00:00:00.000Z", "2026-01-01T00:00:00.000Z", "Patch 26.1"));
+        recordHistory(fresh("2026-01-21T00:00:00.000Z", "2026-01-08T00:00:00.000Z", "Patch 26.2"));
+        recordHistory(fresh("2026-02-04T00:00:00.000Z", "2026-01-22T00:00:00.000Z", "Patch 26.3"));
+
+        const windowed = queryHistory("lol", "next-patch", { since: "2026-01-10T00:00:00Z", until: "2026-01-31T00:00:00Z" });
+        assert.deepEqual(windowed.map(e => e.notes), ["Patch 26.2"]);
+
+        const latest = queryHistory("lol", "next-patch", { limit: 2 });
+        assert.deepEqual(latest.map(e => e.notes), ["Patch 26.3", "Patch 26.2"]);
+    });
+});
@@ -0,0 +1,161 @@
+/**
+ * iCalendar feeds
+ */
+
+import { describe, it, beforeEach, afterEach } from "node:test";
+import * as assert from "node:assert/strict";
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+import { Confidence, FreshResult } from "../types";
+import { CATALOG } from "../catalog";
+import { toCalendarEvents, renderCalendar, writeCalendars, hasCalendar } from "../lib/ics";
+import { setDataDir, DEFAULT_DATA_DIR } from "../lib/data-output";
+
+const NOW = "2026-01-15T12:00:00.000Z";
+
+function fresh(game: string, type: string, nextEventUtc: string, extra: Partial<FreshResult> = {}): FreshResult {
+    return {
+        provider_id: game,
+        game,
+        type,
+        title: `${game} ${type}`,
+        status: "fresh",
+        nextEventUtc,
+        source_url: "https://example.com",
+        confidence: Confidence.High,
+        fetched_at_utc: NOW,
+        last_success_at_utc: NOW,
+        ...extra
+    };
+}
+
+const entry = (id: string) => CATALOG.find(e => e.id === id)!;
+
+function vevents(ics: string): string[] {
+    return ics.split("BEGIN:VEVENT").slice(1);
+}
+
+describe("toCalendarEvents", () => {
+    it("emits one recurring event for computed schedules", () => {
+        const gta = fresh("gta", "weekly-reset", "2026-01-22T10:00:00.000Z", { recurrence: "FREQ=WEEKLY;BYDAY=TH" });
+        const ics = renderCalendar("GTA", toCalendarEvents(entry("gta"), gta), NOW);
+
+        assert.equal(vevents(ics).length, 1);
+        assert.match(ics, /DTSTART:20260122T100000Z\r\nRRULE:FREQ=WEEKLY;BYDAY=TH\r\n/);
+        assert.match(ics, /UID:gta\.weekly-reset\.recurring@nextreset\.co/);
+    });
+
+    it("emits one event per scheduled entry with label-based UIDs", () => {
+        const lol = fresh("lol", "next-patch", "2026-01-21T00:00:00.000Z", {
+            events: [
+                { label: "Patch 26.2", start: "2026-01-21T00:00:00.000Z", confidence: Confidence.High },
+                { label: "Patch 26.3", start: "2026-02-04T00:00:00.000Z", confidence: Confidence.High }
+            ]
+        });
+        const events = toCalendarEvents(entry("lol"), lol);
+
+        assert.deepEqual(events.map(e => [e.uid, e.summary]), [
+            ["lol.next-patch.patch-26-2@nextreset.co", "League of Legends: Patch 26.2"],
+            ["lol.next-patch.patch-26-3@nextreset.co", "League of Legends: Patch 26.3"]
+        ]);
+    });
+
+    it("numbers repeated labels so every UID is unique", () => {
+        const lol = fresh("lol", "next-patch", "2026-01-21T00:00:00.000Z", {
+            events: [
+                { label: "Maintenance", start: "2026-01-21T00:00:00.000Z", confidence: Confidence.High },
+                { label: "Maintenance", start: "2026-02-04T00:00:00.000Z", confidence: Confidence.High }
+            ]
+        });
+
+        assert.deepEqual(toCalendarEvents(entry("lol"), lol).map(e => e.uid), [
+            "lol.next-patch.maintenance@nextreset.co",
+            "lol.next-patch.maintenance-2@nextreset.co"
+        ]);
+    });
+
+    it("emits all-day events for date-only results on the source's calendar date", () => {
+        // Midnight in Shanghai is still the previous day in UTC
+        const banner = fresh("genshin", "next-banner", "2026-01-20T16:00:00.000Z", {
+            precision: "day",
+            source_timezone: "Asia/Shanghai",
+            events: [{ label: "Event Wish", start: "2026-01-20T16:00:00.000Z", end: "2026-02-09T16:00:00.000Z", confidence: Confidence.Medium }]
+        });
+        const events = toCalendarEvents(entry("genshin"), banner);
+        assert.deepEqual([events[0].start, events[0].end, events[0].allDay], ["2026-01-21", "2026-02-11", true]);
+
+        const ics = renderCalendar("Genshin", events, NOW);
+        assert.match(ics, /DTSTART;VALUE=DATE:20260121\r\nDTEND;VALUE=DATE:20260211\r\n/);
+    });
+
+    it("spans start to end, or marks the end when only the end is known", () => {
+        const banner = (start: string | null) => fresh("genshin", "next-banner", "2026-02-03T06:59:59.000Z", {
+            events: [{ label: "Event Wish", start, end: "2026-02-03T06:59:59.000Z", confidence: Confidence.Medium }]
+        });
+
+        const [span] = toCalendarEvents(entry("genshin"), banner("2026-01-13T10:00:00.000Z"));
+        assert.deepEqual([span.start, span.end, span.summary], ["2026-01-13T10:00:00.000Z", "2026-02-03T06:59:59.000Z", "Genshin Impact: Event Wish"]);
+
+        const [end] = toCalendarEvents(entry("genshin"), banner(null));
+        assert.deepEqual([end.start, end.end, end.summary], ["2026-02-03T06:59:59.000Z", undefined, "Genshin Impact: Event Wish ends"]);
+    });
+
+    it("skips unavailable results and non-calendar types", () => {
+        assert.equal(hasCalendar("last-patch"), false);
+        assert.deepEqual(toCalendarEvents(entry("pubg"), fresh("pubg", "last-patch", "2026-01-13T17:00:00.000Z")), []);
+        assert.deepEqual(toCalendarEvents(entry("lol"), null), []);
+    });
+});
+
+describe("renderCalendar", () => {
+    it("escapes text and folds long lines at 75 octets", () => {
+        const ics = renderCalendar("Test", [{
+            uid: "x@nextreset.co",
+            summary: "Patch 26.2, hotfix; notes",
+            start: "2026-01-21T00:00:00.000Z",
+            description: "é".repeat(60)
+        }], NOW);
+
+        assert.match(ics, /SUMMARY:Patch 26\.2\\, hotfix\\; notes\r\n/);
+        for (const line of ics.split("\r\n")) {
+            assert.ok(Buffer.byteLength(line) <= 75, line);
+        }
+        assert.ok(ics.endsWith("END:VCALENDAR\r\n"));
+    });
+});
+
+describe("writeCalendars", () => {
+    let dir: string;
+
+    beforeEach(() => {
+        dir = fs.mkdtempSync(path.join(os.tmpdir(), "nextreset-ics-"));
+        setDataDir(dir);
+    });
+
+    afterEach(() => {
+        setDataDir(DEFAULT_DATA_DIR);
+        fs.rmSync(dir, { recursive: true, force: true });
+    });
+
+    it("writes per-game feeds and a combined feed in date order", () => {
+        const written = writeCalendars([
+            { entry: entry("lol"), result: fresh("lol", "next-patch", "2026-01-21T00:00:00.000Z") },
+            { entry: entry("gta"), result: fresh("gta", "weekly-reset", "2026-01-15T10:00:00.000Z", { recurrence: "FREQ=WEEKLY" }) },
+            { entry: entry("fortnite"), result: null },
+            { entry: entry("pubg"), result: fresh("pubg", "last-patch", "2026-01-13T17:00:00.000Z") }
+        ], NOW);
+
+        assert.equal(written, 3);
+        assert.deepEqual(fs.readdirSync(path.join(dir, "calendar")).sort(), [
+            "all.ics", "fortnite.next-season.ics", "gta.weekly-reset.ics", "lol.next-patch.ics"
+        ]);
+
+        const combined = fs.readFileSync(path.join(dir, "calendar", "all.ics"), "utf-8");
+        assert.deepEqual(vevents(combined).map(e => /UID:(\S+)/.exec(e)![1]), [
+            "gta.weekly-reset.recurring@nextreset.co",
+            "lol.next-patch@nextreset.co"
+        ]);
+        assert.equal(vevents(fs.readFileSync(path.join(dir, "calendar", "fortnite.next-season.ics"), "utf-8")).length, 0);
+    });
+});
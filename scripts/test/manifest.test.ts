@@ -0,0 +1,92 @@
+/**
+ * Run manifest (index.json)
+ */
+
+import { describe, it, beforeEach, afterEach } from "node:test";
+import * as assert from "node:assert/strict";
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+import { Confidence, FailureType, FreshResult, ProviderResult } from "../types";
+import { CatalogEntry } from "../catalog";
+import { buildManifest, writeManifest, createRunId, DataManifest } from "../lib/manifest";
+import { setDataDir, DEFAULT_DATA_DIR, writeLiveJson } from "../lib/data-output";
+
+const NOW = "2026-01-15T12:00:00.000Z";
+
+function entry(id: string, type: string): CatalogEntry {
+    return { id, type, name: id, typeTitle: type, kicker: "Test", path: `${id}/${type}`, run: async () => { throw new Error("not run"); } };
+}
+
+function fresh(game: string, type: string, nextEventUtc: string): FreshResult {
+    return {
+        provider_id: game,
+        game,
+        type,
+        title: `${game} ${type}`,
+        status: "fresh",
+        nextEventUtc,
+        source_url: "https://example.com",
+        confidence: Confidence.High,
+        fetched_at_utc: NOW,
+        last_success_at_utc: NOW
+    };
+}
+
+const RUN = { id: "local-20260115T120000Z", started_at_utc: NOW, finished_at_utc: "2026-01-15T12:01:00.000Z" };
+
+describe("buildManifest", () => {
+    let dir: string;
+
+    beforeEach(() => {
+        dir = fs.mkdtempSync(path.join(os.tmpdir(), "nextreset-manifest-"));
+        setDataDir(dir);
+    });
+
+    afterEach(() => {
+        setDataDir(DEFAULT_DATA_DIR);
+        fs.rmSync(dir, { recursive: true, force: true });
+    });
+
+    it("covers the whole catalog, carrying over entries not run this time", () => {
+        const catalog = [entry("lol", "next-patch"), entry("pubg", "last-patch"), entry("gta", "weekly-reset")];
+        writeLiveJson(fresh("pubg", "last-patch", "2026-01-13T17:00:00.000Z"));
+
+        const results = new Map<string, ProviderResult>([
+            ["lol", fresh("lol", "next-patch", "2026-01-21T00:00:00.000Z")]
+        ]);
+        const manifest = buildManifest(catalog, results, RUN);
+
+        assert.deepEqual(manifest.providers.map(p => [p.id, p.refreshed, p.result?.nextEventUtc ?? null]), [
+            ["lol", true, "2026-01-21T00:00:00.000Z"],
+            ["pubg", false, "2026-01-13T17:00:00.000Z"],
+            ["gta", false, null]
+        ]);
+        assert.equal(manifest.providers[0].data, "lol.next-patch.json");
+        assert.deepEqual(manifest.run.providers_run, ["lol"]);
+        assert.deepEqual(manifest.run.counts, { total: 3, fresh: 2, stale: 0, unavailable: 0, missing: 1 });
+    });
+
+    it("counts unavailable results and writes index.json", () => {
+        const results = new Map<string, ProviderResult>([
+            ["pubg", {
+                provider_id: "pubg", game: "pubg", type: "last-patch", title: "PUBG", status: "unavailable",
+                nextEventUtc: null, failure_type: FailureType.Blocked, explanation: "HTTP 403", fetched_at_utc: NOW
+            }]
+        ]);
+        const filepath = writeManifest(buildManifest([entry("pubg", "last-patch")], results, RUN));
+
+        assert.equal(path.basename(filepath), "index.json");
+        const written = JSON.parse(fs.readFileSync(filepath, "utf-8")) as DataManifest;
+        assert.equal(written.run.id, RUN.id);
+        assert.equal(written.run.counts.unavailable, 1);
+        assert.equal(written.providers[0].result?.status, "unavailable");
+    });
+});
+
+describe("createRunId", () => {
+    it("prefers the CI run id, otherwise the start time", () => {
+        assert.equal(createRunId(NOW, { GITHUB_RUN_ID: "123", GITHUB_RUN_ATTEMPT: "2" }), "gh-123-2");
+        assert.equal(createRunId(NOW, {}), "local-20260115T120000Z");
+    });
+});
@@ -0,0 +1,202 @@
+/**
+ * Webhook notifier: formats, subscriptions, dedup and outage escalation
+ */
+
+import { describe, it, before, after, beforeEach, afterEach } from "node:test";
+import * as assert from "node:assert/strict";
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+import { startWebhookServer, WebhookServer } from "./helpers/webhook-server";
+import { Confidence, FailureType, FreshResult, ProviderResult, UnavailableResult } from "../types";
+import { setDataDir, DEFAULT_DATA_DIR } from "../lib/data-output";
+import { detectChanges } from "../lib/changes";
+import { notify, loadNotifyConfig, NotifyConfig } from "../lib/notifier";
+import { Escalation, HealthLedger, recordFailure, writeHealthLedger } from "../lib/health";
+
+let server: WebhookServer;
+let dir: string;
+
+function valorantPatch(nextEventUtc: string): FreshResult {
+    return {
+        provider_id: "valorant",
+        game: "valorant",
+        type: "last-patch",
+        title: "VALORANT Last Patch",
+        status: "fresh",
+        nextEventUtc,
+        source_url: "https://playvalorant.com/en-us/news/game-updates/",
+        confidence: Confidence.Medium,
+        notes: "VALORANT Patch Notes 12.00",
+        fetched_at_utc: "2026-01-15T12:00:00.000Z",
+        last_success_at_utc: "2026-01-15T12:00:00.000Z"
+    };
+}
+
+function gtaReset(nextEventUtc: string): FreshResult {
+    return {
+        provider_id: "gta",
+        game: "gta",
+        type: "weekly-reset",
+        title: "GTA Online Weekly Reset",
+        status: "fresh",
+        nextEventUtc,
+        source_url: "https://www.rockstargames.com/gta-online",
+        confidence: Confidence.High,
+        recurrence: "FREQ=WEEKLY;BYDAY=TH",
+        fetched_at_utc: "2026-01-15T12:00:00.000Z",
+        last_success_at_utc: "2026-01-15T12:00:00.000Z"
+    };
+}
+
+function pubgDown(): UnavailableResult {
+    return {
+        provider_id: "pubg",
+        game: "pubg",
+        type: "last-patch",
+        title: "PUBG Last Patch",
+        status: "unavailable",
+        nextEventUtc: null,
+        failure_type: FailureType.Blocked,
+        explanation: "HTTP 403",
+        fetched_at_utc: "2026-01-15T12:00:00.000Z"
+    };
+}
+
+/**
+ * One more failed pubg attempt in the ledger, as refresh-all records it before notifying
+ */
+function pubgFails(ledger: HealthLedger): HealthLedger {
+    recordFailure(ledger, "pubg", "last-patch", FailureType.Blocked, "HTTP 403", "2026-01-15T12:00:00.000Z");
+    return ledger;
+}
+
+function config(): NotifyConfig {
+    return {
+        staleRunsThreshold: 2,
+        targets: [
+            { name: "discord", format: "discord", url: server.url("/discord"), games: ["valorant"] },
+            { name: "slack", format: "slack", url: server.url("/slack") },
+            { name: "generic", format: "json", url: server.url("/json"), events: ["provider_stale"] }
+        ]
+    };
+}
+
+const newPatch = detectChanges(valorantPatch("2025-12-16T17:00:00.000Z"), valorantPatch("2026-01-13T17:00:00.000Z"));
+
+before(async () => {
+    server = await startWebhookServer();
+});
+
+after(async () => {
+    await server.close();
+});
+
+beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), "nextreset-notify-"));
+    setDataDir(dir);
+    server.received.length = 0;
+    server.failWith(null);
+});
+
+afterEach(() => {
+    setDataDir(DEFAULT_DATA_DIR);
+    fs.rmSync(dir, { recursive: true, force: true });
+});
+
+describe("notifier", () => {
+    it("posts each format to subscribed targets", async () => {
+        const results: ProviderResult[] = [valorantPatch("2026-01-13T17:00:00.000Z")];
+        const summary = await notify(config(), results, newPatch);
+
+        assert.equal(summary.sent, 2);
+        const byPath = Object.fromEntries(server.received.map(r => [r.path, r.body]));
+        assert.equal(byPath["/discord"].embeds[0].title, "VALORANT Last Patch");
+        assert.match(byPath["/slack"].text, /new event 2026-01-13T17:00:00.000Z/);
+        assert.equal(byPath["/json"], undefined);
+    });
+
+    it("does not announce the same event twice", async () => {
+        const results: ProviderResult[] = [valorantPatch("2026-01-13T17:00:00.000Z")];
+        await notify(config(), results, newPatch);
+        const second = await notify(config(), results, newPatch);
+
+        assert.equal(second.sent, 0);
+        assert.equal(second.skipped, 2);
+        assert.equal(server.received.length, 2);
+    });
+
+    it("does not announce a recurring schedule rolling over", async () => {
+        const now = new Date("2026-01-15T12:00:00.000Z");
+        const changes = detectChanges(gtaReset("2026-01-15T10:00:00.000Z"), gtaReset("2026-01-22T10:00:00.000Z"), now);
+        const summary = await notify(config(), [gtaReset("2026-01-22T10:00:00.000Z")], changes);
+
+        assert.deepEqual(changes, []);
+        assert.equal(summary.attempted, 0);
+        assert.equal(server.received.length, 0);
+    });
+
+    it("respects per-game subscriptions", async () => {
+        const results: ProviderResult[] = [pubgDown()];
+        const ledger: HealthLedger = {};
+        await notify(config(), results, [], { ledger: pubgFails(ledger) });
+        await notify(config(), results, [], { ledger: pubgFails(ledger) });
+
+        const paths = server.received.map(r => r.path).sort();
+        assert.deepEqual(paths, ["/json", "/slack"]);
+        assert.equal(server.received.find(r => r.path === "/json")!.body.kind, "provider_stale");
+    });
+
+    it("announces outages only after N ledger failures, once per outage", async () => {
+        const results: ProviderResult[] = [pubgDown()];
+        const ledger: HealthLedger = {};
+        const first = await notify(config(), results, [], { ledger: pubgFails(ledger) });
+        const second = await notify(config(), results, [], { ledger: pubgFails(ledger) });
+        const third = await notify(config(), results, [], { ledger: pubgFails(ledger) });
+
+        assert.equal(first.attempted, 0);
+        assert.equal(second.sent, 2);
+        assert.equal(third.sent, 0);
+        assert.match(server.received.find(r => r.path === "/slack")!.body.text, /no fresh data after 2 consecutive failure\(s\)/);
+    });
+
+    it("reads the persisted health ledger by default", async () => {
+        writeHealthLedger(pubgFails(pubgFails({})));
+        const summary = await notify(config(), [pubgDown()], []);
+        assert.equal(summary.sent, 2);
+    });
+
+    it("announces escalations once per outage", async () => {
+        const escalation: Escalation = {
+            provider_id: "pubg", game: "pubg", type: "last-patch", title: "PUBG Last Patch",
+            age_hours: 120, threshold_hours: 96, consecutive_failures: 20,
+            first_failure_at_utc: "2026-01-10T12:00:00.000Z", last_error_class: FailureType.Blocked, last_error: "HTTP 403"
+        };
+        const targets: NotifyConfig = { targets: [{ name: "slack", format: "slack", url: server.url("/slack"), events: ["provider_escalated"] }] };
+
+        const first = await notify(targets, [pubgDown()], [], { escalations: [escalation] });
+        const second = await notify(targets, [pubgDown()], [], { escalations: [escalation] });
+
+        assert.equal(first.sent, 1);
+        assert.equal(second.skipped, 1);
+        assert.match(server.received[0].body.text, /120h old \(threshold 96h\) after 20 consecutive failure\(s\)\. Last error \(blocked\)/);
+    });
+
+    it("retries failed deliveries on the next run", async () => {
+        const results: ProviderResult[] = [valorantPatch("2026-01-13T17:00:00.000Z")];
+        server.failWith(500);
+        const failed = await notify(config(), results, newPatch);
+        assert.equal(failed.failed, 2);
+
+        server.failWith(null);
+        const retried = await notify(config(), results, newPatch);
+        assert.equal(retried.sent, 2);
+    });
+
+    it("loads inline config from NOTIFY_WEBHOOKS", () => {
+        const loaded = loadNotifyConfig({ NOTIFY_WEBHOOKS: JSON.stringify({ targets: [{ name: "a", format: "json", url: "http://x" }] }) });
+        assert.equal(loaded?.targets[0].name, "a");
+        assert.equal(loadNotifyConfig({}), null);
+        assert.throws(() => loadNotifyConfig({ NOTIFY_WEBHOOKS: JSON.stringify({ targets: [{ name: "a", format: "xml", url: "http://x" }] }) }));
+    });
+});
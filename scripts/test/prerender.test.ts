@@ -0,0 +1,81 @@
+/**
+ * Server-side pre-rendering of game pages
+ */
+
+process.env.TZ = "America/Los_Angeles";
+
+import { describe, it } from "node:test";
+import * as assert from "node:assert/strict";
+import { Confidence, FailureType, FreshResult, StaleResult } from "../types";
+import { CATALOG } from "../catalog";
+import { prerenderPage, formatEventDate } from "../lib/prerender";
+
+const NOW = "2026-01-15T12:00:00.000Z";
+const entry = (id: string) => CATALOG.find(e => e.id === id)!;
+
+const LOL: FreshResult = {
+    provider_id: "lol",
+    game: "lol",
+    type: "next-patch",
+    title: "League of Legends Next Patch",
+    status: "fresh",
+    nextEventUtc: "2026-01-21T00:00:00.000Z",
+    source_url: "https://example.com/schedule?a=1&b=2",
+    confidence: Confidence.High,
+    fetched_at_utc: NOW,
+    last_success_at_utc: NOW,
+    precision: "day",
+    notes: "Patch 26.2"
+};
+
+describe("prerenderPage", () => {
+    it("keeps the skeleton when there is no data", () => {
+        const page = prerenderPage(entry("lol"), null);
+        assert.equal(page.description, "Track League of Legends events and updates");
+        assert.match(page.countdown, /countdown-skeleton/);
+        assert.equal(page.initialData, null);
+    });
+
+    it("bakes date, source, confidence and notes into the page", () => {
+        const page = prerenderPage(entry("lol"), LOL);
+        assert.equal(page.description, "League of Legends next patch: Jan 21, 2026 (Patch 26.2). Tracked live from official sources.");
+        assert.match(page.countdown, /<time datetime="2026-01-21T00:00:00.000Z">Jan 21, 2026<\/time>/);
+        assert.equal(page.source, `<a href="https://example.com/schedule?a=1&amp;b=2" target="_blank" rel="noopener">League of Legends Next Patch</a>`);
+        assert.equal(page.confidenceClass, "confidence confidence-high");
+        assert.match(page.updated, /Jan 15, 2026, 12:00 UTC/);
+        assert.equal(page.notes, "Patch 26.2");
+        assert.deepEqual(JSON.parse(page.initialData!), LOL);
+    });
+
+    it("shows the stale reason and the unavailable state", () => {
+        const stale: StaleResult = { ...LOL, status: "stale", reason: "HTTP 503", last_success_at_utc: "2026-01-12T12:00:00.000Z" };
+        const stalePage = prerenderPage(entry("lol"), stale);
+        assert.equal(stalePage.notes, "⚠ Using cached data: HTTP 503");
+        assert.equal(stalePage.description, "League of Legends next patch: Jan 21, 2026 (Patch 26.2). Cached from the last successful check 3 days ago; the latest check failed.");
+        assert.match(stalePage.countdown, /countdown-value stale/);
+
+        const unavailable = prerenderPage(entry("pubg"), {
+            provider_id: "pubg", game: "pubg", type: "last-patch", title: "PUBG Last Patch", status: "unavailable",
+            nextEventUtc: null, failure_type: FailureType.Blocked, explanation: "HTTP 403", fetched_at_utc: NOW
+        });
+        assert.match(unavailable.countdown, /Data Unavailable/);
+        assert.equal(unavailable.confidence, "none");
+    });
+
+    it("cannot break out of the embedded data script", () => {
+        const page = prerenderPage(entry("lol"), { ...LOL, notes: "</script><script>alert(1)</script>" });
+        assert.equal(page.initialData!.includes("</script>"), false);
+        assert.equal(JSON.parse(page.initialData!).notes, "</script><script>alert(1)</script>");
+    });
+});
+
+describe("formatEventDate", () => {
+    it("uses UTC for timed events regardless of host TZ", () => {
+        assert.equal(formatEventDate("2026-01-22T10:00:00.000Z"), "Jan 22, 2026, 10:00 UTC");
+    });
+
+    it("shows date-only events on the source's calendar day", () => {
+        assert.equal(formatEventDate("2026-03-07T05:00:00.000Z", { precision: "day", source_timezone: "America/New_York" }), "Mar 7, 2026");
+        assert.equal(formatEventDate("2026-03-07T05:00:00.000Z", { precision: "day", source_timezone: "+08:00" }), "Mar 7, 2026");
+    });
+});
@@ -0,0 +1,437 @@
+/**
+ * Offline provider regression tests
+ *
+ * Every provider runs against recorded fixtures served by the local stand-in,
+ * with the clock pinned so "upcoming" / guardrail logic is deterministic.
+ */
+
+process.env.TZ = "UTC";
+
+import { describe, it, before, after, beforeEach, afterEach, mock } from "node:test";
+import * as assert from "node:assert/strict";
+import { startFixtureServer, FixtureServer, FixtureRoute, readFixture } from "./helpers/fixture-server";
+import { setBrowserBudget } from "../lib/fetch-layer";
+import { Confidence, FreshResult, ProviderResult } from "../types";
+import { validateResult } from "../lib/validate";
+import { CATALOG } from "../catalog";
+import { getSteamNewsUrl as steamNews } from "../lib/steam";
+
+import * as fortnite from "../providers/fortnite";
+import * as lol from "../providers/lol";
+import * as cs2 from "../providers/cs2";
+import * as minecraft from "../providers/minecraft";
+import * as roblox from "../providers/roblox";
+import * as gta from "../providers/gta";
+import * as genshin from "../providers/genshin";
+import * as pubg from "../providers/pubg";
+import * as rdr2 from "../providers/rdr2";
+import { SCRAPER_SPECS } from "../providers/scraped";
+import { scraperProvider } from "../lib/scraper";
+
+const valorant = { run: scraperProvider(SCRAPER_SPECS["valorant"]) };
+const warzone = { run: scraperProvider(SCRAPER_SPECS["warzone"]) };
+const eafc = { run: scraperProvider(SCRAPER_SPECS["ea-sports-fc"]) };
+
+const NOW = Date.parse("2026-01-15T12:00:00.000Z");
+
+const URLS = {
+    fortnite: "https://www.fortnite.com/battle-pass",
+    lol: "https://support-leagueoflegends.riotgames.com/hc/en-us/articles/360018987893-League-of-Legends-Patch-Schedule",
+    valorant: "https://playvalorant.com/en-us/news/game-updates/",
+    cs2Steam: steamNews(730),
+    minecraftListing: "https://feedback.minecraft.net/hc/en-us/sections/360001186971-Release-Changelogs",
+    minecraftArticle: "https://feedback.minecraft.net/hc/en-us/articles/41234567890123-Minecraft-Java-Edition-1-21-11",
+    roblox: "http://hostedstatus.com/1.0/status/59db90dbcdeb2f04dadcf16d",
+    warzone: "https://www.callofduty.com/patchnotes",
+    genshinNews: "https://genshin.hoyoverse.com/en/news",
+    genshinArticle: "https://genshin.hoyoverse.com/en/news/detail/160001",
+    pubgListing: "https://pubg.com/en/news?category=patch_notes",
+    pubgArticle: "https://pubg.com/en/news/9876",
+    pubgSteam: steamNews(578080),
+    rdr2: "https://www.rockstargames.com/newswire",
+    rdr2Steam: steamNews(1174180),
+    eafc: "https://forums.ea.com/category/ea-sports-fc-en/blog/ea-sports-fc-game-info-hub-en",
+    apexSteam: steamNews(1172470),
+    dotaSteam: steamNews(570),
+    rustSteam: steamNews(252490)
+};
+
+let server: FixtureServer;
+
+function serve(routes: Record<string, FixtureRoute>): void {
+    server.setRoutes(routes);
+}
+
+function assertFresh(result: ProviderResult): FreshResult {
+    assert.equal(result.status, "fresh");
+    const entry = CATALOG.find(e => e.id === result.game && e.type === result.type);
+    assert.ok(entry, `${result.game}.${result.type} is not in the catalog`);
+    assert.deepEqual(validateResult(result, { expected: { game: entry.id, type: entry.type } }), []);
+    return result as FreshResult;
+}
+
+before(async () => {
+    server = await startFixtureServer();
+});
+
+after(async () => {
+    await server.close();
+});
+
+beforeEach(() => {
+    mock.timers.enable({ apis: ["Date"], now: NOW });
+    setBrowserBudget(0);
+});
+
+afterEach(() => {
+    mock.timers.reset();
+});
+
+describe("fortnite", () => {
+    it("parses the season end date from the battle pass page", async () => {
+        serve({ [URLS.fortnite]: { file: "fortnite/battle-pass.html" } });
+
+        const result = assertFresh(await fortnite.run());
+        // "March 7, 2026 Eastern Time" = midnight ET
+        assert.equal(result.nextEventUtc, "2026-03-07T05:00:00.000Z");
+        assert.ok("currentSeasonEnds" in result && "nextSeasonEstimate" in result);
+        assert.equal(result.currentSeasonEnds, "2026-03-07");
+        assert.equal(result.source_url, URLS.fortnite);
+        assert.equal(result.confidence, Confidence.High);
+        assert.equal(result.source_timezone, "America/New_York");
+        assert.equal(result.precision, "day");
+        assert.equal(result.nextSeasonEstimate, "2026-03-08");
+        assert.deepEqual(result.events?.map(e => [e.label, e.start, e.confidence]), [
+            ["Season ends", "2026-03-07T05:00:00.000Z", Confidence.High],
+            ["Next season starts (estimated)", "2026-03-08T05:00:00.000Z", Confidence.Low]
+        ]);
+    });
+
+    it("throws when no end date is published", async () => {
+        serve({ [URLS.fortnite]: { file: "fortnite/battle-pass-no-date.html" } });
+        await assert.rejects(fortnite.run(), /No explicit end date found/);
+    });
+
+    it("throws when blocked and no browser budget remains", async () => {
+        serve({ [URLS.fortnite]: { status: 403, body: "Access denied" } });
+        await assert.rejects(fortnite.run(), /Blocked and browser budget exhausted/);
+    });
+});
+
+describe("lol", () => {
+    it("picks the first patch on or after today", async () => {
+        serve({ [URLS.lol]: { file: "lol/patch-schedule.html" } });
+
+        const result = assertFresh(await lol.run());
+        assert.equal(result.nextEventUtc, "2026-01-21T00:00:00.000Z");
+        assert.equal(result.notes, "Patch 26.2");
+        assert.deepEqual(result.regions?.map(r => [r.region, r.utc]), [
+            ["kr", "2026-01-20T15:00:00.000Z"],
+            ["euw", "2026-01-20T23:00:00.000Z"],
+            ["na", "2026-01-21T08:00:00.000Z"]
+        ]);
+        assert.deepEqual(result.events?.map(e => [e.label, e.start]), [
+            ["Patch 26.2", "2026-01-21T00:00:00.000Z"],
+            ["Patch 26.3", "2026-02-04T00:00:00.000Z"],
+            ["Patch 26.4", "2026-02-18T00:00:00.000Z"]
+        ]);
+        assert.equal(result.source_url, URLS.lol);
+    });
+
+    it("throws when every scheduled patch is in the past", async () => {
+        serve({ [URLS.lol]: { file: "lol/patch-schedule-past.html" } });
+        await assert.rejects(lol.run(), /Could not find upcoming patch date/);
+    });
+});
+
+describe("valorant", () => {
+    it("takes the newest <time datetime> card", async () => {
+        serve({ [URLS.valorant]: { file: "valorant/game-updates.html" } });
+
+        const result = assertFresh(await valorant.run());
+        assert.equal(result.nextEventUtc, "2026-01-13T17:00:00.000Z");
+        assert.equal(result.notes, "VALORANT Patch Notes 12.00");
+        assert.equal(result.confidence, Confidence.Medium);
+    });
+
+    it("throws when no dated cards exist", async () => {
+        serve({ [URLS.valorant]: { file: "valorant/game-updates-empty.html" } });
+        await assert.rejects(valorant.run(), /Could not extract patch date/);
+    });
+
+    it("throws on upstream HTTP errors", async () => {
+        serve({ [URLS.valorant]: { status: 500, body: "Internal Server Error" } });
+        await assert.rejects(valorant.run(), /HTTP 500/);
+    });
+});
+
+describe("cs2", () => {
+    it("falls back to Steam news and skips non-update posts", async () => {
+        serve({ [URLS.cs2Steam]: { file: "cs2/steam-news-730.json" } });
+
+        const result = assertFresh(await cs2.run());
+        assert.equal(result.nextEventUtc, "2026-01-13T22:30:00.000Z");
+        assert.equal(result.notes, "Counter-Strike 2 Update");
+        assert.equal(result.source_url, "https://steamstore-a.akamaihd.net/news/externalpost/steam_community_announcements/1000000000000000001");
+        assert.equal(result.confidence, Confidence.High);
+        assert.equal(result.fetch_mode, "http");
+    });
+
+    it("throws on an empty feed", async () => {
+        serve({ [URLS.cs2Steam]: { file: "cs2/steam-news-empty.json" } });
+        await assert.rejects(cs2.run(), /No items in Steam news response/);
+    });
+});
+
+describe("minecraft", () => {
+    it("follows the newest changelog link and reads its <time>", async () => {
+        serve({
+            [URLS.minecraftListing]: { file: "minecraft/release-changelogs.html" },
+            [URLS.minecraftArticle]: { file: "minecraft/article.html" }
+        });
+
+        const result = assertFresh(await minecraft.run());
+        assert.equal(result.nextEventUtc, "2025-12-09T16:00:00.000Z");
+        assert.equal(result.source_url, URLS.minecraftArticle);
+        assert.equal(result.notes, "Minecraft: Java Edition - 1.21.11");
+        assert.deepEqual(server.requests, [URLS.minecraftListing, URLS.minecraftArticle]);
+    });
+
+    it("throws when the article has no date", async () => {
+        serve({
+            [URLS.minecraftListing]: { file: "minecraft/release-changelogs.html" },
+            [URLS.minecraftArticle]: { file: "minecraft/article-no-date.html" }
+        });
+        await assert.rejects(minecraft.run(), /Could not extract valid release date/);
+    });
+});
+
+describe("roblox", () => {
+    it("reads the overall status and update time", async () => {
+        serve({ [URLS.roblox]: { file: "roblox/hostedstatus.json" } });
+
+        const result = assertFresh(await roblox.run());
+        assert.equal(result.nextEventUtc, "2026-01-15T11:42:00.000Z");
+        assert.equal(result.notes, "Current status: Operational");
+    });
+
+    it("throws when the timestamp is missing", async () => {
+        serve({ [URLS.roblox]: { file: "roblox/hostedstatus-no-updated.json" } });
+        await assert.rejects(roblox.run(), /No updated timestamp/);
+    });
+
+    it("throws on malformed JSON", async () => {
+        serve({ [URLS.roblox]: { body: "<html>maintenance</html>" } });
+        await assert.rejects(roblox.run(), /Invalid JSON/);
+    });
+});
+
+describe("gta", () => {
+    it("rolls over to next Thursday after today's reset", async () => {
+        const result = assertFresh(await gta.run());
+        assert.equal(result.nextEventUtc, "2026-01-22T10:00:00.000Z");
+        assert.deepEqual(result.events?.map(e => e.start), [
+            "2026-01-22T10:00:00.000Z",
+            "2026-01-29T10:00:00.000Z",
+            "2026-02-05T10:00:00.000Z",
+            "2026-02-12T10:00:00.000Z"
+        ]);
+        assert.equal(result.recurrence, "FREQ=WEEKLY;BYDAY=TH");
+    });
+
+    it("uses today's reset when it has not happened yet", async () => {
+        mock.timers.setTime(Date.parse("2026-01-15T09:59:00.000Z"));
+        const result = assertFresh(await gta.run());
+        assert.equal(result.nextEventUtc, "2026-01-15T10:00:00.000Z");
+    });
+
+    it("counts forward from earlier in the week", async () => {
+        mock.timers.setTime(Date.parse("2026-01-12T23:00:00.000Z"));
+        const result = assertFresh(await gta.run());
+        assert.equal(result.nextEventUtc, "2026-01-15T10:00:00.000Z");
+    });
+});
+
+describe("warzone", () => {
+    it("only considers Warzone cards", async () => {
+        serve({ [URLS.warzone]: { file: "warzone/patchnotes.html" } });
+
+        const result = assertFresh(await warzone.run());
+        assert.equal(result.nextEventUtc, "2026-01-08T17:00:00.000Z");
+        assert.equal(result.notes, "Call of Duty: Warzone Season 01 Reloaded Patch Notes");
+    });
+
+    it("throws when no Warzone patch is listed", async () => {
+        serve({ [URLS.warzone]: { file: "warzone/patchnotes-no-warzone.html" } });
+        await assert.rejects(warzone.run(), /Could not extract Warzone patch date/);
+    });
+});
+
+describe("genshin", () => {
+    it("follows the event wish article and reads its end time", async () => {
+        serve({
+            [URLS.genshinNews]: { file: "genshin/news.html" },
+            [URLS.genshinArticle]: { file: "genshin/event-wish.html" }
+        });
+
+        const result = assertFresh(await genshin.run());
+        // "2026/02/03 14:59:59 (server time)" on the UTC+8 server
+        assert.equal(result.nextEventUtc, "2026-02-03T06:59:59.000Z");
+        assert.equal(result.default_region, "asia");
+        assert.equal(result.events?.length, 1);
+        assert.equal(result.events?.[0].start, null);
+        assert.equal(result.events?.[0].end, "2026-02-03T06:59:59.000Z");
+        assert.deepEqual(result.regions?.map(r => [r.region, r.utc]), [
+            ["asia", "2026-02-03T06:59:59.000Z"],
+            ["europe", "2026-02-03T13:59:59.000Z"],
+            ["america", "2026-02-03T19:59:59.000Z"]
+        ]);
+        assert.equal(result.source_url, URLS.genshinArticle);
+        assert.match(result.notes || "", /Ballad in Goblets/);
+    });
+
+    it("reads a bare end time in server time", async () => {
+        serve({
+            [URLS.genshinNews]: { file: "genshin/news.html" },
+            [URLS.genshinArticle]: { file: "genshin/event-wish-bare-end.html" }
+        });
+
+        const result = assertFresh(await genshin.run());
+        // "2026-02-03 14:59" with no zone is still UTC+8 server time, not UTC
+        assert.equal(result.nextEventUtc, "2026-02-03T06:59:00.000Z");
+        assert.equal(result.events?.[0].end, "2026-02-03T06:59:00.000Z");
+    });
+
+    it("throws when the article has no end time", async () => {
+        serve({
+            [URLS.genshinNews]: { file: "genshin/news.html" },
+            [URLS.genshinArticle]: { file: "genshin/event-wish-no-end.html" }
+        });
+        await assert.rejects(genshin.run(), /Could not extract explicit banner end date/);
+    });
+});
+
+describe("pubg", () => {
+    it("follows the listing link and reads the article header date", async () => {
+        serve({
+            [URLS.pubgListing]: { file: "pubg/patch-notes.html" },
+            [URLS.pubgArticle]: { file: "pubg/article.html" }
+        });
+
+        const result = assertFresh(await pubg.run());
+        assert.equal(result.nextEventUtc, "2026-01-06T01:00:00.000Z");
+        assert.equal(result.source_url, URLS.pubgArticle);
+        assert.equal(result.notes, "PC Patch Notes - Update 39.2");
+        assert.equal(result.confidence, Confidence.High);
+    });
+
+    it("takes the version from the agreeing Steam patch notes, not the newer event", async () => {
+        serve({
+            [URLS.pubgListing]: { file: "pubg/patch-notes.html" },
+            [URLS.pubgArticle]: { file: "pubg/article.html" },
+            [URLS.pubgSteam]: { file: "pubg/steam-news-578080.json" }
+        });
+
+        const result = assertFresh(await pubg.run());
+        assert.equal(result.nextEventUtc, "2026-01-06T01:00:00.000Z");
+        assert.equal(result.source_url, URLS.pubgArticle);
+        assert.equal(result.confidence, Confidence.High);
+        assert.equal(result.version, "39.2");
+    });
+
+    it("throws when the listing has no article links and the browser is unavailable", async () => {
+        serve({ [URLS.pubgListing]: { file: "pubg/patch-notes-empty.html" } });
+        await assert.rejects(pubg.run(), /No article URL extracted/);
+    });
+});
+
+describe("red-dead-redemption-2", () => {
+    it("takes the first Red Dead newswire article", async () => {
+        serve({ [URLS.rdr2]: { file: "rdr2/newswire.html" } });
+
+        const result = assertFresh(await rdr2.run());
+        assert.equal(result.nextEventUtc, "2026-01-13T00:00:00.000Z");
+        assert.equal(result.source_url, "https://www.rockstargames.com/newswire/article/a71k8o84o3k2a1/red-dead-online-blood-money-bonuses");
+        assert.equal(result.notes, "Red Dead Online: Bonuses on Blood Money Operations");
+        assert.equal(result.confidence, Confidence.Medium);
+    });
+
+    it("is High confidence when Steam patch notes agree within 24h (bonus posts don't count)", async () => {
+        serve({ [URLS.rdr2]: { file: "rdr2/newswire.html" }, [URLS.rdr2Steam]: { file: "rdr2/steam-news-1174180.json" } });
+
+        const result = assertFresh(await rdr2.run());
+        assert.equal(result.nextEventUtc, "2026-01-13T00:00:00.000Z");
+        assert.equal(result.confidence, Confidence.High);
+        assert.equal(result.notes, "Red Dead Online: Bonuses on Blood Money Operations");
+    });
+
+    it("lists both dates when the sources disagree", async () => {
+        // Title Update notes 2026-01-12 18:00 UTC → 2026-01-08 17:00 UTC
+        const older = readFixture("rdr2/steam-news-1174180.json").replace("1768240800", "1767891600");
+        serve({ [URLS.rdr2]: { file: "rdr2/newswire.html" }, [URLS.rdr2Steam]: { body: older, contentType: "application/json" } });
+
+        const result = assertFresh(await rdr2.run());
+        assert.equal(result.nextEventUtc, "2026-01-13T00:00:00.000Z");
+        assert.equal(result.confidence, Confidence.Medium);
+        assert.match(result.notes!, /Sources disagree: Rockstar Newswire 2026-01-13 00:00 UTC, Steam news 2026-01-08 17:00 UTC$/);
+    });
+
+    it("throws when HTTP finds nothing and the browser is unavailable", async () => {
+        serve({ [URLS.rdr2]: { file: "rdr2/newswire-no-red-dead.html" } });
+        await assert.rejects(rdr2.run(), /Browser budget exhausted/);
+    });
+});
+
+describe("ea-sports-fc", () => {
+    it("takes the first Title Update entry", async () => {
+        serve({ [URLS.eafc]: { file: "eafc/game-info-hub.html" } });
+
+        const result = assertFresh(await eafc.run());
+        assert.equal(result.nextEventUtc, "2026-01-13T00:00:00.000Z");
+        assert.equal(result.notes, "EA SPORTS FC 26 Title Update #9");
+        assert.equal(result.source_url, "https://forums.ea.com/blog/ea-sports-fc-game-info-hub-en/ea-sports-fc-26-title-update-9/12000000");
+    });
+
+    it("throws when no Title Update is listed", async () => {
+        serve({ [URLS.eafc]: { file: "eafc/game-info-hub-no-updates.html" } });
+        await assert.rejects(eafc.run(), /Could not find any 'Title Update' articles/);
+    });
+});
+
+describe("steam last-update family", () => {
+    const run = (id: string) => CATALOG.find(e => e.id === id)!.run();
+
+    it("takes the newest tagged patch notes over a newer event", async () => {
+        serve({ [URLS.apexSteam]: { file: "apex-legends/steam-news-1172470.json" } });
+
+        const result = assertFresh(await run("apex-legends"));
+        assert.equal(result.nextEventUtc, "2026-01-13T18:00:00.000Z");
+        assert.equal(result.notes, "Apex Legends Mid-Season Patch Notes");
+        assert.equal(result.confidence, Confidence.High);
+        assert.equal(result.version, undefined);
+    });
+
+    it("extracts the patch identifier from the title", async () => {
+        serve({ [URLS.dotaSteam]: { file: "dota-2/steam-news-570.json" } });
+
+        const result = assertFresh(await run("dota-2"));
+        assert.equal(result.nextEventUtc, "2026-01-12T20:00:00.000Z");
+        assert.equal(result.notes, "7.40b Gameplay Patch");
+        assert.equal(result.version, "7.40b");
+        assert.equal(result.source_url, "https://steamstore-a.akamaihd.net/news/externalpost/steam_community_announcements/5000000000000000001");
+    });
+
+    it("is Medium when only the title marks the update", async () => {
+        serve({ [URLS.rustSteam]: { file: "rust/steam-news-252490.json" } });
+
+        const result = assertFresh(await run("rust"));
+        assert.equal(result.nextEventUtc, "2026-01-08T19:00:00.000Z");
+        assert.equal(result.notes, "Naval Update");
+        assert.equal(result.confidence, Confidence.Medium);
+    });
+
+    it("throws when the API is down", async () => {
+        serve({ [URLS.rustSteam]: { status: 503, body: "Service Unavailable" } });
+        await assert.rejects(run("rust"), /Steam news HTTP 503/);
+    });
+});
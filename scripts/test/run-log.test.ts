@@ -0,0 +1,170 @@
+/**
+ * Run log, status report and /status/ page
+ */
+
+import { describe, it, before, after, beforeEach, afterEach } from "node:test";
+import * as assert from "node:assert/strict";
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+import { Confidence, FailureType, FreshResult, StaleResult, UnavailableResult } from "../types";
+import { CatalogEntry } from "../catalog";
+import { appendRunLog, readRunLog, buildStatusReport, toRunRecord, getRunLogPath, RunRecord } from "../lib/run-log";
+import { renderStatusPage } from "../lib/status-page";
+import { fetchHtml, getFetchTrace, resetFetchTraces } from "../lib/fetch-layer";
+import { setDataDir, DEFAULT_DATA_DIR } from "../lib/data-output";
+import { recordFailure, recordSuccess, HealthLedger } from "../lib/health";
+import { startFixtureServer, FixtureServer } from "./helpers/fixture-server";
+
+function entry(id: string, type: string): CatalogEntry {
+    return { id, type, name: id.toUpperCase(), typeTitle: type, kicker: "Test", path: `${id}/${type}`, run: async () => { throw new Error("not run"); } };
+}
+
+const LOL = entry("lol", "next-patch");
+const PUBG = entry("pubg", "last-patch");
+
+function fresh(at: string): FreshResult {
+    return {
+        provider_id: "lol", game: "lol", type: "next-patch", title: "LoL", status: "fresh",
+        nextEventUtc: "2026-01-21T00:00:00.000Z", source_url: "https://example.com", confidence: Confidence.High,
+        fetched_at_utc: at, last_success_at_utc: at
+    };
+}
+
+function stale(at: string, lastSuccess: string): StaleResult {
+    return { ...fresh(lastSuccess), status: "stale", fetched_at_utc: at, reason: "Provider failed: HTTP 503" };
+}
+
+function unavailable(at: string): UnavailableResult {
+    return {
+        provider_id: "pubg", game: "pubg", type: "last-patch", title: "PUBG", status: "unavailable",
+        nextEventUtc: null, failure_type: FailureType.Blocked, explanation: "HTTP 403 <blocked>", fetched_at_utc: at
+    };
+}
+
+function run(id: string, finished: string, providers: RunRecord["providers"]): RunRecord {
+    return { run_id: id, started_at_utc: finished, finished_at_utc: finished, browser_budget: { used: 1, max: 3 }, providers };
+}
+
+const HTTP_TRACE = { fetch_mode: "http" as const, http_status: 200, fetches: 1, browser_sessions: 0 };
+
+describe("run log", () => {
+    let dir: string;
+
+    beforeEach(() => {
+        dir = fs.mkdtempSync(path.join(os.tmpdir(), "nextreset-runlog-"));
+        setDataDir(dir);
+    });
+
+    afterEach(() => {
+        setDataDir(DEFAULT_DATA_DIR);
+        fs.rmSync(dir, { recursive: true, force: true });
+    });
+
+    it("appends runs as JSON lines and skips corrupt ones", () => {
+        appendRunLog(run("r1", "2026-01-15T00:00:00.000Z", []));
+        fs.appendFileSync(getRunLogPath(), "{not json\n");
+        appendRunLog(run("r2", "2026-01-15T06:00:00.000Z", []));
+
+        assert.deepEqual(readRunLog().map(r => r.run_id), ["r1", "r2"]);
+    });
+
+    it("keeps only the newest 200 runs", () => {
+        for (let i = 0; i < 201; i++) {
+            appendRunLog(run(`r${i}`, new Date(Date.UTC(2026, 0, 1, i)).toISOString(), []));
+        }
+
+        const runs = readRunLog();
+        assert.equal(runs.length, 200);
+        assert.equal(runs[0].run_id, "r1");
+    });
+});
+
+describe("buildStatusReport", () => {
+    const runs = [
+        run("r1", "2026-01-15T00:00:00.000Z", [
+            toRunRecord(LOL, fresh("2026-01-15T00:00:00.000Z"), 120, HTTP_TRACE),
+            toRunRecord(PUBG, unavailable("2026-01-15T00:00:00.000Z"), 900, { fetch_mode: "browser", http_status: 403, fetches: 1, browser_sessions: 1 })
+        ]),
+        run("r2", "2026-01-15T06:00:00.000Z", [
+            toRunRecord(LOL, stale("2026-01-15T06:00:00.000Z", "2026-01-15T00:00:00.000Z"), 80, { fetch_mode: "http", http_status: 503, fetches: 1, browser_sessions: 0 })
+        ]),
+        run("r3", "2026-01-15T12:00:00.000Z", [
+            toRunRecord(LOL, stale("2026-01-15T12:00:00.000Z", "2026-01-15T00:00:00.000Z"), 75, { fetch_mode: "http", http_status: 0, fetches: 1, browser_sessions: 0 })
+        ])
+    ];
+
+    // The ledger refresh-all kept alongside those runs
+    const ledger: HealthLedger = {};
+    recordSuccess(ledger, "lol", "next-patch", "2026-01-15T00:00:00.000Z");
+    recordFailure(ledger, "lol", "next-patch", FailureType.Unavailable, "HTTP 503", "2026-01-15T06:00:00.000Z");
+    recordFailure(ledger, "lol", "next-patch", FailureType.Unavailable, "no response", "2026-01-15T12:00:00.000Z");
+    recordFailure(ledger, "pubg", "last-patch", FailureType.Blocked, "HTTP 403", "2026-01-15T00:00:00.000Z");
+
+    it("takes failure counts from the health ledger and reports the latest fetch", () => {
+        const report = buildStatusReport([LOL, PUBG, entry("gta", "weekly-reset")], runs, ledger, new Date("2026-01-15T12:01:00.000Z"));
+        const [lol, pubg, gta] = report.providers;
+
+        assert.equal(lol.status, "stale");
+        assert.equal(lol.consecutive_failures, 2);
+        assert.equal(lol.last_success_at_utc, "2026-01-15T00:00:00.000Z");
+        assert.equal(lol.http_status, 0);
+        assert.equal(lol.last_error, "Provider failed: HTTP 503");
+        assert.equal(lol.last_error_at_utc, "2026-01-15T12:00:00.000Z");
+
+        assert.equal(pubg.status, "unavailable");
+        assert.equal(pubg.consecutive_failures, 1);
+        assert.equal(pubg.last_success_at_utc, null);
+        assert.equal(pubg.fetch_mode, "browser");
+        assert.equal(pubg.browser_sessions, 1);
+
+        assert.equal(gta.status, null);
+        assert.equal(gta.consecutive_failures, 0);
+
+        assert.equal(report.last_run?.run_id, "r3");
+        assert.equal(report.runs_logged, 3);
+    });
+
+    it("renders a row per entry with escaped errors", () => {
+        const html = renderStatusPage(buildStatusReport([LOL, PUBG], runs, ledger));
+
+        assert.match(html, /<meta name="robots" content="noindex">/);
+        assert.match(html, /browser budget 1\/3 used/);
+        assert.match(html, /<tr data-game="pubg" data-type="last-patch">/);
+        assert.match(html, /HTTP 403 &lt;blocked&gt;/);
+        assert.match(html, /browser \(1 browser\)/);
+        assert.match(html, /no response/);
+    });
+
+    it("renders an empty page before the first run", () => {
+        const html = renderStatusPage(null);
+        assert.match(html, /No runs recorded yet/);
+        assert.doesNotMatch(html, /<table/);
+    });
+});
+
+describe("fetch traces", () => {
+    let server: FixtureServer;
+
+    before(async () => {
+        server = await startFixtureServer();
+    });
+
+    after(async () => {
+        await server.close();
+    });
+
+    it("records the mode and HTTP status per provider", async () => {
+        resetFetchTraces();
+        server.setRoutes({
+            "https://example.com/a": { body: "ok" },
+            "https://example.com/b": { status: 404, body: "missing" }
+        });
+
+        await fetchHtml("https://example.com/a", { providerId: "trace-test" });
+        await fetchHtml("https://example.com/b", { providerId: "trace-test", retries: 0 });
+
+        assert.deepEqual(getFetchTrace("trace-test"), { fetch_mode: "http", http_status: 404, fetches: 2, browser_sessions: 0 });
+        assert.equal(getFetchTrace("untraced"), null);
+    });
+});
@@ -0,0 +1,84 @@
+/**
+ * Declarative scraper engine
+ */
+
+process.env.TZ = "UTC";
+
+import { describe, it } from "node:test";
+import * as assert from "node:assert/strict";
+import * as cheerio from "cheerio";
+import { Confidence } from "../types";
+import { extractLatest, ScraperSpec } from "../lib/scraper";
+
+const BASE: ScraperSpec = {
+    meta: { provider_id: "example", game: "example", type: "last-patch", title: "Example Last Patch" },
+    url: "https://example.com/news/",
+    items: "article",
+    title: ["h3"],
+    date: [{ element: "time" }],
+    pick: "newest",
+    confidence: Confidence.Medium,
+    error: "Nothing found"
+};
+
+const PAGE = `
+<ul>
+  <li><article><h3>Patch 1.1</h3><time datetime="2026-01-06T17:00:00Z">Jan 6</time><a href="/news/patch-1-1">Read</a></article></li>
+  <li><article><h3>Patch 1.2</h3><time datetime="2026-01-13T17:00:00Z">Jan 13</time><a href="/news/patch-1-2">Read</a></article></li>
+  <li><article><h3>Community Spotlight</h3><p>Posted January 14, 2026</p></article></li>
+</ul>`;
+
+function extract(overrides: Partial<ScraperSpec>, html: string = PAGE) {
+    return extractLatest(cheerio.load(html), { ...BASE, ...overrides });
+}
+
+describe("extractLatest", () => {
+    it("picks the newest dated candidate", () => {
+        const article = extract({});
+        assert.equal(article?.date.toISOString(), "2026-01-13T17:00:00.000Z");
+        assert.equal(article?.title, "Patch 1.2");
+        assert.equal(article?.url, "https://example.com/news/");
+    });
+
+    it("picks the first dated candidate in page order", () => {
+        assert.equal(extract({ pick: "first" })?.title, "Patch 1.1");
+    });
+
+    it("prefers element dates over newer free-text dates", () => {
+        const article = extract({ date: [{ element: "time" }, { text: "item" }] });
+        assert.equal(article?.title, "Patch 1.2");
+        assert.equal(article?.date.toISOString(), "2026-01-13T17:00:00.000Z");
+    });
+
+    it("falls back to the item text when no candidate has an element date", () => {
+        const html = PAGE.replace(/<time[^>]*>[^<]*<\/time>/g, "");
+        const article = extract({ date: [{ element: "time" }, { text: "item" }] }, html);
+        assert.equal(article?.title, "Community Spotlight");
+        assert.equal(article?.date.toISOString(), "2026-01-14T00:00:00.000Z");
+    });
+
+    it("only keeps items containing a keyword", () => {
+        const article = extract({ keywords: ["PATCH"], date: [{ element: "time" }, { text: "item" }] });
+        assert.equal(article?.title, "Patch 1.2");
+    });
+
+    it("honours the candidate limit", () => {
+        assert.equal(extract({ limit: 1 })?.title, "Patch 1.1");
+    });
+
+    it("reads the date from the enclosing card", () => {
+        const html = `<div class="row"><span class="date">Jan 9, 2026</span><a href="/t/9">Title Update #9</a></div>`;
+        const article = extract({ items: "a", title: ["self"], link: "self", date: [{ element: ".date", within: ".row" }] }, html);
+        assert.equal(article?.date.toISOString(), "2026-01-09T00:00:00.000Z");
+        assert.equal(article?.title, "Title Update #9");
+        assert.equal(article?.url, "https://example.com/t/9");
+    });
+
+    it("resolves links inside the item against the listing URL", () => {
+        assert.equal(extract({ link: "a" })?.url, "https://example.com/news/patch-1-2");
+    });
+
+    it("returns null when nothing is dated", () => {
+        assert.equal(extract({ keywords: ["hotfix"] }), null);
+    });
+});
@@ -0,0 +1,72 @@
+/**
+ * sitemap.xml / robots.txt generation
+ */
+
+import { describe, it } from "node:test";
+import * as assert from "node:assert/strict";
+import { Confidence, FailureType, FreshResult, UnavailableResult } from "../types";
+import { CATALOG } from "../catalog";
+import { getLastModified, renderSitemap, renderRobots } from "../lib/sitemap";
+
+const entry = (id: string) => CATALOG.find(e => e.id === id)!;
+
+function fresh(lastSuccess: string): FreshResult {
+    return {
+        provider_id: "lol",
+        game: "lol",
+        type: "next-patch",
+        title: "League of Legends Next Patch",
+        status: "fresh",
+        nextEventUtc: "2026-01-21T00:00:00.000Z",
+        source_url: "https://example.com",
+        confidence: Confidence.High,
+        fetched_at_utc: lastSuccess,
+        last_success_at_utc: lastSuccess
+    };
+}
+
+const UNAVAILABLE: UnavailableResult = {
+    provider_id: "lol",
+    game: "lol",
+    type: "next-patch",
+    title: "League of Legends Next Patch",
+    status: "unavailable",
+    nextEventUtc: null,
+    failure_type: FailureType.Blocked,
+    explanation: "HTTP 403",
+    fetched_at_utc: "2026-01-15T12:00:00.000Z"
+};
+
+describe("getLastModified", () => {
+    it("uses the last success, falling back to LKG when the latest run failed", () => {
+        assert.equal(getLastModified(fresh("2026-01-15T12:00:00.000Z"), fresh("2026-01-01T00:00:00.000Z")), "2026-01-15T12:00:00.000Z");
+        assert.equal(getLastModified(UNAVAILABLE, fresh("2026-01-01T00:00:00.000Z")), "2026-01-01T00:00:00.000Z");
+        assert.equal(getLastModified(UNAVAILABLE, null), null);
+    });
+});
+
+describe("renderSitemap", () => {
+    it("lists the homepage and every page with lastmod where known", () => {
+        const xml = renderSitemap([
+            { entry: entry("lol"), lastmod: "2026-01-15T12:00:00.123Z" },
+            { entry: entry("red-dead-redemption-2"), lastmod: "2026-01-10T08:00:00.000Z" },
+            { entry: entry("ea-sports-fc"), lastmod: null }
+        ]);
+
+        const urls = [...xml.matchAll(/<url>([\s\S]*?)<\/url>/g)].map(match => ({
+            loc: /<loc>(.*)<\/loc>/.exec(match[1])![1],
+            lastmod: /<lastmod>(.*)<\/lastmod>/.exec(match[1])?.[1] ?? null
+        }));
+
+        assert.deepEqual(urls, [
+            { loc: "https://nextreset.co/", lastmod: "2026-01-15T12:00:00Z" },
+            { loc: "https://nextreset.co/lol/next-patch", lastmod: "2026-01-15T12:00:00Z" },
+            { loc: "https://nextreset.co/red-dead-redemption-2/last-update", lastmod: "2026-01-10T08:00:00Z" },
+            { loc: "https://nextreset.co/ea-sports-fc/last-title-update", lastmod: null }
+        ]);
+    });
+
+    it("references the sitemap from robots.txt", () => {
+        assert.match(renderRobots(), /^Sitemap: https:\/\/nextreset\.co\/sitemap\.xml$/m);
+    });
+});
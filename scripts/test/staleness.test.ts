@@ -0,0 +1,78 @@
+/**
+ * Max-staleness policy: confidence decay and LKG expiry
+ */
+
+import { describe, it } from "node:test";
+import * as assert from "node:assert/strict";
+import { Confidence, FreshResult, StaleResult } from "../types";
+import { applyStaleness, decayConfidence, getExpiry, getStalenessPolicy } from "../lib/staleness";
+import { formatStaleNote } from "../lib/prerender";
+import { validateResult } from "../lib/validate";
+
+const NOW = new Date("2026-03-01T12:00:00.000Z");
+const daysAgo = (days: number) => new Date(NOW.getTime() - days * 24 * 60 * 60 * 1000).toISOString();
+
+function lkg(type: string, nextEventUtc: string, fetchedAt: string, extra: Partial<FreshResult> = {}): FreshResult {
+    return {
+        provider_id: "genshin",
+        game: "genshin",
+        type,
+        title: "Genshin Impact",
+        status: "fresh",
+        nextEventUtc,
+        source_url: "https://example.com",
+        confidence: Confidence.High,
+        fetched_at_utc: fetchedAt,
+        last_success_at_utc: fetchedAt,
+        ...extra
+    };
+}
+
+function served(result: FreshResult): StaleResult {
+    return { ...result, status: "stale", fetched_at_utc: NOW.toISOString(), last_success_at_utc: result.fetched_at_utc, reason: "HTTP 503" };
+}
+
+describe("decayConfidence", () => {
+    it("caps confidence by age and never raises it", () => {
+        const policy = getStalenessPolicy("last-patch");
+        assert.equal(decayConfidence(Confidence.High, 24, policy), Confidence.High);
+        assert.equal(decayConfidence(Confidence.High, 8 * 24, policy), Confidence.Medium);
+        assert.equal(decayConfidence(Confidence.High, 31 * 24, policy), Confidence.Low);
+        assert.equal(decayConfidence(Confidence.None, 31 * 24, policy), Confidence.None);
+    });
+});
+
+describe("getExpiry", () => {
+    it("drops upcoming events that already happened", () => {
+        const banner = lkg("next-banner", daysAgo(1), daysAgo(3));
+        assert.match(getExpiry(banner, NOW)!, /has already passed/);
+        assert.equal(getExpiry(lkg("next-banner", daysAgo(-5), daysAgo(3)), NOW), null);
+    });
+
+    it("keeps past dates for last-* types until the max age", () => {
+        assert.equal(getExpiry(lkg("last-patch", daysAgo(60), daysAgo(60)), NOW), null);
+        assert.match(getExpiry(lkg("last-patch", daysAgo(100), daysAgo(95)), NOW)!, /95 days old \(max 90\)/);
+    });
+});
+
+describe("applyStaleness", () => {
+    it("stamps the age and records the confidence it decayed from", () => {
+        const stale = applyStaleness(served(lkg("next-banner", daysAgo(-10), daysAgo(4), {
+            events: [{ label: "Phase 2", start: daysAgo(-10), confidence: Confidence.High }]
+        })), NOW);
+
+        assert.equal(stale.age_hours, 96);
+        assert.equal(stale.confidence, Confidence.Low);
+        assert.equal(stale.original_confidence, Confidence.High);
+        assert.equal(stale.events![0].confidence, Confidence.Low);
+        assert.deepEqual(validateResult(stale, { now: NOW }), []);
+        assert.equal(formatStaleNote(stale), "⚠ Using cached data from 4 days ago (confidence lowered from high): HTTP 503");
+    });
+
+    it("leaves young data untouched apart from the age", () => {
+        const stale = applyStaleness(served(lkg("last-patch", daysAgo(10), daysAgo(0.25))), NOW);
+        assert.equal(stale.age_hours, 6);
+        assert.equal(stale.confidence, Confidence.High);
+        assert.equal(stale.original_confidence, undefined);
+    });
+});
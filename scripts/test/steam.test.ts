@@ -0,0 +1,73 @@
+/**
+ * Steam news parsing and classification
+ */
+
+import { describe, it } from "node:test";
+import * as assert from "node:assert/strict";
+import { classifySteamNews, extractVersion, parseSteamNews } from "../lib/steam";
+import { readFixture } from "./helpers/fixture-server";
+
+describe("classifySteamNews", () => {
+    it("treats the patchnotes tag as an update whatever the title", () => {
+        assert.equal(classifySteamNews("Counter-Strike 2", ["patchnotes"]), "update");
+    });
+
+    it("falls back to the title for untagged posts", () => {
+        assert.equal(classifySteamNews("Naval Update", []), "update");
+        assert.equal(classifySteamNews("Hotfixes for the holidays", []), "update");
+        assert.equal(classifySteamNews("The Frostivus Event has begun", []), "event");
+        assert.equal(classifySteamNews("Community Map Spotlight", ["mod_reviewed"]), "event");
+    });
+});
+
+describe("extractVersion", () => {
+    const cases: [string, string | null][] = [
+        ["PC Patch Notes - Update 39.2", "39.2"],
+        ["7.40b Gameplay Patch", "7.40b"],
+        ["EA SPORTS FC 26 Title Update #9", "9"],
+        ["Hotfix v1.2.3", "1.2.3"],
+        ["Build 21234567 is live", "21234567"],
+        ["VALORANT Patch Notes 12.00", "12.00"],
+        ["Counter-Strike 2 Update", null],
+        ["Dota 2 Update - 1/9/2026", null],
+        ["Release Notes for 1/13/2026", null],
+        ["Apex Legends Season 27 Launch Patch Notes", null]
+    ];
+
+    for (const [title, expected] of cases) {
+        it(`${JSON.stringify(title)} → ${expected}`, () => {
+            assert.equal(extractVersion(title), expected);
+        });
+    }
+});
+
+describe("parseSteamNews", () => {
+    it("classifies items and keeps versions for updates only", () => {
+        const items = parseSteamNews(readFixture("pubg/steam-news-578080.json"));
+
+        assert.deepEqual(items.map(i => [i.title, i.kind, i.version]), [
+            ["PUBG x Winter Festival: Snowball Fight Event", "event", undefined],
+            ["PC Patch Notes - Update 39.2", "update", "39.2"]
+        ]);
+        assert.equal(items[1].published.toISOString(), "2026-01-06T01:00:00.000Z");
+        assert.deepEqual(items[1].tags, ["patchnotes"]);
+    });
+
+    it("sorts newest first and skips undated items", () => {
+        const items = parseSteamNews(JSON.stringify({
+            appnews: {
+                appid: 1, newsitems: [
+                    { title: "Old", url: "https://example.com/1", date: 1767891600 },
+                    { title: "Undated", url: "https://example.com/2" },
+                    { title: "New", url: "https://example.com/3", date: 1768323600 }
+                ]
+            }
+        }));
+        assert.deepEqual(items.map(i => i.title), ["New", "Old"]);
+    });
+
+    it("throws on an empty or malformed response", () => {
+        assert.throws(() => parseSteamNews(readFixture("cs2/steam-news-empty.json")), /No items in Steam news response/);
+        assert.throws(() => parseSteamNews("<html>Error</html>"), /Invalid JSON in Steam news response/);
+    });
+});
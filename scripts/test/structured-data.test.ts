@@ -0,0 +1,85 @@
+/**
+ * JSON-LD and Open Graph cards
+ */
+
+import { describe, it } from "node:test";
+import * as assert from "node:assert/strict";
+import { Confidence, FailureType, FreshResult } from "../types";
+import { CATALOG } from "../catalog";
+import { buildJsonLd, renderJsonLd } from "../lib/structured-data";
+import { renderOgCardHtml, getOgImageFile } from "../lib/og-image";
+
+const NOW = "2026-01-15T12:00:00.000Z";
+const IMAGE = "https://nextreset.co/og/test.png";
+const entry = (id: string) => CATALOG.find(e => e.id === id)!;
+
+function fresh(game: string, type: string, nextEventUtc: string, extra: Partial<FreshResult> = {}): FreshResult {
+    return {
+        provider_id: game,
+        game,
+        type,
+        title: `${game} ${type}`,
+        status: "fresh",
+        nextEventUtc,
+        source_url: "https://example.com/notes",
+        confidence: Confidence.High,
+        fetched_at_utc: NOW,
+        last_success_at_utc: NOW,
+        ...extra
+    };
+}
+
+describe("buildJsonLd", () => {
+    it("describes upcoming events as a schema.org Event", () => {
+        const genshin = fresh("genshin", "next-banner", "2026-02-03T06:59:59.000Z", {
+            events: [{ label: "Event Wish", start: "2026-01-13T10:00:00.000Z", end: "2026-02-03T06:59:59.000Z", confidence: Confidence.Medium }]
+        });
+        const ld = buildJsonLd(entry("genshin"), genshin, IMAGE)!;
+
+        assert.equal(ld["@type"], "Event");
+        assert.equal(ld.name, "Genshin Impact: Event Wish");
+        assert.equal(ld.startDate, "2026-01-13T10:00:00.000Z");
+        assert.equal(ld.endDate, "2026-02-03T06:59:59.000Z");
+        assert.deepEqual(ld.image, [IMAGE]);
+    });
+
+    it("describes last-* pages as a SoftwareApplication", () => {
+        const ld = buildJsonLd(entry("cs2"), fresh("cs2", "last-update", "2026-01-13T22:30:00.000Z", { notes: "Release notes for 1/13/2026" }), IMAGE)!;
+
+        assert.equal(ld["@type"], "SoftwareApplication");
+        assert.equal(ld.dateModified, "2026-01-13T22:30:00.000Z");
+        assert.equal(ld.releaseNotes, "https://example.com/notes");
+        assert.equal(ld.url, "https://nextreset.co/cs2/last-update");
+    });
+
+    it("emits nothing without fresh data and escapes inline markup", () => {
+        assert.equal(buildJsonLd(entry("lol"), null, IMAGE), null);
+        assert.equal(buildJsonLd(entry("pubg"), {
+            ...fresh("pubg", "last-patch", "2026-01-13T17:00:00.000Z"),
+            status: "stale", reason: "Provider failed: HTTP 503"
+        }, IMAGE), null);
+        assert.equal(buildJsonLd(entry("pubg"), {
+            provider_id: "pubg", game: "pubg", type: "last-patch", title: "PUBG", status: "unavailable",
+            nextEventUtc: null, failure_type: FailureType.Blocked, explanation: "HTTP 403", fetched_at_utc: NOW
+        }, IMAGE), null);
+
+        assert.equal(renderJsonLd({ description: "</script>" }).includes("</script>"), false);
+    });
+});
+
+describe("renderOgCardHtml", () => {
+    it("shows the game, event type, target date and status", () => {
+        const html = renderOgCardHtml(entry("gta"), fresh("gta", "weekly-reset", "2026-01-22T10:00:00.000Z"));
+        assert.match(html, /GTA Online/);
+        assert.match(html, /Weekly Reset/);
+        assert.match(html, /Jan 22, 2026, 10:00 UTC/);
+        assert.match(html, />Live</);
+        assert.equal(getOgImageFile(entry("gta")), "og/gta.weekly-reset.png");
+    });
+
+    it("falls back to a neutral card without data", () => {
+        const html = renderOgCardHtml(entry("lol"), null);
+        assert.match(html, /Checking official sources/);
+        assert.doesNotMatch(html, /class="status"/);
+    });
+});
@@ -0,0 +1,125 @@
+/**
+ * Runtime validation of provider output
+ */
+
+import { describe, it, beforeEach, afterEach } from "node:test";
+import * as assert from "node:assert/strict";
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+import { Confidence, FailureType, FreshResult, UnavailableResult } from "../types";
+import { validateResult } from "../lib/validate";
+import { setDataDir, DEFAULT_DATA_DIR, writeLkgJson, readLkgData, getLkgPath } from "../lib/data-output";
+
+const NOW = new Date("2026-01-15T12:00:00.000Z");
+
+function fresh(type: string, nextEventUtc: string, extra: Record<string, unknown> = {}): FreshResult {
+    return {
+        provider_id: "valorant",
+        game: "valorant",
+        type,
+        title: "VALORANT",
+        status: "fresh",
+        nextEventUtc,
+        source_url: "https://playvalorant.com/en-us/news/game-updates/",
+        confidence: Confidence.Medium,
+        fetched_at_utc: NOW.toISOString(),
+        last_success_at_utc: NOW.toISOString(),
+        ...extra
+    } as FreshResult;
+}
+
+function paths(result: unknown): string[] {
+    return validateResult(result, { now: NOW }).map(issue => issue.path);
+}
+
+describe("validateResult", () => {
+    it("accepts well-formed results of every status", () => {
+        const unavailable: UnavailableResult = {
+            provider_id: "pubg",
+            game: "pubg",
+            type: "last-patch",
+            title: "PUBG Last Patch",
+            status: "unavailable",
+            nextEventUtc: null,
+            failure_type: FailureType.Blocked,
+            explanation: "HTTP 403",
+            fetched_at_utc: NOW.toISOString()
+        };
+
+        assert.deepEqual(paths(fresh("last-patch", "2026-01-13T17:00:00.000Z")), []);
+        assert.deepEqual(paths({ ...fresh("last-patch", "2026-01-13T17:00:00.000Z"), status: "stale", reason: "HTTP 503" }), []);
+        assert.deepEqual(paths(unavailable), []);
+    });
+
+    it("rejects malformed fields", () => {
+        assert.deepEqual(paths(fresh("last-patch", "Invalid Date")), ["nextEventUtc"]);
+        assert.deepEqual(paths(fresh("last-patch", "2026-01-13", { source_url: "/news" })), ["nextEventUtc", "source_url"]);
+        assert.deepEqual(paths(fresh("last-patch", "2026-01-13T17:00:00.000Z", { confidence: "certain" })), ["confidence"]);
+        assert.deepEqual(paths(null), [""]);
+    });
+
+    it("applies per-type plausibility windows", () => {
+        assert.deepEqual(paths(fresh("last-patch", "1970-01-01T00:00:00.000Z")), ["nextEventUtc"]);
+        assert.deepEqual(paths(fresh("last-patch", "2026-06-01T00:00:00.000Z")), ["nextEventUtc"]);
+        assert.deepEqual(paths(fresh("next-patch", "2026-01-01T00:00:00.000Z")), ["nextEventUtc"]);
+        assert.deepEqual(paths(fresh("next-patch", "2026-06-01T00:00:00.000Z")), []);
+        assert.deepEqual(paths(fresh("weekly-reset", "2026-02-01T00:00:00.000Z")), ["nextEventUtc"]);
+    });
+
+    it("checks known extension fields and JSON-safety of unknown ones", () => {
+        assert.deepEqual(paths(fresh("next-season", "2026-03-07T00:00:00.000Z", { currentSeasonEnds: "March 7" })), ["currentSeasonEnds"]);
+        assert.deepEqual(paths(fresh("status", "2026-01-15T06:00:00.000Z", { service_status: 3 })), ["service_status"]);
+        assert.deepEqual(paths(fresh("last-patch", "2026-01-13T17:00:00.000Z", { build: { id: NaN } })), ["build"]);
+        assert.deepEqual(paths(fresh("last-patch", "2026-01-13T17:00:00.000Z", { build: { id: 123 } })), []);
+    });
+
+    it("checks per-region times", () => {
+        const regions = [{ region: "asia", label: "Asia", utc: "2026-02-03T06:59:59.000Z", timezone: "+08:00" }];
+        assert.deepEqual(paths(fresh("next-banner", "2026-02-03T06:59:59.000Z", { regions, default_region: "asia", precision: "second" })), []);
+        assert.deepEqual(paths(fresh("next-banner", "2026-02-03T06:59:59.000Z", { regions, default_region: "europe" })), ["default_region"]);
+        assert.deepEqual(paths(fresh("next-banner", "2026-02-03T06:59:59.000Z", { regions: [{ ...regions[0], utc: "soon" }], precision: "week" })), ["precision", "regions[0].utc"]);
+    });
+
+    it("checks the events[] schedule", () => {
+        const patch = (label: string, start: string | null) => ({ label, start, confidence: "high" });
+        assert.deepEqual(paths(fresh("next-patch", "2026-01-21T00:00:00.000Z", { events: [patch("26.2", "2026-01-21T00:00:00.000Z"), patch("26.3", "2026-02-04T00:00:00.000Z")] })), []);
+        assert.deepEqual(paths(fresh("next-patch", "2026-01-21T00:00:00.000Z", { events: [patch("26.3", "2026-02-04T00:00:00.000Z"), patch("26.2", "2026-01-21T00:00:00.000Z")] })), ["events[1]"]);
+        assert.deepEqual(paths(fresh("next-patch", "2026-01-21T00:00:00.000Z", { events: [patch("", null)] })), ["events[0].label", "events[0]"]);
+    });
+
+    it("rejects results for the wrong catalog entry", () => {
+        const issues = validateResult(fresh("last-patch", "2026-01-13T17:00:00.000Z"), { now: NOW, expected: { game: "pubg", type: "last-patch" } });
+        assert.deepEqual(issues.map(issue => issue.path), ["game"]);
+    });
+});
+
+describe("LKG vault guard", () => {
+    let dir: string;
+
+    beforeEach(() => {
+        dir = fs.mkdtempSync(path.join(os.tmpdir(), "nextreset-validate-"));
+        setDataDir(dir);
+    });
+
+    afterEach(() => {
+        setDataDir(DEFAULT_DATA_DIR);
+        fs.rmSync(dir, { recursive: true, force: true });
+    });
+
+    it("refuses to back up invalid fresh data", () => {
+        writeLkgJson(fresh("last-patch", "not a date"));
+        assert.equal(fs.existsSync(getLkgPath("valorant", "last-patch")), false);
+    });
+
+    it("ignores malformed LKG files but keeps old valid ones", () => {
+        const lkgPath = getLkgPath("valorant", "last-patch");
+        fs.mkdirSync(path.dirname(lkgPath), { recursive: true });
+
+        fs.writeFileSync(lkgPath, JSON.stringify(fresh("last-patch", "2019-01-01T00:00:00.000Z")));
+        assert.equal(readLkgData("valorant", "last-patch")?.nextEventUtc, "2019-01-01T00:00:00.000Z");
+
+        fs.writeFileSync(lkgPath, JSON.stringify(fresh("last-patch", "yesterday")));
+        assert.equal(readLkgData("valorant", "last-patch"), null);
+    });
+});
@@ -22,18 +22,57 @@ export interface ProviderMetadata {
     title: string;
 }
 
+/**
+ * How precisely the source stated the time (a date-only schedule is "day")
+ */
+export type DatePrecision = "second" | "minute" | "hour" | "day" | "month";
+
+/**
+ * The same event on one region's clock (e.g. Genshin servers, LoL shards)
+ */
+export interface RegionalTime {
+    region: string;           // Stable id, e.g. "asia", "europe", "america"
+    label: string;            // Display name
+    utc: string;              // ISO instant in this region
+    timezone: string;         // Zone the region's time is stated in (IANA, "UTC" or "±HH:MM")
+}
+
+/**
+ * One entry of a provider's schedule (upcoming patches, banner phases, resets)
+ */
+export interface ScheduledEvent {
+    label: string;
+    start: string | null;       // ISO instant; null when only the end is announced
+    end?: string | null;
+    confidence: Confidence;
+}
+
+/**
+ * Optional timing detail alongside nextEventUtc (which stays the default reading)
+ */
+export interface EventTiming {
+    source_timezone?: string;   // Zone the source stated the time in
+    precision?: DatePrecision;
+    regions?: RegionalTime[];   // Per-region instants, in display order
+    default_region?: string;    // Region nextEventUtc corresponds to
+    events?: ScheduledEvent[];  // Ordered schedule; nextEventUtc is the first relevant entry
+    recurrence?: string;        // iCalendar RRULE for computed schedules, anchored at nextEventUtc
+}
+
 export interface BaseResult extends ProviderMetadata {
     fetched_at_utc: string; // Always the current run time
     http_status?: number;
     fetch_mode?: "http" | "browser";
 }
 
-export interface FreshResult extends BaseResult {
+export interface FreshResult extends BaseResult, EventTiming {
     status: "fresh";
     nextEventUtc: string;
     source_url: string;
     confidence: Confidence;
     notes?: string;
+    version?: string;       // Build/patch identifier the source states, e.g. "39.2"
+    service_status?: string; // Status-type providers: the service's current status, e.g. "Operational"
     // For fresh results, last_success_at_utc is implied to be fetched_at_utc,
     // but we can include it explicitly or let the consumer infer it.
     // For simplicity in the Stale logic, we don't strictly need it here, 
@@ -41,14 +80,18 @@ export interface FreshResult extends BaseResult {
     last_success_at_utc: string;
 }
 
-export interface StaleResult extends BaseResult {
+export interface StaleResult extends BaseResult, EventTiming {
     status: "stale";
     nextEventUtc: string;
     last_success_at_utc: string; // The fetched_at_utc of the original fresh data
     source_url: string;
-    confidence: Confidence;
+    confidence: Confidence;         // Decayed with age (see lib/staleness)
     reason: string;
     notes?: string;
+    version?: string;
+    service_status?: string;
+    age_hours?: number;             // Hours since last_success_at_utc at fetched_at_utc
+    original_confidence?: Confidence; // Confidence before decay, when it was lowered
 }
 
 export interface UnavailableResult extends BaseResult {
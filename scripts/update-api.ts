@@ -0,0 +1,35 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { CATALOG } from './catalog';
+import { readLiveData, getDataDir } from './lib/data-output';
+import { API_VERSION, writeApi } from './lib/api';
+import { DataManifest, MANIFEST_FILE } from './lib/manifest';
+
+/**
+ * Generate the versioned public API (public/api/v1/) from the current live data
+ * Run after refresh-all; run metadata comes from data/index.json when present
+ */
+
+const apiDir = path.join(__dirname, '../public/api', API_VERSION);
+
+function readRun(): DataManifest['run'] | null {
+  const manifestPath = path.join(getDataDir(), MANIFEST_FILE);
+  if (!fs.existsSync(manifestPath)) return null;
+  try {
+    return (JSON.parse(fs.readFileSync(manifestPath, 'utf-8')) as DataManifest).run;
+  } catch {
+    console.warn(`⚠ Ignoring unreadable ${MANIFEST_FILE}`);
+    return null;
+  }
+}
+
+const run = readRun();
+const entries = CATALOG.map(entry => ({ entry, result: readLiveData(entry.id, entry.type) }));
+const index = writeApi(apiDir, entries, run && {
+  id: run.id,
+  started_at_utc: run.started_at_utc,
+  finished_at_utc: run.finished_at_utc
+});
+
+const written = index.games.filter(game => game.status !== null).length;
+console.log(`✓ Wrote api/${API_VERSION}/ (${written}/${CATALOG.length} games, schema ${index.schema_version})`);
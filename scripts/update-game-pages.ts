@@ -1,8 +1,16 @@
 import * as fs from 'fs';
 import * as path from 'path';
+import { CATALOG, CatalogEntry, SITE_URL, getPageFile } from './catalog';
+import { hasCalendar, getCalendarPath } from './lib/ics';
+import { hasFeed, getFeedPaths } from './lib/feeds';
+import { readLiveData } from './lib/data-output';
+import { prerenderPage, escapeHtml } from './lib/prerender';
+import { buildJsonLd, renderJsonLd } from './lib/structured-data';
+import { getOgImageFile } from './lib/og-image';
 
 /**
  * Update all game pages with new console hub design
+ * Run after refresh: the current result is pre-rendered into each page (see lib/prerender)
  */
 
 const publicDir = path.join(__dirname, '../public');
@@ -13,19 +21,6 @@ const ADSENSE_SLOT_TOP = "6919083675";
 const ADSENSE_SLOT_BOTTOM = "3246306240";
 
 
-const gamePages = [
-  { path: 'fortnite/next-season/index.html', game: 'fortnite', type: 'next-season', typeTitle: 'Season End', title: 'Fortnite', kicker: 'Pacific Break' },
-  { path: 'lol/next-patch/index.html', game: 'lol', type: 'next-patch', typeTitle: 'Next Patch', title: 'League of Legends', kicker: 'MOBA' },
-  { path: 'valorant/last-patch/index.html', game: 'valorant', type: 'last-patch', typeTitle: 'Last Patch', title: 'VALORANT', kicker: 'Tactical Shooter' },
-  { path: 'cs2/last-update/index.html', game: 'cs2', type: 'last-update', typeTitle: 'Last Update', title: 'Counter-Strike 2', kicker: 'Tactical Shooter' },
-  { path: 'minecraft/last-release/index.html', game: 'minecraft', type: 'last-release', typeTitle: 'Last Release', title: 'Minecraft', kicker: 'Sandbox' },
-  { path: 'roblox/status/index.html', game: 'roblox', type: 'status', typeTitle: 'Status', title: 'Roblox', kicker: 'Platform' },
-  { path: 'gta/weekly-reset/index.html', game: 'gta', type: 'weekly-reset', typeTitle: 'Weekly Reset', title: 'GTA Online', kicker: 'Open World' },
-  { path: 'warzone/last-patch/index.html', game: 'warzone', type: 'last-patch', typeTitle: 'Last Patch', title: 'Warzone', kicker: 'Battle Royale' },
-  { path: 'genshin/next-banner/index.html', game: 'genshin', type: 'next-banner', typeTitle: 'Next Banner', title: 'Genshin Impact', kicker: 'RPG' },
-  { path: 'pubg/last-patch/index.html', game: 'pubg', type: 'last-patch', typeTitle: 'Last Patch', title: 'PUBG', kicker: 'Battle Royale' }
-];
-
 const template = `<!DOCTYPE html>
 <html lang="en">
 <head>
@@ -34,8 +29,10 @@ const template = `<!DOCTYPE html>
   <meta name="description" content="__DESCRIPTION__">
   <meta property="og:title" content="__TITLE__ - NextReset">
   <meta property="og:type" content="website">
-  <meta property="og:image" content="https://nextreset.co/og.png">
-  <title>__TITLE__ - NextReset</title>
+  <meta property="og:description" content="__DESCRIPTION__">
+  <meta property="og:image" content="__OG_IMAGE__">
+  <meta name="twitter:card" content="summary_large_image">
+__FEED_LINKS____JSON_LD__  <title>__TITLE__ - NextReset</title>
   <link rel="icon" type="image/png" href="/favicon.png">
   <link rel="apple-touch-icon" href="/favicon.png">
   
@@ -56,7 +53,7 @@ const template = `<!DOCTYPE html>
     @media(max-width:600px){.game-title{font-size:32px}.countdown-value{font-size:40px}}
   </style>
 
-  <link rel="stylesheet" href="/assets/styles.v2.css">
+  <link rel="stylesheet" href="/assets/styles.v3.css">
   
   <script async src="https://www.googletagmanager.com/gtag/js?id=G-YY6V5SR1DN"></script>
   <script>
@@ -97,29 +94,35 @@ const template = `<!DOCTYPE html>
       </div>
       
       <!-- Countdown -->
-      <div class="countdown-box" id="countdown">
-        <div class="countdown-label">Checking official sources...</div>
-        <div class="countdown-value countdown-skeleton">--:--:--</div>
-      </div>
+      <div class="countdown-box" id="countdown">__COUNTDOWN__</div>
+
+      <!-- Region picker + source timezone (filled when the event has per-region times) -->
+      <div id="event-timing" class="event-timing" style="display: none;"></div>
       
       <!-- Info Panel -->
       <div class="info-panel">
         <div class="info-row">
           <span class="info-label">Source</span>
-          <span class="info-value" id="source">...</span>
+          <span class="info-value" id="source">__SOURCE__</span>
         </div>
         <div class="info-row">
           <span class="info-label">Confidence</span>
-          <span id="confidence" class="confidence">...</span>
+          <span id="confidence" class="__CONFIDENCE_CLASS__">__CONFIDENCE__</span>
         </div>
         <div class="info-row">
           <span class="info-label">Last Updated</span>
-          <span class="info-value" id="last-updated">...</span>
+          <span class="info-value" id="last-updated">__UPDATED__</span>
         </div>
       </div>
-      
+__CALENDAR__      
       <!-- Notes -->
-      <div id="notes" class="notes" style="display: none;"></div>
+      __NOTES__
+
+      <!-- Upcoming events (filled from events[]) -->
+      <div id="events" class="info-panel" style="display: none;"></div>
+
+      <!-- History (filled from <game>.<type>.history.json) -->
+      <div id="history" class="info-panel" style="display: none;"></div>
       
       <!-- Ad Bottom -->
       <!-- Ad Bottom -->
@@ -137,7 +140,7 @@ const template = `<!DOCTYPE html>
     
     <noscript>
       <div style="text-align: center; padding: 20px; color: #9ca3af; background: #111827; margin-top: 20px; border-radius: 12px;">
-        JavaScript is required for live countdowns. Data shown below is from the latest check.
+        JavaScript is required for live countdowns. Data shown above is from the latest check.
       </div>
     </noscript>
 
@@ -148,7 +151,7 @@ const template = `<!DOCTYPE html>
   
   <!-- Data attributes for JS -->
   <div id="countdown-container" data-game="__GAME__" data-type="__TYPE__" style="display: none;"></div>
-  
+__INITIAL_DATA__  
   <!-- Global error handlers -->
   <script>
     window.onerror = function(msg, url, lineNo, columnNo, error) {
@@ -161,24 +164,83 @@ const template = `<!DOCTYPE html>
       if (window.gtag) gtag('event', 'exception', { 'description': event.reason, 'fatal': false });
     });
   </script>
-  <script src="/assets/app.js" defer></script>
+  <script src="/assets/app.v2.js" defer></script>
 </body>
 </html>
 `;
 
-for (const page of gamePages) {
-  const filePath = path.join(publicDir, page.path);
+function renderNotes(notes: string | null): string {
+  return notes
+    ? `<div id="notes" class="notes" style="display: block;">${escapeHtml(notes)}</div>`
+    : '<div id="notes" class="notes" style="display: none;"></div>';
+}
+
+function renderInitialData(json: string | null): string {
+  if (!json) return '';
+  return `  <!-- Current result at build time; app.v2.js hydrates from this instead of fetching -->
+  <script type="application/json" id="initial-data">${json}</script>
+`;
+}
+
+// Per-game card from update-og-images when it rendered, else the shared image
+function getOgImageUrl(entry: CatalogEntry): string {
+  const file = getOgImageFile(entry);
+  return fs.existsSync(path.join(publicDir, file)) ? `${SITE_URL}/${file}` : `${SITE_URL}/og.png`;
+}
+
+function renderStructuredData(data: Record<string, unknown> | null): string {
+  if (!data) return '';
+  return `  <script type="application/ld+json">
+${renderJsonLd(data)}
+  </script>
+`;
+}
+
+function renderCalendarLink(entry: CatalogEntry): string {
+  if (!hasCalendar(entry.type)) return '';
+  return `
+      <!-- Calendar feed (.ics, refreshed with the data) -->
+      <a href="${getCalendarPath(entry)}" class="calendar-link" download>📅 Add to calendar</a>
+`;
+}
+
+function renderFeedLinks(entry: CatalogEntry): string {
+  if (!hasFeed(entry.type)) return '';
+  const feeds = getFeedPaths(entry);
+  return `  <link rel="alternate" type="application/atom+xml" title="${entry.name} updates (Atom)" href="${feeds.atom}">
+  <link rel="alternate" type="application/rss+xml" title="${entry.name} updates (RSS)" href="${feeds.rss}">
+`;
+}
+
+for (const entry of CATALOG) {
+  const filePath = path.join(publicDir, getPageFile(entry));
+  const result = readLiveData(entry.id, entry.type);
+  const page = prerenderPage(entry, result);
+  const ogImage = getOgImageUrl(entry);
 
+  // Replacer functions: pre-rendered values may contain "$" sequences
   let content = template
-    .replace(/__TITLE__/g, page.title)
-    .replace('__TYPE_TITLE__', page.typeTitle)
-    .replace('__DESCRIPTION__', `Track ${page.title} events and updates`)
-    .replace('__KICKER__', page.kicker)
-    .replace('__GAME__', page.game)
-    .replace('__TYPE__', page.type);
+    .replace(/__TITLE__/g, entry.name)
+    .replace('__TYPE_TITLE__', entry.typeTitle)
+    .replace(/__DESCRIPTION__/g, () => escapeHtml(page.description))
+    .replace('__OG_IMAGE__', ogImage)
+    .replace('__JSON_LD__', () => renderStructuredData(buildJsonLd(entry, result, ogImage)))
+    .replace('__COUNTDOWN__', () => page.countdown)
+    .replace('__SOURCE__', () => page.source)
+    .replace('__CONFIDENCE_CLASS__', page.confidenceClass)
+    .replace('__CONFIDENCE__', () => escapeHtml(page.confidence))
+    .replace('__UPDATED__', () => page.updated)
+    .replace('__NOTES__', () => renderNotes(page.notes))
+    .replace('__INITIAL_DATA__', () => renderInitialData(page.initialData))
+    .replace('__KICKER__', entry.kicker)
+    .replace('__GAME__', entry.id)
+    .replace('__TYPE__', entry.type)
+    .replace('__CALENDAR__', renderCalendarLink(entry))
+    .replace('__FEED_LINKS__', renderFeedLinks(entry));
 
+  fs.mkdirSync(path.dirname(filePath), { recursive: true });
   fs.writeFileSync(filePath, content, 'utf-8');
-  console.log(`✓ Updated ${page.title}`);
+  console.log(`✓ Updated ${entry.name}${page.initialData ? '' : ' (no data, skeleton only)'}`);
 }
 
 console.log('\n✅ All game pages updated with console hub design!');
@@ -0,0 +1,47 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { CATALOG, CatalogEntry } from './catalog';
+
+/**
+ * Regenerate the homepage game grid from the catalog
+ * Cards live between the CATALOG:CARDS markers in public/index.html
+ */
+
+const publicDir = path.join(__dirname, '../public');
+const indexPath = path.join(publicDir, 'index.html');
+
+const START_MARKER = '<!-- CATALOG:CARDS:START -->';
+const END_MARKER = '<!-- CATALOG:CARDS:END -->';
+
+function renderCard(entry: CatalogEntry): string {
+  return `      <a href="/${entry.path}/" class="card" id="card-${entry.id}" data-game="${entry.id}" data-type="${entry.type}"
+        data-state="loading" data-next-utc="">
+        <div class="card-header">
+          <h2 class="card-title">${entry.name}</h2>
+          <span class="badge badge-unavailable">--</span>
+        </div>
+        <div class="card-countdown">Loading...</div>
+        <div class="card-meta">
+          <span class="last-checked">--</span>
+        </div>
+      </a>`;
+}
+
+const content = fs.readFileSync(indexPath, 'utf-8');
+const start = content.indexOf(START_MARKER);
+const end = content.indexOf(END_MARKER);
+
+if (start === -1 || end === -1 || end < start) {
+  console.error(`❌ Missing ${START_MARKER} / ${END_MARKER} markers in index.html`);
+  process.exit(1);
+}
+
+const cards = CATALOG.map(renderCard).join('\n\n');
+const updated = content.slice(0, start + START_MARKER.length)
+  + `\n${cards}\n      `
+  + content.slice(end);
+
+fs.writeFileSync(indexPath, updated, 'utf-8');
+console.log(`✓ Rendered ${CATALOG.length} homepage cards`);
+
+console.log('\n✅ Homepage updated!');
@@ -0,0 +1,23 @@
+import * as path from 'path';
+import { CATALOG } from './catalog';
+import { readLiveData } from './lib/data-output';
+import { renderOgImages } from './lib/og-image';
+
+/**
+ * Render per-game Open Graph images into public/og/ from the current live data
+ * Never fails the build: without Chromium, pages keep the shared og.png
+ */
+
+const publicDir = path.join(__dirname, '../public');
+
+async function main() {
+  const cards = CATALOG.map(entry => ({ entry, result: readLiveData(entry.id, entry.type) }));
+  try {
+    const written = await renderOgImages(publicDir, cards);
+    console.log(`✓ Rendered ${written.length}/${CATALOG.length} OG images`);
+  } catch (error) {
+    console.warn(`⚠ Skipping OG images, browser unavailable: ${error instanceof Error ? error.message.split('\n')[0] : String(error)}`);
+  }
+}
+
+main();
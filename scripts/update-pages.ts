@@ -1,5 +1,6 @@
 import * as fs from 'fs';
 import * as path from 'path';
+import { CATALOG, getPageFile } from './catalog';
 
 /**
  * Script to update all game pages with v1 refinements:
@@ -9,21 +10,8 @@ import * as path from 'path';
 
 const gamePagesDir = path.join(__dirname, '../public');
 
-const gamePages = [
-    { path: 'fortnite/next-season/index.html', game: 'Fortnite', type: 'Next Season' },
-    { path: 'lol/next-patch/index.html', game: 'League of Legends', type: 'Next Patch' },
-    { path: 'valorant/last-patch/index.html', game: 'VALORANT', type: 'Last Patch' },
-    { path: 'cs2/last-update/index.html', game: 'Counter-Strike 2', type: 'Last Update' },
-    { path: 'minecraft/last-release/index.html', game: 'Minecraft', type: 'Last Release' },
-    { path: 'roblox/status/index.html', game: 'Roblox', type: 'Service Status' },
-    { path: 'gta/weekly-reset/index.html', game: 'GTA Online', type: 'Weekly Reset' },
-    { path: 'warzone/last-patch/index.html', game: 'Warzone', type: 'Last Patch' },
-    { path: 'genshin/next-banner/index.html', game: 'Genshin Impact', type: 'Next Banner' },
-    { path: 'pubg/last-patch/index.html', game: 'PUBG', type: 'Last Patch' }
-];
-
-for (const page of gamePages) {
-    const filePath = path.join(gamePagesDir, page.path);
+for (const entry of CATALOG) {
+    const filePath = path.join(gamePagesDir, getPageFile(entry));
     let content = fs.readFileSync(filePath, 'utf-8');
 
     // 1. Add OG image if not present
@@ -46,7 +34,7 @@ for (const page of gamePages) {
     );
 
     fs.writeFileSync(filePath, content, 'utf-8');
-    console.log(`✓ Updated ${page.game}`);
+    console.log(`✓ Updated ${entry.name}`);
 }
 
 console.log('\n✅ All game pages updated!');
@@ -0,0 +1,25 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { CATALOG } from './catalog';
+import { readLiveData, readLkgData } from './lib/data-output';
+import { getLastModified, renderSitemap, renderRobots } from './lib/sitemap';
+
+/**
+ * Generate sitemap.xml (with lastmod from provider data) and robots.txt from the catalog
+ * Run after refresh so lastmod reflects the latest successful fetch
+ */
+
+const publicDir = path.join(__dirname, '../public');
+const sitemapPath = path.join(publicDir, 'sitemap.xml');
+const robotsPath = path.join(publicDir, 'robots.txt');
+
+const pages = CATALOG.map(entry => ({
+  entry,
+  lastmod: getLastModified(readLiveData(entry.id, entry.type), readLkgData(entry.id, entry.type))
+}));
+
+fs.writeFileSync(sitemapPath, renderSitemap(pages), 'utf-8');
+fs.writeFileSync(robotsPath, renderRobots(), 'utf-8');
+
+const dated = pages.filter(page => page.lastmod).length;
+console.log(`✓ Wrote sitemap.xml (${CATALOG.length + 1} URLs, ${dated} with lastmod) and robots.txt`);
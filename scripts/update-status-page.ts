@@ -0,0 +1,24 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { getStatusPath, StatusReport } from './lib/run-log';
+import { renderStatusPage } from './lib/status-page';
+
+/**
+ * Render public/status/index.html from status.json (written by refresh-all from the run log)
+ * Without a status.json the page says no runs have been recorded yet
+ */
+
+const publicDir = path.join(__dirname, '../public');
+const statusPagePath = path.join(publicDir, 'status', 'index.html');
+
+let report: StatusReport | null = null;
+try {
+  report = JSON.parse(fs.readFileSync(getStatusPath(), 'utf-8')) as StatusReport;
+} catch {
+  console.warn('⚠ No status.json found, rendering empty status page');
+}
+
+fs.mkdirSync(path.dirname(statusPagePath), { recursive: true });
+fs.writeFileSync(statusPagePath, renderStatusPage(report), 'utf-8');
+
+console.log(`✓ Wrote status/index.html (${report ? report.providers.length : 0} provider(s))`);